@@ -0,0 +1,64 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Layers, X } from "lucide-react";
+import { useSceneBatch } from "@/hooks/useSceneBatch";
+
+interface BatchProgressProps {
+  batchId: string;
+  onDismiss: () => void;
+}
+
+const statusBadgeClass: Record<string, string> = {
+  ready: "bg-green-500 text-white",
+  error: "bg-red-500 text-white",
+  processing: "bg-yellow-500 text-white",
+  queued: "bg-muted text-muted-foreground",
+  cancelled: "bg-status-cancelled text-white",
+};
+
+export function BatchProgress({ batchId, onDismiss }: BatchProgressProps) {
+  const { batch, error } = useSceneBatch(batchId);
+
+  if (error && !batch) {
+    return <p className="text-xs text-red-500">Storyboard progress unavailable: {error}</p>;
+  }
+
+  if (!batch) {
+    return <div className="h-12 bg-muted animate-pulse rounded-lg" />;
+  }
+
+  const { progress } = batch;
+  const finished = progress.ready + progress.failed + progress.cancelled;
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-sm font-medium">
+          <Layers className="w-4 h-4" />
+          <span>Storyboard {finished}/{progress.total}</span>
+        </div>
+        <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+          <span>{progress.processing} rendering · {progress.queued} queued{progress.failed > 0 && ` · ${progress.failed} failed`}{progress.cancelled > 0 && ` · ${progress.cancelled} cancelled`}</span>
+          {progress.done && (
+            <Button variant="ghost" size="sm" onClick={onDismiss}>
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <Progress value={progress.total ? (finished / progress.total) * 100 : 0} />
+      <div className="flex flex-wrap gap-1">
+        {batch.scenes.map(scene => (
+          <Badge
+            key={scene.id}
+            className={`text-xs ${statusBadgeClass[scene.status || 'processing'] || statusBadgeClass.processing}`}
+            title={scene.lumaError || scene.status || undefined}
+          >
+            Scene {scene.ordinal}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
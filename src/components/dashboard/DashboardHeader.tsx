@@ -1,7 +1,10 @@
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Video, LogOut, Download } from "lucide-react";
+import { Video, LogOut, Download, BarChart3, Loader2 } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { useHotkeys } from "react-hotkeys-hook";
 import { supabase } from "@/integrations/supabase/client";
+import { useApi } from "@/hooks/useApi";
 import { toast } from "sonner";
 import { User } from "@supabase/supabase-js";
 
@@ -15,9 +18,21 @@ interface Profile {
 interface DashboardHeaderProps {
   user: User;
   profile: Profile;
+  currentProject?: string;
 }
 
-export function DashboardHeader({ user, profile }: DashboardHeaderProps) {
+interface ProjectExport {
+  url: string;
+  fileName: string;
+  sceneCount: number;
+  skippedCount: number;
+  totalMb: number;
+}
+
+export function DashboardHeader({ user, profile, currentProject }: DashboardHeaderProps) {
+  const navigate = useNavigate();
+  const { execute: exportProject, loading: exporting } = useApi<ProjectExport>();
+
   const handleSignOut = async () => {
     try {
       await supabase.auth.signOut();
@@ -27,11 +42,46 @@ export function DashboardHeader({ user, profile }: DashboardHeaderProps) {
     }
   };
 
-  const handleExportAll = () => {
-    // TODO: Implement export functionality
-    toast.info("Export functionality coming soon");
+  const handleExportAll = async () => {
+    if (!currentProject) {
+      toast.error("Select a project to export");
+      return;
+    }
+    if (exporting) return;
+
+    const toastId = toast.loading(`Packaging ${currentProject}...`);
+    const result = await exportProject(async () => {
+      const response = await supabase.functions.invoke('export-project', {
+        method: 'POST',
+        body: { folder: currentProject }
+      });
+
+      if (response.error) {
+        // Non-2xx responses keep their { error } body (e.g. EXPORT_TOO_LARGE with totalMb) on the context
+        const body = await response.error.context?.json().catch(() => null);
+        throw body ?? response.error;
+      }
+
+      if (!response.data.ok) {
+        throw response.data;
+      }
+
+      return response.data.data;
+    });
+    toast.dismiss(toastId);
+
+    if (result) {
+      window.location.assign(result.url);
+      toast.success(`Exported ${result.sceneCount} scenes (${result.totalMb}MB)`, {
+        description: result.skippedCount > 0 ? `${result.skippedCount} scenes had no video and were left out` : undefined
+      });
+    }
   };
 
+  useHotkeys('mod+e', () => {
+    handleExportAll();
+  }, { preventDefault: true }, [currentProject, exporting]);
+
   const getInitials = (email: string) => {
     return email.split("@")[0].slice(0, 2).toUpperCase();
   };
@@ -55,13 +105,24 @@ export function DashboardHeader({ user, profile }: DashboardHeaderProps) {
 
           {/* Actions */}
           <div className="flex items-center space-x-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate("/dashboard/usage")}
+              className="hidden sm:inline-flex"
+            >
+              <BarChart3 className="w-4 h-4 mr-2" />
+              Usage
+            </Button>
+
             <Button
               variant="outline"
               size="sm"
               onClick={handleExportAll}
+              disabled={exporting || !currentProject}
               className="hidden sm:inline-flex"
             >
-              <Download className="w-4 h-4 mr-2" />
+              {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
               Export All
             </Button>
             
@@ -5,13 +5,25 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { Images, Play, Loader2, Upload, FolderOpen, X, Settings } from "lucide-react";
+import { Images, Play, Loader2, Upload, FolderOpen, X, Settings, ListPlus, Layers } from "lucide-react";
 import { useHotkeys } from "react-hotkeys-hook";
 import { useApi } from "@/hooks/useApi";
 import { useShotTypes } from "@/hooks/useShotTypes";
 import { ShotTypesManager } from "@/components/dashboard/ShotTypesManager";
+import { BatchProgress } from "@/components/dashboard/BatchProgress";
+import { submitStoryboard, type StoryboardItem } from "@/hooks/useSceneBatch";
+import {
+  buildScenePrompt,
+  SCENE_PROMPT_VARIABLES,
+  templateVariables,
+  type PromptOverrideMode,
+  type ScenePromptVars,
+} from "@/lib/promptTemplate";
+import { isReservedHotkey, normalizeHotkey } from "@/lib/shotTypeHotkeys";
 
 interface Photo {
   key: string;
@@ -26,7 +38,14 @@ interface PhotoGridProps {
   selectedShotTypeId: string | null;
   onPhotoSelect: (photoUrl: string, type: "start" | "end") => void;
   onShotTypeSelect: (shotTypeId: string) => void;
-  onSceneGenerate: (sceneData: { startFrameUrl: string; endFrameUrl?: string; shotTypeId: string }) => void;
+  onSceneGenerate: (sceneData: {
+    startFrameUrl: string;
+    endFrameUrl?: string;
+    shotTypeId: string;
+    promptVars?: ScenePromptVars;
+    promptOverride?: string;
+    promptOverrideMode?: PromptOverrideMode;
+  }) => void;
   onUploadComplete: (folder: string, files: string[]) => void;
 }
 
@@ -56,6 +75,23 @@ export function PhotoGrid({
   const [showUploadExpanded, setShowUploadExpanded] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Storyboard: frame pairs queued up and submitted as one batch
+  const [storyboard, setStoryboard] = useState<StoryboardItem[]>([]);
+  const [submittingStoryboard, setSubmittingStoryboard] = useState(false);
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
+
+  // Values for the {{subject}}/{{mood}} placeholders of the selected shot type
+  const [promptVars, setPromptVars] = useState<ScenePromptVars>({});
+  // Free text added to (or replacing) the shot type prompt for the next scene
+  const [promptOverride, setPromptOverride] = useState("");
+  const [replacePrompt, setReplacePrompt] = useState(false);
+
+  useEffect(() => {
+    // A storyboard belongs to one project folder
+    setStoryboard([]);
+    setActiveBatchId(null);
+  }, [projectName]);
+
   useEffect(() => {
     const loadPhotos = async () => {
       if (!projectName) {
@@ -141,10 +177,11 @@ export function PhotoGrid({
     }
   }, { enableOnFormTags: false }, [hoveredKey, selectedEnd, onPhotoSelect, photos]);
 
-  // Single hotkey handler for all shot types
+  // Single hotkey handler for all shot types; reserved keys are left to their own shortcuts
   useHotkeys('*', (event) => {
-    const key = event.key.toLowerCase();
-    const shotType = shotTypes.find(st => st.hotkey === key);
+    const key = normalizeHotkey(event.key);
+    if (isReservedHotkey(key)) return;
+    const shotType = shotTypes.find(st => normalizeHotkey(st.hotkey) === key);
     if (shotType) {
       onShotTypeSelect(shotType.id);
     }
@@ -171,13 +208,70 @@ export function PhotoGrid({
     const sceneData = {
       startFrameUrl: selectedStart,
       endFrameUrl: selectedEnd || undefined,
-      shotTypeId: selectedShotTypeId
+      shotTypeId: selectedShotTypeId,
+      promptVars: scenePromptVars,
+      ...sceneOverride
     };
 
     // Call parent handler to create immediate scene card
     onSceneGenerate(sceneData);
   };
 
+  const handleAddToStoryboard = () => {
+    if (!canGenerateScene || !selectedShotTypeId) return;
+
+    setStoryboard(prev => [...prev, {
+      startFrameUrl: selectedStart,
+      endFrameUrl: selectedEnd || undefined,
+      shotTypeId: selectedShotTypeId,
+      promptVars: scenePromptVars,
+      ...sceneOverride
+    }]);
+  };
+
+  const handleGenerateStoryboard = async () => {
+    if (storyboard.length === 0 || !projectName) return;
+
+    setSubmittingStoryboard(true);
+    try {
+      const result = await submitStoryboard(projectName, storyboard);
+      setStoryboard([]);
+      setActiveBatchId(result.batchId);
+      toast.success(`Storyboard queued: ${result.total} scenes`, {
+        description: `${result.started} started now, up to ${result.maxConcurrent} render at once`
+      });
+    } catch (error) {
+      console.error("Error queueing storyboard:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to queue storyboard");
+    } finally {
+      setSubmittingStoryboard(false);
+    }
+  };
+
+  const selectedShotType = shotTypes.find(shotType => shotType.id === selectedShotTypeId);
+  const sceneVariables = selectedShotType
+    ? templateVariables(selectedShotType.prompt_template)
+        .filter((name): name is keyof ScenePromptVars => (SCENE_PROMPT_VARIABLES as readonly string[]).includes(name))
+    : [];
+  // Only the variables the template uses are sent with the scene
+  const scenePromptVars: ScenePromptVars = Object.fromEntries(
+    sceneVariables.filter(name => promptVars[name]?.trim()).map(name => [name, promptVars[name]!.trim()])
+  );
+  const sceneOverride = promptOverride.trim()
+    ? { promptOverride: promptOverride.trim(), promptOverrideMode: (replacePrompt ? 'replace' : 'append') as PromptOverrideMode }
+    : {};
+  // The ordinal is assigned when the scene is created
+  const promptPreview = selectedShotType
+    ? buildScenePrompt(
+        selectedShotType.prompt_template,
+        { text: sceneOverride.promptOverride, mode: sceneOverride.promptOverrideMode },
+        { project: projectName, scene_ordinal: 'N', ...scenePromptVars }
+      )
+    : '';
+
+  const getShotTypeName = (shotTypeId: string) =>
+    shotTypes.find(shotType => shotType.id === shotTypeId)?.name || 'Unknown shot type';
+
   // Upload functionality
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -462,6 +556,51 @@ export function PhotoGrid({
               ))}
             </div>
           )}
+
+          {selectedShotType && (
+            <div className="mt-3 space-y-2">
+              {sceneVariables.length > 0 && (
+                <div className="grid grid-cols-2 gap-2">
+                  {sceneVariables.map(name => (
+                    <div key={name}>
+                      <Label htmlFor={`prompt-var-${name}`} className="text-xs capitalize">{name}</Label>
+                      <Input
+                        id={`prompt-var-${name}`}
+                        value={promptVars[name] || ''}
+                        onChange={(e) => setPromptVars(prev => ({ ...prev, [name]: e.target.value }))}
+                        maxLength={200}
+                        className="h-8 text-sm"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="prompt-override" className="text-xs">
+                    {replacePrompt ? "Prompt for this scene" : "Add to prompt"}
+                  </Label>
+                  <div className="flex items-center space-x-2">
+                    <Label htmlFor="replace-prompt" className="text-xs text-muted-foreground">Replace shot type prompt</Label>
+                    <Switch id="replace-prompt" checked={replacePrompt} onCheckedChange={setReplacePrompt} />
+                  </div>
+                </div>
+                <Textarea
+                  id="prompt-override"
+                  value={promptOverride}
+                  onChange={(e) => setPromptOverride(e.target.value)}
+                  placeholder="Optional. Template variables work here too"
+                  maxLength={1000}
+                  rows={2}
+                  className="resize-none text-sm mt-1"
+                />
+              </div>
+              <div className="rounded-md bg-muted/50 p-2">
+                <p className="text-xs text-muted-foreground mb-1">Prompt preview</p>
+                <p className="text-sm">{promptPreview || <span className="text-orange-500">Prompt is empty</span>}</p>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Photo Grid */}
@@ -590,6 +729,15 @@ export function PhotoGrid({
               </>
             )}
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleAddToStoryboard}
+            disabled={!canGenerateScene || !selectedShotTypeId}
+          >
+            <ListPlus className="w-4 h-4 mr-2" />
+            Add to Storyboard
+          </Button>
           {selectedStart && !selectedEnd && (
             <p className="text-xs text-muted-foreground">End optional</p>
           )}
@@ -601,6 +749,51 @@ export function PhotoGrid({
           )}
         </div>
 
+        {/* Storyboard */}
+        {storyboard.length > 0 && (
+          <div className="rounded-lg border p-3 space-y-2">
+            <h4 className="text-sm font-medium flex items-center space-x-2">
+              <Layers className="w-4 h-4" />
+              <span>Storyboard ({storyboard.length})</span>
+            </h4>
+            <div className="space-y-1">
+              {storyboard.map((item, index) => (
+                <div key={index} className="flex items-center justify-between text-xs">
+                  <span className="truncate">
+                    {index + 1}. {getFilename(item.startFrameUrl.split('?')[0])}
+                    {item.endFrameUrl && ` → ${getFilename(item.endFrameUrl.split('?')[0])}`}
+                    <Badge variant="secondary" className="text-xs ml-2">{getShotTypeName(item.shotTypeId)}</Badge>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setStoryboard(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button
+              size="sm"
+              className="w-full"
+              onClick={handleGenerateStoryboard}
+              disabled={submittingStoryboard}
+            >
+              {submittingStoryboard ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="w-4 h-4 mr-2" />
+              )}
+              Generate Storyboard ({storyboard.length})
+            </Button>
+          </div>
+        )}
+
+        {activeBatchId && (
+          <BatchProgress batchId={activeBatchId} onDismiss={() => setActiveBatchId(null)} />
+        )}
+
         {/* Instructions */}
         <div className="text-xs text-muted-foreground text-center space-y-1">
           <p>Hover image then press <kbd className="px-1 py-0.5 bg-muted rounded text-xs">S</kbd> to set Start, <kbd className="px-1 py-0.5 bg-muted rounded text-xs">E</kbd> to set End. End is optional.</p>
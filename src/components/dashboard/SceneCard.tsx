@@ -1,15 +1,8 @@
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Video, RotateCcw, History, Loader2, AlertCircle } from "lucide-react";
-
-const shotTypeNames: Record<number, string> = {
-  1: "Wide Shot",
-  2: "Medium Shot", 
-  3: "Close-up",
-  4: "Extreme Close-up",
-  5: "Over Shoulder",
-  6: "Point of View"
-};
+import { Video, RotateCcw, History, Loader2, AlertCircle, Play } from "lucide-react";
+import type { ShotType } from "@/hooks/useShotTypes";
 
 interface SceneCardProps {
   scene: {
@@ -17,12 +10,17 @@ interface SceneCardProps {
     generationId: string;
     startFrameUrl: string;
     endFrameUrl?: string;
-    shotType: number;
+    // The user's shot type record; null once the shot type has been deleted
+    shotType?: Pick<ShotType, 'id' | 'name'> | null;
     status: 'processing' | 'ready' | 'error';
     videoUrl?: string;
+    // Poster frame and animated preview of the render, shown until the video is played
+    posterUrl?: string | null;
+    previewUrl?: string | null;
     createdAt: Date;
     ordinal?: number;
     version?: number;
+    activeVersion?: number | null;
   };
   sceneNumber: number;
   onRegenerate?: (sceneId: string) => void;
@@ -30,6 +28,9 @@ interface SceneCardProps {
 }
 
 export function SceneCard({ scene, sceneNumber, onRegenerate, onRevertVersion }: SceneCardProps) {
+  const [hovered, setHovered] = useState(false);
+  const [playing, setPlaying] = useState(false);
+
   const getStatusIcon = () => {
     switch (scene.status) {
       case 'processing':
@@ -44,26 +45,51 @@ export function SceneCard({ scene, sceneNumber, onRegenerate, onRevertVersion }:
   };
 
   return (
-    <div className="relative aspect-square rounded-lg overflow-hidden bg-background border border-border transition-all hover:scale-[1.02] hover:shadow-lg group">
+    <div
+      className="relative aspect-square rounded-lg overflow-hidden bg-background border border-border transition-all hover:scale-[1.02] hover:shadow-lg group"
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+    >
       {/* Scene Number Badge with version - Minimalist */}
       <Badge className="absolute top-2 left-2 z-10 bg-primary text-primary-foreground text-xs font-medium border-0">
-        Scene {scene.ordinal || sceneNumber} v{scene.version || 1}
+        Scene {scene.ordinal || sceneNumber} v{scene.activeVersion ?? scene.version ?? 1}
       </Badge>
+
+      {scene.shotType && (
+        <Badge variant="secondary" className="absolute top-8 left-2 z-10 text-xs font-normal max-w-[calc(100%-1rem)] truncate">
+          {scene.shotType.name}
+        </Badge>
+      )}
       
       {/* Status Indicator - Small and Subtle */}
       <div className="absolute top-2 right-2 z-10">
         {getStatusIcon()}
       </div>
 
-      {/* Video Content - Maximized for space */}
-      {scene.status === 'ready' && scene.videoUrl ? (
+      {/* Video Content - Maximized for space; the video only loads once played */}
+      {scene.status === 'ready' && scene.videoUrl && playing ? (
         <video
           src={scene.videoUrl}
           controls
+          autoPlay
           className="w-full h-full object-cover"
-          preload="metadata"
-          poster={scene.startFrameUrl}
+          poster={scene.posterUrl || scene.startFrameUrl}
         />
+      ) : scene.status === 'ready' && scene.videoUrl ? (
+        <button
+          type="button"
+          className="w-full h-full relative"
+          onClick={() => setPlaying(true)}
+          aria-label={`Play scene ${sceneNumber}`}
+        >
+          <img
+            src={(hovered && scene.previewUrl) || scene.posterUrl || scene.startFrameUrl}
+            alt={`Scene ${sceneNumber} preview`}
+            className="w-full h-full object-cover"
+            loading="lazy"
+          />
+          <Play className="absolute inset-0 m-auto w-8 h-8 text-white drop-shadow opacity-0 group-hover:opacity-100 transition-opacity" />
+        </button>
       ) : (
         <div className="w-full h-full bg-muted flex items-center justify-center relative">
           {/* Thumbnail Preview */}
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { GripVertical, EyeOff, Eye, Save, Undo2, Video } from 'lucide-react';
+
+export interface TimelineScene {
+  id: string;
+  ordinal: number | null;
+  excluded: boolean;
+  status: string;
+  shotTypeName: string | null;
+  thumbnailUrl: string | null;
+}
+
+interface SceneTimelineProps {
+  scenes: TimelineScene[];
+  saving: boolean;
+  onSave: (ids: string[], excluded: string[]) => void;
+}
+
+function initialOrder(scenes: TimelineScene[]) {
+  return [...scenes]
+    .sort((a, b) => Number(a.excluded) - Number(b.excluded) || (a.ordinal ?? Infinity) - (b.ordinal ?? Infinity))
+    .map(scene => scene.id);
+}
+
+// Draft of a project's scene order; nothing is saved until the user confirms, so the whole
+// edit is applied (and files renamed) in one request
+export function SceneTimeline({ scenes, saving, onSave }: SceneTimelineProps) {
+  const [order, setOrder] = useState<string[]>(() => initialOrder(scenes));
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set(scenes.filter(s => s.excluded).map(s => s.id)));
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dragOverId, setDragOverId] = useState<string | null>(null);
+  const [positionDrafts, setPositionDrafts] = useState<Record<string, string>>({});
+
+  const savedOrder = initialOrder(scenes);
+  const savedExcluded = scenes.filter(s => s.excluded).map(s => s.id);
+
+  const byId = new Map(scenes.map(s => [s.id, s]));
+  const included = order.filter(id => !excluded.has(id));
+  const left = order.filter(id => excluded.has(id));
+  const savedIncluded = savedOrder.filter(id => !savedExcluded.includes(id));
+  const hasGaps = savedIncluded.some((id, index) => byId.get(id)?.ordinal !== index + 1);
+  const dirty = [...included, ...left].join(',') !== savedOrder.join(',') || left.length !== savedExcluded.length;
+
+  // Included scenes first, then excluded ones, which is how the server numbers them
+  const arrange = (nextIncluded: string[], nextExcluded: Set<string>) => {
+    setExcluded(nextExcluded);
+    setOrder([...nextIncluded, ...order.filter(id => nextExcluded.has(id))]);
+  };
+
+  const handleDrop = (targetId: string) => {
+    if (!draggingId || draggingId === targetId) return;
+
+    // The dragged scene takes the target's place
+    const ids = included.filter(id => id !== draggingId);
+    ids.splice(included.indexOf(targetId), 0, draggingId);
+    arrange(ids, excluded);
+  };
+
+  const moveToPosition = (id: string) => {
+    const draft = positionDrafts[id];
+    setPositionDrafts(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    const position = parseInt(draft ?? '', 10);
+    if (!Number.isFinite(position)) return;
+
+    const ids = included.filter(sceneId => sceneId !== id);
+    ids.splice(Math.min(Math.max(position, 1), included.length) - 1, 0, id);
+    arrange(ids, excluded);
+  };
+
+  const toggleExcluded = (id: string) => {
+    const next = new Set(excluded);
+    if (next.has(id)) {
+      next.delete(id);
+      arrange([...included, id], next);
+    } else {
+      next.add(id);
+      arrange(included.filter(sceneId => sceneId !== id), next);
+    }
+  };
+
+  const renderRow = (id: string, index: number, isExcluded: boolean) => {
+    const scene = byId.get(id);
+    if (!scene) return null;
+    const canDrag = !isExcluded && !saving && included.length > 1;
+
+    return (
+      <div
+        key={id}
+        draggable={canDrag}
+        onDragStart={() => setDraggingId(id)}
+        onDragOver={(e) => {
+          if (!draggingId || isExcluded) return;
+          e.preventDefault();
+          setDragOverId(id);
+        }}
+        onDragLeave={() => setDragOverId(prev => prev === id ? null : prev)}
+        onDrop={(e) => {
+          e.preventDefault();
+          handleDrop(id);
+        }}
+        onDragEnd={() => {
+          setDraggingId(null);
+          setDragOverId(null);
+        }}
+        className={`flex items-center gap-3 rounded-lg border p-2 ${isExcluded ? 'opacity-60 border-dashed' : ''} ${
+          draggingId === id ? 'opacity-50' : ''
+        } ${dragOverId === id && draggingId !== id ? 'border-primary' : 'border-border'}`}
+      >
+        {canDrag ? (
+          <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab flex-shrink-0" />
+        ) : (
+          <div className="w-4 flex-shrink-0" />
+        )}
+        {isExcluded ? (
+          <span className="w-14 text-center text-xs text-muted-foreground">—</span>
+        ) : (
+          <Input
+            type="number"
+            min={1}
+            max={included.length}
+            value={positionDrafts[id] ?? String(index + 1)}
+            onChange={(e) => setPositionDrafts(prev => ({ ...prev, [id]: e.target.value }))}
+            onBlur={() => moveToPosition(id)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') moveToPosition(id);
+            }}
+            disabled={saving}
+            className="w-14 h-8 text-center"
+            title="Position in the timeline"
+          />
+        )}
+        {scene.thumbnailUrl ? (
+          <img src={scene.thumbnailUrl} alt="" className="w-16 aspect-video object-cover rounded" />
+        ) : (
+          <div className="w-16 aspect-video bg-muted rounded flex items-center justify-center">
+            <Video className="w-4 h-4 text-muted-foreground" />
+          </div>
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium">
+              {scene.ordinal != null ? `Scene ${scene.ordinal}` : 'Unnumbered scene'}
+            </span>
+            {scene.shotTypeName && <Badge variant="outline" className="text-xs truncate">{scene.shotTypeName}</Badge>}
+          </div>
+          <span className="text-xs text-muted-foreground">{scene.status}</span>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => toggleExcluded(id)}
+          disabled={saving}
+          title={isExcluded ? 'Add back to the timeline' : 'Leave out of the timeline'}
+        >
+          {isExcluded ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+        </Button>
+      </div>
+    );
+  };
+
+  if (scenes.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Video className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+        <p className="text-muted-foreground">No scenes in this project yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Drag scenes or type a position. Saving numbers them 1 to {included.length} and renames their files.
+        </p>
+        <div className="flex gap-2 flex-shrink-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setOrder(savedOrder);
+              setExcluded(new Set(savedExcluded));
+              setPositionDrafts({});
+            }}
+            disabled={!dirty || saving}
+          >
+            <Undo2 className="w-4 h-4 mr-2" />
+            Reset
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => onSave([...included, ...left], left)}
+            disabled={(!dirty && !hasGaps) || saving}
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : dirty ? 'Save Order' : 'Renumber'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {included.map((id, index) => renderRow(id, index, false))}
+      </div>
+
+      {left.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Not in timeline</p>
+          {left.map((id, index) => renderRow(id, index, true))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { History, Pin, Columns2, Play } from "lucide-react";
+import type { SceneVersion } from "@/hooks/useSceneVersions";
+
+interface SceneVersionsPanelProps {
+  versions: SceneVersion[];
+  activeVersion: number | null;
+  onPin: (version: number) => void;
+}
+
+export function SceneVersionsPanel({ versions, activeVersion, onPin }: SceneVersionsPanelProps) {
+  const [compare, setCompare] = useState<number[]>([]);
+  const [expandedMeta, setExpandedMeta] = useState<number | null>(null);
+  const compareRefs = useRef<Record<number, HTMLVideoElement | null>>({});
+
+  const toggleCompare = (version: number) => {
+    setCompare(prev => {
+      if (prev.includes(version)) return prev.filter(v => v !== version);
+      // Keep the two most recent picks
+      return [...prev, version].slice(-2);
+    });
+  };
+
+  const playBoth = () => {
+    compare.forEach(version => {
+      const video = compareRefs.current[version];
+      if (video) {
+        video.currentTime = 0;
+        video.play();
+      }
+    });
+  };
+
+  const compared = compare
+    .map(version => versions.find(v => v.version === version))
+    .filter((v): v is SceneVersion => !!v);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-muted-foreground flex items-center space-x-2">
+          <History className="w-4 h-4" />
+          <span>Versions ({versions.length})</span>
+        </h4>
+        {compared.length === 2 && (
+          <Button variant="outline" size="sm" onClick={playBoth}>
+            <Play className="w-4 h-4 mr-2" />
+            Play Both
+          </Button>
+        )}
+      </div>
+
+      {/* Side-by-side comparison */}
+      {compared.length > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          {compared.map(version => (
+            <div key={version.version} className="space-y-1">
+              <div className="aspect-video bg-black rounded-lg overflow-hidden">
+                {version.videoUrl && (
+                  <video
+                    ref={el => { compareRefs.current[version.version] = el; }}
+                    src={version.videoUrl}
+                    controls
+                    muted
+                    className="w-full h-full"
+                    preload="metadata"
+                    poster={version.posterUrl ?? undefined}
+                  />
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                v{version.version} · {version.providerModel || version.provider}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Version list */}
+      <div className="space-y-2">
+        {versions.map(version => (
+          <div
+            key={version.version}
+            className={`rounded-lg border p-2 ${version.version === activeVersion ? 'border-primary' : 'border-border'}`}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <span className="text-sm font-medium">v{version.version}</span>
+                {version.version === activeVersion && (
+                  <Badge className="text-xs">Active</Badge>
+                )}
+                <span className="text-xs text-muted-foreground">
+                  {version.providerModel || version.provider} · {new Date(version.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <div className="flex space-x-1">
+                <Button
+                  variant={compare.includes(version.version) ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => toggleCompare(version.version)}
+                  disabled={!version.videoUrl}
+                >
+                  <Columns2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setExpandedMeta(expandedMeta === version.version ? null : version.version)}
+                >
+                  Details
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onPin(version.version)}
+                  disabled={version.version === activeVersion || !version.videoUrl}
+                >
+                  <Pin className="w-4 h-4 mr-1" />
+                  Set Active
+                </Button>
+              </div>
+            </div>
+            {expandedMeta === version.version && (
+              <pre className="mt-2 text-xs bg-muted rounded p-2 overflow-x-auto">
+                {JSON.stringify(version.renderMeta, null, 2)}
+              </pre>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Clapperboard, Loader2 } from 'lucide-react';
+import { useSequenceRender } from '@/hooks/useSequenceRender';
+
+const CROSSFADE_OPTIONS = [
+  { value: '0', label: 'Hard cuts' },
+  { value: '0.5', label: '0.5s crossfade' },
+  { value: '1', label: '1s crossfade' },
+  { value: '2', label: '2s crossfade' },
+];
+
+interface SequencePreviewProps {
+  folder: string;
+  // Status colours shared with the scene badges
+  getStatusColor: (status: string) => string;
+}
+
+// The project's timeline rendered as one video, for watching the cut without exporting
+export function SequencePreview({ folder, getStatusColor }: SequencePreviewProps) {
+  const { render, starting, startRender } = useSequenceRender(folder);
+  const [crossfade, setCrossfade] = useState('0');
+
+  const inFlight = render?.status === 'queued' || render?.status === 'rendering';
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Clapperboard className="w-4 h-4 flex-shrink-0" />
+          <span className="text-sm font-medium">Sequence Preview</span>
+          {render && (
+            <Badge variant="secondary" className={`text-xs ${getStatusColor(render.status)}`}>
+              {render.status}
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={crossfade} onValueChange={setCrossfade} disabled={inFlight || starting}>
+            <SelectTrigger className="h-8 w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CROSSFADE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={() => startRender(parseFloat(crossfade))} disabled={inFlight || starting}>
+            {inFlight || starting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Clapperboard className="w-4 h-4 mr-2" />}
+            {render?.status === 'ready' ? 'Render Again' : 'Render'}
+          </Button>
+        </div>
+      </div>
+
+      {render?.status === 'ready' && render.videoUrl ? (
+        <div className="aspect-video bg-black rounded-lg overflow-hidden">
+          <video src={render.videoUrl} controls className="w-full h-full" preload="metadata" />
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {inFlight
+            ? `Joining ${render.sceneCount} scenes into one video...`
+            : render?.status === 'error'
+              ? render.error || 'The preview failed to render'
+              : 'Render the timeline below into a single video to watch the whole cut'}
+        </p>
+      )}
+      {render?.status === 'ready' && (
+        <p className="text-xs text-muted-foreground">
+          {render.sceneCount} scenes{render.crossfadeSeconds > 0 ? `, ${render.crossfadeSeconds}s crossfades` : ''}
+          {render.finishedAt ? ` • rendered ${new Date(render.finishedAt).toLocaleString()}` : ''}. Save timeline changes, then render again to update it.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import type { ConflictStrategy, ImportPlanItem } from '@/hooks/useShotTypes';
+
+const STRATEGY_LABELS: Record<ConflictStrategy, string> = {
+  skip: 'Keep mine (skip duplicates)',
+  overwrite: 'Overwrite mine',
+  rename: 'Import as copies'
+};
+
+const ACTION_VARIANTS: Record<ImportPlanItem['action'], 'default' | 'secondary' | 'outline'> = {
+  create: 'default',
+  update: 'secondary',
+  skip: 'outline'
+};
+
+interface ShotTypeImportPreviewProps {
+  title: string;
+  plan: ImportPlanItem[];
+  strategy: ConflictStrategy;
+  busy: boolean;
+  onStrategyChange: (strategy: ConflictStrategy) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Dry-run result of an import: what each shot type will become, before anything is written
+export function ShotTypeImportPreview({ title, plan, strategy, busy, onStrategyChange, onConfirm, onCancel }: ShotTypeImportPreviewProps) {
+  const writes = plan.filter(item => item.action !== 'skip').length;
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <h4 className="font-medium truncate">{title}</h4>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="import-strategy" className="text-xs text-muted-foreground whitespace-nowrap">Name conflicts</Label>
+            <Select value={strategy} onValueChange={(value) => onStrategyChange(value as ConflictStrategy)} disabled={busy}>
+              <SelectTrigger id="import-strategy" className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STRATEGY_LABELS) as ConflictStrategy[]).map(key => (
+                  <SelectItem key={key} value={key}>{STRATEGY_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-1 max-h-60 overflow-y-auto">
+          {plan.map((item, i) => (
+            <div key={`${item.name}-${i}`} className="flex items-center gap-2 text-sm">
+              <Badge variant={ACTION_VARIANTS[item.action]} className="text-xs w-14 justify-center">{item.action}</Badge>
+              <span className="truncate">{item.name}</span>
+              <Badge variant="outline" className="text-xs font-mono">{item.hotkey}</Badge>
+              <span className="text-xs text-muted-foreground truncate">
+                {[
+                  item.originalName && `renamed from ${item.originalName}`,
+                  item.originalHotkey && `hotkey ${item.originalHotkey} taken`,
+                  item.reason
+                ].filter(Boolean).join(' • ')}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={busy}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={onConfirm} disabled={busy || writes === 0}>
+            {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Import {writes} shot type{writes !== 1 ? 's' : ''}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
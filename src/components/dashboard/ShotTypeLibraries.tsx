@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Download, Loader2, Plus, Trash2, Upload, UserMinus, Users } from 'lucide-react';
+import { useShotTypeLibraries, type ShotTypeLibrary } from '@/hooks/useShotTypeLibraries';
+import type { ConflictStrategy, ImportPlanItem } from '@/hooks/useShotTypes';
+import { ShotTypeImportPreview } from './ShotTypeImportPreview';
+
+interface ShotTypeLibrariesProps {
+  // Called after a library import so the caller can reload its shot types
+  onImported: () => void;
+}
+
+export function ShotTypeLibraries({ onImported }: ShotTypeLibrariesProps) {
+  const {
+    teams,
+    libraries,
+    loading,
+    createTeam,
+    addMember,
+    removeMember,
+    publishLibrary,
+    importLibrary,
+    deleteLibrary
+  } = useShotTypeLibraries();
+  const [teamName, setTeamName] = useState('');
+  const [memberEmails, setMemberEmails] = useState<Record<string, string>>({});
+  const [publishTeamId, setPublishTeamId] = useState<string | null>(null);
+  const [libraryName, setLibraryName] = useState('');
+  const [libraryDescription, setLibraryDescription] = useState('');
+  const [pending, setPending] = useState<{ library: ShotTypeLibrary; strategy: ConflictStrategy; plan: ImportPlanItem[] } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (fn: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await fn();
+      return true;
+    } catch {
+      // Error handling is done in the hook
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreateTeam = async () => {
+    if (!teamName.trim()) return;
+    if (await run(() => createTeam(teamName.trim()))) setTeamName('');
+  };
+
+  const handleAddMember = async (teamId: string) => {
+    const email = memberEmails[teamId]?.trim();
+    if (!email) return;
+    if (await run(() => addMember(teamId, email))) {
+      setMemberEmails(prev => ({ ...prev, [teamId]: '' }));
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!publishTeamId || !libraryName.trim()) return;
+    if (await run(() => publishLibrary(publishTeamId, libraryName.trim(), libraryDescription.trim() || undefined))) {
+      setLibraryName('');
+      setLibraryDescription('');
+    }
+  };
+
+  const previewImport = (library: ShotTypeLibrary, strategy: ConflictStrategy) => run(async () => {
+    const result = await importLibrary(library.id, strategy, true);
+    setPending({ library, strategy, plan: result.plan });
+  });
+
+  const confirmImport = () => run(async () => {
+    if (!pending) return;
+    await importLibrary(pending.library.id, pending.strategy, false);
+    setPending(null);
+    onImported();
+  });
+
+  const handleDeleteLibrary = (library: ShotTypeLibrary) => {
+    if (!confirm(`Delete the library "${library.name}" for everyone in ${library.teamName}?`)) return;
+    run(() => deleteLibrary(library.id));
+  };
+
+  if (loading) {
+    return <div className="h-20 bg-muted animate-pulse rounded-lg" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium">Team Libraries</h3>
+        <div className="flex items-center gap-2">
+          <Input
+            value={teamName}
+            onChange={(e) => setTeamName(e.target.value)}
+            placeholder="New team name"
+            className="h-8 w-44"
+            maxLength={50}
+          />
+          <Button size="sm" variant="outline" onClick={handleCreateTeam} disabled={busy || !teamName.trim()}>
+            <Plus className="w-4 h-4 mr-1" />
+            Team
+          </Button>
+        </div>
+      </div>
+
+      {pending && (
+        <ShotTypeImportPreview
+          title={`Import "${pending.library.name}"`}
+          plan={pending.plan}
+          strategy={pending.strategy}
+          busy={busy}
+          onStrategyChange={(strategy) => previewImport(pending.library, strategy)}
+          onConfirm={confirmImport}
+          onCancel={() => setPending(null)}
+        />
+      )}
+
+      {teams.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Create a team to share your shot types with other editors.
+        </p>
+      ) : (
+        teams.map(team => {
+          const teamLibraries = libraries.filter(library => library.teamId === team.id);
+          return (
+            <Card key={team.id}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Users className="w-4 h-4" />
+                    <h4 className="font-medium">{team.name}</h4>
+                    {team.role === 'owner' && <Badge variant="secondary" className="text-xs">owner</Badge>}
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setPublishTeamId(publishTeamId === team.id ? null : team.id)}
+                    disabled={busy}
+                  >
+                    <Upload className="w-4 h-4 mr-1" />
+                    Publish my shot types
+                  </Button>
+                </div>
+
+                {publishTeamId === team.id && (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={libraryName}
+                      onChange={(e) => setLibraryName(e.target.value)}
+                      placeholder="Library name"
+                      className="h-8"
+                      maxLength={80}
+                    />
+                    <Input
+                      value={libraryDescription}
+                      onChange={(e) => setLibraryDescription(e.target.value)}
+                      placeholder="Description (optional)"
+                      className="h-8"
+                    />
+                    <Button size="sm" onClick={handlePublish} disabled={busy || !libraryName.trim()}>
+                      {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Publish'}
+                    </Button>
+                  </div>
+                )}
+
+                {teamLibraries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No libraries published yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {teamLibraries.map(library => (
+                      <div key={library.id} className="flex items-center justify-between gap-2 text-sm">
+                        <div className="min-w-0">
+                          <div className="font-medium truncate">
+                            {library.name}
+                            <span className="text-muted-foreground font-normal">
+                              {' '}• {library.shotTypes.length} shot type{library.shotTypes.length !== 1 ? 's' : ''}
+                              {library.createdBy && ` • ${library.createdBy}`}
+                            </span>
+                          </div>
+                          {library.description && (
+                            <p className="text-xs text-muted-foreground truncate">{library.description}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <Button size="sm" variant="ghost" onClick={() => previewImport(library, 'skip')} disabled={busy}>
+                            <Download className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleDeleteLibrary(library)}
+                            disabled={busy}
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex flex-wrap items-center gap-1">
+                  {team.members.map(member => (
+                    <Badge key={member.userId} variant="outline" className="text-xs">
+                      {member.email ?? member.userId}
+                      {team.role === 'owner' && member.role !== 'owner' && (
+                        <button
+                          type="button"
+                          className="ml-1 hover:text-destructive"
+                          onClick={() => run(() => removeMember(team.id, member.userId))}
+                          disabled={busy}
+                        >
+                          <UserMinus className="w-3 h-3" />
+                        </button>
+                      )}
+                    </Badge>
+                  ))}
+                </div>
+
+                {team.role === 'owner' && (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="email"
+                      value={memberEmails[team.id] ?? ''}
+                      onChange={(e) => setMemberEmails(prev => ({ ...prev, [team.id]: e.target.value }))}
+                      placeholder="Add member by email"
+                      className="h-8"
+                    />
+                    <Button size="sm" variant="outline" onClick={() => handleAddMember(team.id)} disabled={busy}>
+                      Add
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
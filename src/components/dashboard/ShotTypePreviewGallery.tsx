@@ -0,0 +1,88 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Film, Pin, PinOff } from 'lucide-react';
+import { useShotTypePreviews } from '@/hooks/useShotTypePreviews';
+
+interface ShotTypePreviewGalleryProps {
+  shotTypeId: string;
+}
+
+// Short looping clips of what a shot type has produced, with the pinned example first
+export function ShotTypePreviewGallery({ shotTypeId }: ShotTypePreviewGalleryProps) {
+  const { previews, loading, error, pinPreview } = useShotTypePreviews(shotTypeId);
+
+  const handlePin = async (versionId: string | null) => {
+    try {
+      await pinPreview(versionId);
+    } catch {
+      // Error handling is done in the hook
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <div key={i} className="aspect-video bg-muted animate-pulse rounded" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  if (previews.length === 0) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-muted-foreground py-2">
+        <Film className="w-4 h-4" />
+        <span>No completed renders with this shot type yet</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+      {previews.map(preview => (
+        <div key={preview.versionId} className="relative group rounded overflow-hidden border border-border">
+          {preview.videoUrl ? (
+            <video
+              src={preview.videoUrl}
+              autoPlay
+              muted
+              loop
+              playsInline
+              preload="metadata"
+              className="w-full aspect-video object-cover bg-muted"
+              title={preview.prompt ?? undefined}
+            />
+          ) : (
+            <div className="w-full aspect-video bg-muted" />
+          )}
+          <div className="absolute top-1 left-1 flex items-center gap-1">
+            {preview.pinned && (
+              <Badge className="text-[10px] px-1 py-0">
+                <Pin className="w-3 h-3 mr-0.5" />
+                Pinned
+              </Badge>
+            )}
+          </div>
+          <div className="absolute bottom-1 left-1 text-[10px] text-white bg-black/60 rounded px-1">
+            {preview.folder} • Scene {preview.ordinal ?? '?'} v{preview.version}
+          </div>
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            className="absolute top-1 right-1 h-6 px-1.5 opacity-0 group-hover:opacity-100 transition-opacity"
+            onClick={() => handlePin(preview.pinned ? null : preview.versionId)}
+            title={preview.pinned ? 'Unpin example' : 'Pin as example'}
+          >
+            {preview.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,16 +6,50 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
-import { Plus, Edit2, Trash2, Settings, Keyboard } from 'lucide-react';
-import { useShotTypes, type ShotType } from '@/hooks/useShotTypes';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Edit2, Trash2, Settings, Keyboard, Download, Upload, GripVertical, AlertTriangle, Film } from 'lucide-react';
+import { useShotTypes, type ConflictStrategy, type ImportPlanItem, type ShotType } from '@/hooks/useShotTypes';
+import { LUMA_CAPABILITIES } from '@/lib/luma';
+import type { GenerationParams } from '@/lib/videoProvider';
+import { SCENE_PROMPT_VARIABLES, SYSTEM_PROMPT_VARIABLES } from '@/lib/promptTemplate';
+import { hotkeyProblem } from '@/lib/shotTypeHotkeys';
 import { toast } from 'sonner';
+import { ShotTypeImportPreview } from './ShotTypeImportPreview';
+import { ShotTypeLibraries } from './ShotTypeLibraries';
+import { ShotTypePreviewGallery } from './ShotTypePreviewGallery';
+
+// Select value standing in for "not set" (Radix Select disallows empty values)
+const PROVIDER_DEFAULT = 'default';
+
+type SelectableParam = 'resolution' | 'aspect_ratio' | 'duration';
+
+const PARAM_OPTIONS: { key: SelectableParam; label: string; options: string[] }[] = [
+  { key: 'aspect_ratio', label: 'Aspect Ratio', options: LUMA_CAPABILITIES.aspectRatios },
+  { key: 'duration', label: 'Duration', options: LUMA_CAPABILITIES.durations },
+  { key: 'resolution', label: 'Resolution', options: LUMA_CAPABILITIES.resolutions },
+];
+
+function formatConcept(concept: string) {
+  return concept.replace(/_/g, ' ');
+}
 
 interface ShotTypesManagerProps {
   trigger?: React.ReactNode;
 }
 
 export function ShotTypesManager({ trigger }: ShotTypesManagerProps) {
-  const { shotTypes, loading, createShotType, updateShotType, deleteShotType } = useShotTypes();
+  const {
+    shotTypes,
+    loading,
+    refetch,
+    createShotType,
+    updateShotType,
+    deleteShotType,
+    reorderShotTypes,
+    exportShotTypes,
+    importShotTypes
+  } = useShotTypes();
   const [isOpen, setIsOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
@@ -23,15 +57,29 @@ export function ShotTypesManager({ trigger }: ShotTypesManagerProps) {
     name: '',
     prompt_template: '',
     hotkey: '',
-    sort_order: 0
+    sort_order: 0,
+    generation_params: {} as GenerationParams
   });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // A parsed import file waiting for confirmation, with its dry-run plan
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    document: unknown;
+    strategy: ConflictStrategy;
+    plan: ImportPlanItem[];
+  } | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dragOverId, setDragOverId] = useState<string | null>(null);
+  const [galleryId, setGalleryId] = useState<string | null>(null);
 
   const resetForm = () => {
     setFormData({
       name: '',
       prompt_template: '',
       hotkey: '',
-      sort_order: 0
+      sort_order: 0,
+      generation_params: {}
     });
     setEditingId(null);
     setIsCreating(false);
@@ -42,7 +90,8 @@ export function ShotTypesManager({ trigger }: ShotTypesManagerProps) {
       name: shotType.name,
       prompt_template: shotType.prompt_template,
       hotkey: shotType.hotkey,
-      sort_order: shotType.sort_order
+      sort_order: shotType.sort_order,
+      generation_params: shotType.generation_params || {}
     });
     setEditingId(shotType.id);
     setIsCreating(false);
@@ -57,6 +106,38 @@ export function ShotTypesManager({ trigger }: ShotTypesManagerProps) {
     setFormData(prev => ({ ...prev, sort_order: maxSort + 1 }));
   };
 
+  const setParam = <K extends keyof GenerationParams>(key: K, value: GenerationParams[K] | undefined) => {
+    setFormData(prev => {
+      const generation_params = { ...prev.generation_params };
+      if (value === undefined) {
+        delete generation_params[key];
+      } else {
+        generation_params[key] = value;
+      }
+      return { ...prev, generation_params };
+    });
+  };
+
+  const toggleConcept = (concept: string) => {
+    const current = formData.generation_params.concepts || [];
+    const next = current.includes(concept)
+      ? current.filter(c => c !== concept)
+      : [...current, concept];
+    setParam('concepts', next.length > 0 ? next : undefined);
+  };
+
+  const formHotkeyProblem = hotkeyProblem(formData.hotkey, editingId, shotTypes);
+
+  const handleDrop = (targetId: string) => {
+    if (!draggingId || draggingId === targetId) return;
+
+    // The dragged shot type takes the target's place
+    const ids = shotTypes.map(st => st.id);
+    ids.splice(ids.indexOf(draggingId), 1);
+    ids.splice(shotTypes.findIndex(st => st.id === targetId), 0, draggingId);
+    reorderShotTypes(ids);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -65,6 +146,11 @@ export function ShotTypesManager({ trigger }: ShotTypesManagerProps) {
       return;
     }
 
+    if (formHotkeyProblem) {
+      toast.error(`Hotkey ${formData.hotkey.trim()}: ${formHotkeyProblem}`);
+      return;
+    }
+
     try {
       if (isCreating) {
         await createShotType(formData);
@@ -89,6 +175,48 @@ export function ShotTypesManager({ trigger }: ShotTypesManagerProps) {
     }
   };
 
+  const previewImport = async (fileName: string, document: unknown, strategy: ConflictStrategy) => {
+    setImporting(true);
+    try {
+      const result = await importShotTypes(document, strategy, true);
+      setPendingImport({ fileName, document, strategy, plan: result.plan });
+    } catch (error) {
+      // Error handling is done in the hook
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let document: unknown;
+    try {
+      document = JSON.parse(await file.text());
+    } catch {
+      toast.error(`${file.name} is not valid JSON`);
+      return;
+    }
+
+    await previewImport(file.name, document, 'skip');
+  };
+
+  const confirmImport = async () => {
+    if (!pendingImport) return;
+
+    setImporting(true);
+    try {
+      await importShotTypes(pendingImport.document, pendingImport.strategy, false);
+      setPendingImport(null);
+    } catch (error) {
+      // Error handling is done in the hook
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const defaultTrigger = (
     <Button variant="outline" size="sm">
       <Settings className="w-4 h-4 mr-2" />
@@ -115,7 +243,7 @@ export function ShotTypesManager({ trigger }: ShotTypesManagerProps) {
             <Card>
               <CardContent className="pt-6">
                 <form onSubmit={handleSubmit} className="space-y-4">
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
                       <Label htmlFor="name">Name *</Label>
                       <Input
@@ -135,16 +263,9 @@ export function ShotTypesManager({ trigger }: ShotTypesManagerProps) {
                         placeholder="e.g., 1 or Ctrl+1"
                         maxLength={3}
                       />
-                    </div>
-                    <div>
-                      <Label htmlFor="sort_order">Sort Order</Label>
-                      <Input
-                        id="sort_order"
-                        type="number"
-                        value={formData.sort_order}
-                        onChange={(e) => setFormData(prev => ({ ...prev, sort_order: parseInt(e.target.value) || 0 }))}
-                        min={0}
-                      />
+                      {formHotkeyProblem && (
+                        <p className="text-xs text-destructive mt-1">{formHotkeyProblem}</p>
+                      )}
                     </div>
                   </div>
                   
@@ -158,6 +279,60 @@ export function ShotTypesManager({ trigger }: ShotTypesManagerProps) {
                       rows={3}
                       className="resize-none"
                     />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Variables: {[...SYSTEM_PROMPT_VARIABLES, ...SCENE_PROMPT_VARIABLES].map(name => `{{${name}}}`).join(', ')}
+                    </p>
+                  </div>
+
+                  <div className="space-y-3">
+                    <Label>Generation Settings</Label>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                      {PARAM_OPTIONS.map(({ key, label, options }) => (
+                        <div key={key}>
+                          <Label htmlFor={key} className="text-xs text-muted-foreground">{label}</Label>
+                          <Select
+                            value={formData.generation_params[key] || PROVIDER_DEFAULT}
+                            onValueChange={(value) => setParam(key, value === PROVIDER_DEFAULT ? undefined : value)}
+                          >
+                            <SelectTrigger id={key}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={PROVIDER_DEFAULT}>Default</SelectItem>
+                              {options.map(option => (
+                                <SelectItem key={option} value={option}>{option}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                      <div className="flex items-end space-x-2 pb-2">
+                        <Switch
+                          id="loop"
+                          checked={formData.generation_params.loop ?? false}
+                          onCheckedChange={(checked) => setParam('loop', checked || undefined)}
+                        />
+                        <Label htmlFor="loop">Loop</Label>
+                      </div>
+                    </div>
+                    <div>
+                      <Label className="text-xs text-muted-foreground">Camera Concepts</Label>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {LUMA_CAPABILITIES.cameraConcepts.map(concept => {
+                          const selected = formData.generation_params.concepts?.includes(concept);
+                          return (
+                            <Badge
+                              key={concept}
+                              variant={selected ? 'default' : 'outline'}
+                              className="cursor-pointer text-xs"
+                              onClick={() => toggleConcept(concept)}
+                            >
+                              {formatConcept(concept)}
+                            </Badge>
+                          );
+                        })}
+                      </div>
+                    </div>
                   </div>
 
                   <div className="flex justify-end space-x-2">
@@ -173,12 +348,42 @@ export function ShotTypesManager({ trigger }: ShotTypesManagerProps) {
             </Card>
           )}
 
-          {/* Add New Button */}
+          {/* Import Preview */}
+          {pendingImport && (
+            <ShotTypeImportPreview
+              title={`Import ${pendingImport.fileName}`}
+              plan={pendingImport.plan}
+              strategy={pendingImport.strategy}
+              busy={importing}
+              onStrategyChange={(strategy) => previewImport(pendingImport.fileName, pendingImport.document, strategy)}
+              onConfirm={confirmImport}
+              onCancel={() => setPendingImport(null)}
+            />
+          )}
+
+          {/* Add New / Import / Export */}
           {!isCreating && !editingId && (
-            <Button onClick={handleCreate} className="w-full">
-              <Plus className="w-4 h-4 mr-2" />
-              Add New Shot Type
-            </Button>
+            <div className="flex space-x-2">
+              <Button onClick={handleCreate} className="flex-1">
+                <Plus className="w-4 h-4 mr-2" />
+                Add New Shot Type
+              </Button>
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import
+              </Button>
+              <Button variant="outline" onClick={exportShotTypes} disabled={shotTypes.length === 0}>
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImportFile}
+              />
+            </div>
           )}
 
           {/* Shot Types List */}
@@ -206,45 +411,103 @@ export function ShotTypesManager({ trigger }: ShotTypesManagerProps) {
               </div>
             ) : (
               <div className="space-y-3">
-                {shotTypes.map((shotType) => (
-                  <Card key={shotType.id}>
-                    <CardContent className="p-4">
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center space-x-2 mb-2">
-                            <h4 className="font-medium truncate">{shotType.name}</h4>
-                            <Badge variant="secondary" className="text-xs">
-                              <Keyboard className="w-3 h-3 mr-1" />
-                              {shotType.hotkey}
-                            </Badge>
+                {shotTypes.map((shotType) => {
+                  const canDrag = !isCreating && !editingId && shotTypes.length > 1;
+                  const problem = hotkeyProblem(shotType.hotkey, shotType.id, shotTypes);
+                  return (
+                    <Card
+                      key={shotType.id}
+                      draggable={canDrag}
+                      onDragStart={() => setDraggingId(shotType.id)}
+                      onDragOver={(e) => {
+                        if (!draggingId) return;
+                        e.preventDefault();
+                        setDragOverId(shotType.id);
+                      }}
+                      onDragLeave={() => setDragOverId(prev => prev === shotType.id ? null : prev)}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        handleDrop(shotType.id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggingId(null);
+                        setDragOverId(null);
+                      }}
+                      className={`${draggingId === shotType.id ? 'opacity-50' : ''} ${dragOverId === shotType.id && draggingId !== shotType.id ? 'border-primary' : ''}`}
+                    >
+                      <CardContent className="p-4">
+                        <div className="flex items-start justify-between">
+                          {canDrag && (
+                            <GripVertical className="w-4 h-4 mr-2 mt-1 text-muted-foreground cursor-grab flex-shrink-0" />
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center space-x-2 mb-2">
+                              <h4 className="font-medium truncate">{shotType.name}</h4>
+                              <Badge variant={problem ? 'destructive' : 'secondary'} className="text-xs" title={problem ?? undefined}>
+                                {problem ? <AlertTriangle className="w-3 h-3 mr-1" /> : <Keyboard className="w-3 h-3 mr-1" />}
+                                {shotType.hotkey}
+                              </Badge>
+                            </div>
+                            <p className="text-sm text-muted-foreground line-clamp-2">
+                              {shotType.prompt_template}
+                            </p>
+                            {shotType.generation_params && Object.keys(shotType.generation_params).length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-2">
+                                {shotType.generation_params.aspect_ratio && (
+                                  <Badge variant="outline" className="text-xs">{shotType.generation_params.aspect_ratio}</Badge>
+                                )}
+                                {shotType.generation_params.duration && (
+                                  <Badge variant="outline" className="text-xs">{shotType.generation_params.duration}</Badge>
+                                )}
+                                {shotType.generation_params.resolution && (
+                                  <Badge variant="outline" className="text-xs">{shotType.generation_params.resolution}</Badge>
+                                )}
+                                {shotType.generation_params.loop && (
+                                  <Badge variant="outline" className="text-xs">loop</Badge>
+                                )}
+                                {shotType.generation_params.concepts?.map(concept => (
+                                  <Badge key={concept} variant="outline" className="text-xs">{formatConcept(concept)}</Badge>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-2 ml-4">
+                            <Button
+                              variant={galleryId === shotType.id ? 'secondary' : 'ghost'}
+                              size="sm"
+                              onClick={() => setGalleryId(prev => prev === shotType.id ? null : shotType.id)}
+                              title="Show past renders"
+                            >
+                              <Film className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEdit(shotType)}
+                              disabled={isCreating || editingId !== null}
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(shotType.id)}
+                              disabled={isCreating || editingId !== null}
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
                           </div>
-                          <p className="text-sm text-muted-foreground line-clamp-2">
-                            {shotType.prompt_template}
-                          </p>
-                        </div>
-                        <div className="flex items-center space-x-2 ml-4">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleEdit(shotType)}
-                            disabled={isCreating || editingId !== null}
-                          >
-                            <Edit2 className="w-4 h-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDelete(shotType.id)}
-                            disabled={isCreating || editingId !== null}
-                            className="text-destructive hover:text-destructive"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
                         </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
+                        {galleryId === shotType.id && (
+                          <div className="mt-3">
+                            <ShotTypePreviewGallery shotTypeId={shotType.id} />
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  );
+                })}
               </div>
             )}
           </div>
@@ -269,6 +532,8 @@ export function ShotTypesManager({ trigger }: ShotTypesManagerProps) {
               </CardContent>
             </Card>
           )}
+
+          <ShotTypeLibraries onImported={refetch} />
         </div>
       </DialogContent>
     </Dialog>
@@ -1,12 +1,17 @@
 import { useState, useEffect } from "react";
 import { useSearchParams } from "react-router-dom";
+import { useHotkeys } from "react-hotkeys-hook";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { Video, RotateCcw, Trash2, Download, Play, History } from "lucide-react";
+import { useSceneVersions } from "@/hooks/useSceneVersions";
+import { SceneVersionsPanel } from "./SceneVersionsPanel";
+import { SceneTimeline, type TimelineScene } from "./SceneTimeline";
+import { SequencePreview } from "./SequencePreview";
+import { Video, RotateCcw, Trash2, Download, Play, History, FastForward, Link2, Ban, Copy, ListOrdered } from "lucide-react";
 
 interface StorageScene {
   key: string;
@@ -20,12 +25,26 @@ interface Scene {
   folder: string;
   start_key: string;
   end_key: string;
-  shot_type: number;
+  shot_type_id: string | null;
+  // Snapshot taken when the scene was rendered; kept after the shot type is deleted
+  shot_type_name: string | null;
   status: string;
+  version: number;
+  active_version: number | null;
+  // Position in the project's timeline; excluded scenes are numbered after the included ones
+  ordinal: number | null;
+  excluded_from_timeline: boolean;
+  parent_scene_id: string | null;
+  attempts: number;
+  prompt: string | null;
+  next_retry_at: string | null;
   created_at: string;
   start_frame_signed_url?: string;
   end_frame_signed_url?: string;
   signed_url_expires_at?: string;
+  // Active version's poster frame and animated preview, signed for the grid
+  poster_signed_url?: string | null;
+  preview_signed_url?: string | null;
   generations: SceneGeneration[];
 }
 
@@ -34,7 +53,8 @@ interface SceneGeneration {
   scene_id: string;
   start_frame_url: string;
   end_frame_url: string | null;
-  shot_type: number;
+  shot_type_id: string | null;
+  shot_type_name: string | null;
   status: string;
   progress_pct: number | null;
   video_url: string | null;
@@ -54,7 +74,7 @@ interface VideoSectionProps {
     generationId: string;
     startFrameUrl: string;
     endFrameUrl?: string;
-    shotType: number;
+    shotTypeId: string | null;
     status: 'processing' | 'ready' | 'error';
     videoUrl?: string;
     createdAt: Date;
@@ -73,9 +93,30 @@ export function VideoSection({
   const [searchParams, setSearchParams] = useSearchParams();
   const [dbScenes, setDbScenes] = useState<Scene[]>([]);
   const [loading, setLoading] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  // Only the hovered card loads its animated preview
+  const [hoveredSceneId, setHoveredSceneId] = useState<string | null>(null);
+  const [savingTimeline, setSavingTimeline] = useState(false);
+  // Scene id -> 1-based position among the user's queued generation jobs
+  const [queuePositions, setQueuePositions] = useState<Record<string, number>>({});
   const [selectedSceneId, setSelectedSceneId] = useState<string | null>(
     searchParams.get('sceneId') || null
   );
+  const selectedDbScene = dbScenes.find(s => s.id === selectedSceneId) || null;
+  const {
+    versions,
+    activeVersion,
+    refetch: refetchVersions,
+    pinVersion
+  } = useSceneVersions(selectedDbScene?.id ?? null);
+
+  // Re-list versions when a render finishes or the pin changes elsewhere
+  const selectedRenderState = selectedDbScene
+    ? `${selectedDbScene.status}:${selectedDbScene.version}:${selectedDbScene.active_version}`
+    : null;
+  useEffect(() => {
+    if (selectedRenderState) refetchVersions();
+  }, [selectedRenderState, refetchVersions]);
 
   useEffect(() => {
     if (folder) {
@@ -111,6 +152,18 @@ export function VideoSection({
               loadDbScenes();
             }
           )
+          .on(
+            'postgres_changes',
+            {
+              event: '*',
+              schema: 'public',
+              table: 'generation_jobs',
+              filter: `user_id=eq.${user.id}`
+            },
+            () => {
+              loadDbScenes();
+            }
+          )
           .subscribe();
 
         return channel;
@@ -141,6 +194,7 @@ export function VideoSection({
           *
         `)
         .eq("user_id", user.id)
+        .eq("folder", folder)
         .is("deleted_at", null)
         .order("created_at", { ascending: true });
 
@@ -162,10 +216,43 @@ export function VideoSection({
         console.error("Error loading scene generations:", generationsError);
       }
 
-      const scenesWithGenerations = scenesData?.map(scene => ({
-        ...scene,
-        generations: (generationsData || []).filter(g => g.scene_id === scene.id)
-      })) || [];
+      const { data: queuedJobs } = await supabase
+        .from("generation_jobs")
+        .select("scene_id")
+        .eq("user_id", user.id)
+        .eq("status", "queued")
+        .order("enqueued_at", { ascending: true });
+
+      setQueuePositions(Object.fromEntries((queuedJobs || []).map((job, index) => [job.scene_id, index + 1])));
+
+      // Cards show the active version's poster and preview instead of loading every video
+      const { data: versionsData } = await supabase
+        .from("scene_versions")
+        .select("scene_id, version, poster_url, preview_url")
+        .in("scene_id", sceneIds);
+
+      const activeThumbnails = (versionsData || []).filter(v => {
+        const scene = scenesData?.find(s => s.id === v.scene_id);
+        return scene && v.version === (scene.active_version ?? scene.version);
+      });
+      const thumbnailKeys = activeThumbnails.flatMap(v => [v.poster_url, v.preview_url].filter((key): key is string => !!key));
+      const signedThumbnails = new Map<string, string>();
+      if (thumbnailKeys.length > 0) {
+        const { data: signed } = await supabase.storage.from("media").createSignedUrls(thumbnailKeys, 3600);
+        (signed || []).forEach(item => {
+          if (item.path && item.signedUrl) signedThumbnails.set(item.path, item.signedUrl);
+        });
+      }
+
+      const scenesWithGenerations = scenesData?.map(scene => {
+        const thumbnails = activeThumbnails.find(v => v.scene_id === scene.id);
+        return {
+          ...scene,
+          poster_signed_url: thumbnails?.poster_url ? signedThumbnails.get(thumbnails.poster_url) : null,
+          preview_signed_url: thumbnails?.preview_url ? signedThumbnails.get(thumbnails.preview_url) : null,
+          generations: (generationsData || []).filter(g => g.scene_id === scene.id)
+        };
+      }) || [];
 
       setDbScenes(scenesWithGenerations);
       
@@ -197,11 +284,16 @@ export function VideoSection({
         return "bg-status-ready";
       case "error":
         return "bg-status-error";
+      case "cancelled":
+        return "bg-status-cancelled";
       default:
         return "bg-muted";
     }
   };
 
+  // Statuses a generation can still be stopped from
+  const isInFlight = (status: string) => ["queued", "processing", "rendering"].includes(status);
+
   const getLatestGeneration = (scene: Scene) => {
     if (scene.generations.length === 0) return null;
     return scene.generations[0]; // Already sorted by created_at desc
@@ -230,38 +322,143 @@ export function VideoSection({
         throw new Error("Please sign in to regenerate scenes");
       }
 
-      const latestGeneration = getLatestGeneration(scene);
-      const requestBody = {
-        generationId: crypto.randomUUID(),
-        sceneId: scene.id,
-        startFrameUrl: latestGeneration?.start_frame_url || scene.start_frame_signed_url || scene.start_key,
-        endFrameUrl: latestGeneration?.end_frame_url || scene.end_frame_signed_url || scene.end_key,
-        shotType: scene.shot_type
-      };
-
-      const response = await supabase.functions.invoke("create-scene", {
-        body: requestBody
+      const response = await supabase.functions.invoke("luma-regenerate-scene", {
+        body: { scene_id: scene.id }
       });
 
       if (response.error) {
         throw response.error;
       }
 
-      toast.success("Scene regeneration started!");
+      if (!response.data?.ok) {
+        throw new Error(response.data?.error?.message || "Failed to regenerate scene");
+      }
+
+      if (response.data.data.status === "queued") {
+        toast.success("Scene regeneration queued", {
+          description: `Version ${response.data.data.version} starts when a generation slot frees up`
+        });
+      } else {
+        toast.success("Scene regeneration started!", {
+          description: `Rendering version ${response.data.data.version}`
+        });
+      }
     } catch (error: any) {
       console.error("Error regenerating scene:", error);
       toast.error(error.message || "Failed to regenerate scene");
     }
   };
 
-  const handleRevertToGeneration = async (sceneId: string, generationId: string) => {
+  const handleExtendScene = async (sceneId: string) => {
     try {
-      // TODO: Switch to previous generation - this could involve updating UI state only
-      // For now, just show a success message
-      toast.success("Reverted to previous generation");
+      if (!selectedShotTypeId) {
+        toast.error("Select a shot type for the new scene first");
+        return;
+      }
+
+      const response = await supabase.functions.invoke("luma-create-scene", {
+        body: { parent_scene_id: sceneId, shot_type_id: selectedShotTypeId }
+      });
+
+      if (response.error) {
+        throw response.error;
+      }
+
+      if (!response.data?.ok) {
+        throw new Error(response.data?.error?.message || "Failed to extend scene");
+      }
+
+      toast.success(response.data.data.status === "queued" ? "Scene extension queued" : "Scene extension started!", {
+        description: "The new scene starts from this scene's final frame"
+      });
+      handleSceneSelect(response.data.data.sceneId);
+    } catch (error: unknown) {
+      console.error("Error extending scene:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to extend scene");
+    }
+  };
+
+  const handleCancelScene = async (sceneId: string) => {
+    try {
+      const response = await supabase.functions.invoke("luma-cancel-scene", {
+        body: { scene_id: sceneId }
+      });
+
+      if (response.error) {
+        throw response.error;
+      }
+
+      if (!response.data?.ok) {
+        throw new Error(response.data?.error?.message || "Failed to cancel scene");
+      }
+
+      toast.success("Scene generation cancelled");
+      loadDbScenes();
+    } catch (error: unknown) {
+      console.error("Error cancelling scene:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to cancel scene");
+    }
+  };
+
+  useHotkeys('r', () => {
+    if (selectedSceneId) handleRegenerateScene(selectedSceneId);
+  }, { enabled: !!selectedSceneId }, [selectedSceneId, dbScenes]);
+
+  const handlePinVersion = async (version: number) => {
+    try {
+      await pinVersion(version);
     } catch (error) {
-      console.error("Error reverting generation:", error);
-      toast.error("Failed to revert generation");
+      // Error handling is done in the hook
+    }
+  };
+
+  // Newest rendered version older than the active one
+  const previousVersion = versions.find(v => v.videoUrl && activeVersion !== null && v.version < activeVersion);
+  const activeVideoUrl = versions.find(v => v.version === activeVersion)?.videoUrl;
+  const activePosterUrl = versions.find(v => v.version === activeVersion)?.posterUrl;
+  // Prompt behind the version on screen; falls back to the scene's current render
+  const activePrompt = (versions.find(v => v.version === activeVersion)?.renderMeta?.prompt as string | undefined)
+    || selectedDbScene?.prompt;
+
+  const handleSaveTimeline = async (ids: string[], excluded: string[]) => {
+    setSavingTimeline(true);
+    try {
+      const response = await supabase.functions.invoke("scene-timeline", {
+        method: "PUT",
+        body: { folder, ids, excluded }
+      });
+
+      if (response.error) {
+        throw response.error;
+      }
+
+      if (!response.data?.ok) {
+        throw new Error(response.data?.error?.message || "Failed to save timeline");
+      }
+
+      const { failedRenames } = response.data.data;
+      if (failedRenames > 0) {
+        toast.warning("Timeline saved, but some files kept their old names", {
+          description: `${failedRenames} files could not be renamed. Save again to retry`
+        });
+      } else {
+        toast.success("Timeline saved");
+      }
+      await loadDbScenes();
+    } catch (error: unknown) {
+      console.error("Error saving timeline:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save timeline");
+    } finally {
+      setSavingTimeline(false);
+    }
+  };
+
+  const handleCopyPrompt = async (prompt: string) => {
+    try {
+      await navigator.clipboard.writeText(prompt);
+      toast.success("Prompt copied");
+    } catch {
+      toast.error("Failed to copy prompt");
     }
   };
 
@@ -294,13 +491,14 @@ export function VideoSection({
 
   const handleRestoreScene = async (sceneId: string) => {
     try {
-      const { error } = await supabase
-        .from("scenes")
-        .update({ deleted_at: null })
-        .eq("id", sceneId);
+      // Goes through scene-timeline, which renumbers the scene if its ordinal was taken meanwhile
+      const response = await supabase.functions.invoke("scene-timeline/restore", {
+        method: "POST",
+        body: { scene_id: sceneId }
+      });
 
-      if (error) {
-        console.error("Error restoring scene:", error);
+      if (response.error || !response.data?.ok) {
+        console.error("Error restoring scene:", response.error || response.data?.error);
         toast.error("Failed to restore scene");
         return;
       }
@@ -322,9 +520,12 @@ export function VideoSection({
       id: scene.sceneId,
       startFrameUrl: scene.startFrameUrl,
       endFrameUrl: scene.endFrameUrl,
-      shotType: scene.shotType,
+      shotTypeId: scene.shotTypeId,
+      shotTypeName: null as string | null,
       status: scene.status,
       videoUrl: scene.videoUrl,
+      posterUrl: null as string | null,
+      previewUrl: null as string | null,
       type: 'session' as const,
       createdAt: scene.createdAt,
       generations: []
@@ -336,18 +537,45 @@ export function VideoSection({
         id: scene.id,
         startFrameUrl: latestGeneration?.start_frame_url || scene.start_frame_signed_url || scene.start_key,
         endFrameUrl: latestGeneration?.end_frame_url || scene.end_frame_signed_url || scene.end_key,
-        shotType: scene.shot_type,
+        shotTypeId: scene.shot_type_id,
+        shotTypeName: scene.shot_type_name,
         status: latestGeneration?.status || scene.status,
         videoUrl: latestGeneration?.video_url,
+        posterUrl: scene.poster_signed_url ?? null,
+        previewUrl: scene.preview_signed_url ?? null,
         type: 'database' as const,
+        version: scene.version,
+        ordinal: scene.ordinal,
+        excluded: scene.excluded_from_timeline,
+        parentSceneId: scene.parent_scene_id,
         generations: scene.generations,
         createdAt: new Date(scene.created_at)
       };
     })
-  ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
-    .map((scene, index) => ({ ...scene, sceneNumber: index + 1 }));
+  ]
+    // Timeline order: numbered scenes by ordinal, then anything not yet numbered by creation time
+    .sort((a, b) =>
+      ((a.type === 'database' ? a.ordinal : null) ?? Infinity) - ((b.type === 'database' ? b.ordinal : null) ?? Infinity)
+      || a.createdAt.getTime() - b.createdAt.getTime())
+    .map((scene, index) => ({ ...scene, sceneNumber: (scene.type === 'database' ? scene.ordinal : null) ?? index + 1 }));
+
+  const timelineScenes: TimelineScene[] = allScenes.flatMap(scene => scene.type === 'database' ? [{
+    id: scene.id,
+    ordinal: scene.ordinal,
+    excluded: scene.excluded,
+    status: scene.status,
+    shotTypeName: scene.shotTypeName,
+    thumbnailUrl: scene.startFrameUrl || null
+  }] : []);
 
   const selectedScene = selectedSceneId ? allScenes.find(s => s.id === selectedSceneId) : null;
+  const sceneNumberById = new Map(allScenes.map(s => [s.id, s.sceneNumber]));
+  const parentScene = selectedDbScene?.parent_scene_id
+    ? allScenes.find(s => s.id === selectedDbScene.parent_scene_id)
+    : null;
+  const childScenes = selectedDbScene
+    ? dbScenes.filter(s => s.parent_scene_id === selectedDbScene.id)
+    : [];
 
   if (!folder) {
     return (
@@ -372,18 +600,39 @@ export function VideoSection({
               <Video className="w-5 h-5" />
               <span>Video Scenes</span>
             </CardTitle>
-            <Button
-              variant="outline"
-              size="sm"
-              className="hidden md:inline-flex"
-            >
-              <Download className="w-4 h-4 mr-2" />
-              Export All
-            </Button>
+            <div className="flex items-center space-x-2">
+              <Button
+                variant={showTimeline ? "secondary" : "outline"}
+                size="sm"
+                onClick={() => setShowTimeline(prev => !prev)}
+              >
+                <ListOrdered className="w-4 h-4 mr-2" />
+                Timeline
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="hidden md:inline-flex"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export All
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
-          {loading ? (
+          {showTimeline ? (
+            <div className="space-y-4">
+              <SequencePreview folder={folder} getStatusColor={getStatusColor} />
+              <SceneTimeline
+                // A saved or outside change to the order starts a fresh draft; status updates don't
+                key={timelineScenes.map(s => `${s.id}:${s.ordinal}:${s.excluded}`).join(",")}
+                scenes={timelineScenes}
+                saving={savingTimeline}
+                onSave={handleSaveTimeline}
+              />
+            </div>
+          ) : loading ? (
             <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
               {Array.from({ length: 6 }).map((_, i) => (
                 <Skeleton key={i} className="aspect-square w-full" />
@@ -395,6 +644,8 @@ export function VideoSection({
                 <div
                   key={scene.id}
                   onClick={() => handleSceneSelect(scene.id)}
+                  onMouseEnter={() => setHoveredSceneId(scene.id)}
+                  onMouseLeave={() => setHoveredSceneId(prev => prev === scene.id ? null : prev)}
                   className={`relative aspect-square rounded-lg overflow-hidden bg-background border cursor-pointer transition-all hover:scale-[1.02] hover:shadow-lg ${
                     selectedSceneId === scene.id 
                       ? 'ring-2 ring-primary border-primary' 
@@ -409,16 +660,47 @@ export function VideoSection({
                   {/* Status Indicator */}
                   <div className="absolute top-2 right-2 z-10">
                     <Badge variant="secondary" className={`text-xs ${getStatusColor(scene.status)}`}>
-                      {scene.status}
+                      {scene.status}{scene.status === "queued" && queuePositions[scene.id] ? ` #${queuePositions[scene.id]}` : ""}
                     </Badge>
                   </div>
 
-                  {/* Thumbnail */}
-                  {scene.startFrameUrl ? (
+                  {/* Extension link */}
+                  {scene.type === 'database' && scene.parentSceneId && sceneNumberById.has(scene.parentSceneId) && (
+                    <Badge variant="secondary" className="absolute bottom-2 left-2 z-10 text-xs">
+                      <Link2 className="w-3 h-3 mr-1" />
+                      Scene {sceneNumberById.get(scene.parentSceneId)}
+                    </Badge>
+                  )}
+
+                  {/* Cancel in-flight generation */}
+                  {scene.type === 'database' && isInFlight(scene.status) && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      className="absolute bottom-2 right-2 z-10 h-6 px-2 text-xs"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleCancelScene(scene.id);
+                      }}
+                    >
+                      <Ban className="w-3 h-3 mr-1" />
+                      Cancel
+                    </Button>
+                  )}
+
+                  {/* Thumbnail: the render's poster, animated on hover; the start frame until it has one */}
+                  {hoveredSceneId === scene.id && scene.previewUrl ? (
+                    <img
+                      src={scene.previewUrl}
+                      alt={`Scene ${scene.sceneNumber} preview`}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : scene.posterUrl || scene.startFrameUrl ? (
                     <img 
-                      src={scene.startFrameUrl} 
+                      src={scene.posterUrl || scene.startFrameUrl} 
                       alt={`Scene ${scene.sceneNumber} preview`}
                       className="w-full h-full object-cover"
+                      loading="lazy"
                     />
                   ) : (
                     <div className="w-full h-full bg-muted flex items-center justify-center">
@@ -459,9 +741,17 @@ export function VideoSection({
                     <Badge className={getStatusColor(selectedScene.status)}>
                       {selectedScene.status}
                     </Badge>
-                    {selectedScene.type === 'database' && selectedScene.generations && (
+                    {selectedScene.type === 'database' && (
                       <span className="text-sm text-muted-foreground">
-                        v{selectedScene.generations.length || 1}
+                        v{activeVersion ?? selectedScene.version ?? 1}
+                      </span>
+                    )}
+                    {selectedScene.shotTypeName && (
+                      <Badge variant="outline">{selectedScene.shotTypeName}</Badge>
+                    )}
+                    {selectedDbScene?.next_retry_at && isInFlight(selectedScene.status) && (
+                      <span className="text-sm text-orange-500" title={`Next try ${new Date(selectedDbScene.next_retry_at).toLocaleTimeString()}`}>
+                        Retrying after provider error (attempt {selectedDbScene.attempts + 1})
                       </span>
                     )}
                   </div>
@@ -477,28 +767,74 @@ export function VideoSection({
                     <RotateCcw className="w-4 h-4 mr-2" />
                     Regenerate
                   </Button>
-                  {selectedScene.type === 'database' && selectedScene.generations && selectedScene.generations.length > 1 && (
+                  {selectedScene.type === 'database' && isInFlight(selectedScene.status) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleCancelScene(selectedScene.id)}
+                    >
+                      <Ban className="w-4 h-4 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
+                  {selectedScene.type === 'database' && (
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => handleRevertToGeneration(selectedScene.id, selectedScene.generations[selectedScene.generations.length - 2]?.generation_id)}
+                      onClick={() => handleExtendScene(selectedScene.id)}
+                      disabled={selectedScene.status !== "ready"}
+                    >
+                      <FastForward className="w-4 h-4 mr-2" />
+                      Extend
+                    </Button>
+                  )}
+                  {selectedScene.type === 'database' && previousVersion && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handlePinVersion(previousVersion.version)}
                     >
                       <History className="w-4 h-4 mr-2" />
-                      Back to Old Version
+                      Back to v{previousVersion.version}
                     </Button>
                   )}
                 </div>
               </div>
 
+              {/* Extension chain */}
+              {(parentScene || childScenes.length > 0) && (
+                <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                  <Link2 className="w-4 h-4" />
+                  {parentScene && (
+                    <>
+                      <span>Continues</span>
+                      <Button variant="link" size="sm" className="h-auto p-0" onClick={() => handleSceneSelect(parentScene.id)}>
+                        Scene {parentScene.sceneNumber}
+                      </Button>
+                    </>
+                  )}
+                  {childScenes.length > 0 && (
+                    <>
+                      <span>Continued by</span>
+                      {childScenes.map(child => (
+                        <Button key={child.id} variant="link" size="sm" className="h-auto p-0" onClick={() => handleSceneSelect(child.id)}>
+                          Scene {sceneNumberById.get(child.id)}
+                        </Button>
+                      ))}
+                    </>
+                  )}
+                </div>
+              )}
+
               {/* Video Player or Placeholder */}
-              {selectedScene.videoUrl ? (
+              {(selectedScene.type === 'database' && activeVideoUrl) || selectedScene.videoUrl ? (
                 <div className="aspect-video bg-black rounded-lg overflow-hidden">
                   <video
-                    src={selectedScene.videoUrl}
+                    src={(selectedScene.type === 'database' && activeVideoUrl) || selectedScene.videoUrl}
                     controls
                     className="w-full h-full"
                     preload="metadata"
-                    poster={selectedScene.startFrameUrl}
+                    poster={(selectedScene.type === 'database' && activePosterUrl) || selectedScene.startFrameUrl}
                   />
                 </div>
               ) : (
@@ -506,37 +842,47 @@ export function VideoSection({
                   <div className="text-center">
                     <Play className="w-12 h-12 mx-auto text-muted-foreground mb-2" />
                     <p className="text-lg text-muted-foreground mb-1">
-                      {selectedScene.status === "rendering" ? "Rendering..." : "Video pending"}
+                      {selectedScene.status === "rendering"
+                        ? "Rendering..."
+                        : selectedScene.status === "queued" ? "Queued"
+                        : selectedScene.status === "cancelled" ? "Cancelled" : "Video pending"}
                     </p>
                     <p className="text-sm text-muted-foreground">
                       {selectedScene.status === "rendering" 
                         ? "Your scene is being processed" 
-                        : "Video will appear here when ready"
+                        : selectedScene.status === "queued"
+                          ? `${queuePositions[selectedScene.id] ? `Position ${queuePositions[selectedScene.id]} in your queue. ` : ""}Starts when a generation slot frees up`
+                          : selectedScene.status === "cancelled"
+                            ? "Generation was stopped. Regenerate to render it again"
+                            : "Video will appear here when ready"
                       }
                     </p>
                   </div>
                 </div>
               )}
 
-              {/* Generation History (if available) */}
-              {selectedScene.type === 'database' && selectedScene.generations && selectedScene.generations.length > 1 && (
-                <div>
-                  <h4 className="text-sm font-medium text-muted-foreground mb-2">Generation History</h4>
-                  <div className="flex space-x-2">
-                    {selectedScene.generations.map((generation, index) => (
-                      <Button
-                        key={generation.generation_id}
-                        variant="outline"
-                        size="sm"
-                        className="text-xs"
-                        onClick={() => handleRevertToGeneration(selectedScene.id, generation.generation_id)}
-                      >
-                        v{selectedScene.generations.length - index}
-                      </Button>
-                    ))}
+              {/* Prompt sent to the provider */}
+              {selectedScene.type === 'database' && activePrompt && (
+                <div className="rounded-md bg-muted/50 p-3">
+                  <div className="flex items-center justify-between mb-1">
+                    <p className="text-xs text-muted-foreground">Prompt</p>
+                    <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => handleCopyPrompt(activePrompt)}>
+                      <Copy className="w-3 h-3" />
+                    </Button>
                   </div>
+                  <p className="text-sm whitespace-pre-wrap">{activePrompt}</p>
                 </div>
               )}
+
+              {/* Rendered versions */}
+              {selectedScene.type === 'database' && versions.length > 0 && (
+                <SceneVersionsPanel
+                  key={selectedScene.id}
+                  versions={versions}
+                  activeVersion={activeVersion}
+                  onPin={handlePinVersion}
+                />
+              )}
             </div>
           ) : (
             <div className="text-center py-12">
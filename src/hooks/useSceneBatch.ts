@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { PromptOverrideMode, ScenePromptVars } from '@/lib/promptTemplate';
+
+export interface StoryboardItem {
+  startFrameUrl: string;
+  endFrameUrl?: string;
+  shotTypeId: string;
+  promptVars?: ScenePromptVars;
+  promptOverride?: string;
+  promptOverrideMode?: PromptOverrideMode;
+}
+
+export interface BatchProgress {
+  total: number;
+  ready: number;
+  failed: number;
+  cancelled: number;
+  processing: number;
+  queued: number;
+  done: boolean;
+}
+
+export interface BatchScene {
+  id: string;
+  ordinal: number | null;
+  status: string | null;
+  lumaStatus: string | null;
+  lumaError: string | null;
+  shotTypeId: string | null;
+  startKey: string;
+  endKey: string | null;
+}
+
+export interface SceneBatch {
+  batchId: string;
+  folder: string;
+  createdAt: string;
+  progress: BatchProgress;
+  scenes: BatchScene[];
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+export async function submitStoryboard(folder: string, items: StoryboardItem[]) {
+  const response = await supabase.functions.invoke('luma-batch-scenes', {
+    body: {
+      folder,
+      items: items.map(item => ({
+        start_key: item.startFrameUrl,
+        end_key: item.endFrameUrl || null,
+        shot_type_id: item.shotTypeId,
+        prompt_vars: item.promptVars || {},
+        prompt_override: item.promptOverride || null,
+        prompt_override_mode: item.promptOverrideMode || 'append'
+      }))
+    }
+  });
+
+  if (response.error) {
+    throw response.error;
+  }
+
+  if (!response.data.ok) {
+    const detail: string[] | undefined = response.data.error?.detail;
+    throw new Error(detail?.length ? detail.join('; ') : response.data.error?.message || 'Failed to queue storyboard');
+  }
+
+  return response.data.data as { batchId: string; total: number; sceneIds: string[]; started: number; maxConcurrent: number };
+}
+
+// Polls a storyboard batch until every scene in it has finished
+export function useSceneBatch(batchId: string | null) {
+  const [batch, setBatch] = useState<SceneBatch | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBatch = useCallback(async () => {
+    if (!batchId) {
+      setBatch(null);
+      return;
+    }
+
+    try {
+      const response = await supabase.functions.invoke(`luma-batch-scenes?batch_id=${batchId}`, {
+        method: 'GET'
+      });
+
+      if (response.error) {
+        throw response.error;
+      }
+
+      if (!response.data.ok) {
+        throw new Error(response.data.error?.message || 'Failed to fetch batch');
+      }
+
+      setBatch(response.data.data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch batch');
+    }
+  }, [batchId]);
+
+  useEffect(() => {
+    fetchBatch();
+  }, [fetchBatch]);
+
+  const done = batch?.progress.done ?? false;
+
+  useEffect(() => {
+    if (!batchId || done) return;
+
+    const interval = setInterval(fetchBatch, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [batchId, done, fetchBatch]);
+
+  return {
+    batch,
+    error,
+    refetch: fetchBatch
+  };
+}
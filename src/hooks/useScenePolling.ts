@@ -2,12 +2,16 @@ import { useState, useEffect, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 
+// Provider states after which a scene never changes again
+const TERMINAL_LUMA_STATUSES = ['completed', 'failed', 'cancelled'];
+
 interface SceneStatus {
   sceneId: string;
   status: string;
   lumaStatus: string;
   lumaError?: string;
   progress?: number;
+  queuePosition?: number | null;
   isTerminal: boolean;
 }
 
@@ -43,7 +47,7 @@ export function useScenePolling(sceneId: string | null, enabled: boolean = true)
       setStatus(statusData);
 
       // Show completion toast
-      if (statusData.isTerminal) {
+      if (statusData.isTerminal || TERMINAL_LUMA_STATUSES.includes(statusData.lumaStatus)) {
         if (statusData.lumaStatus === 'completed') {
           toast.success('Scene generated successfully!', {
             description: `Scene ${currentSceneId.slice(0, 8)}... is ready to view`
@@ -52,6 +56,10 @@ export function useScenePolling(sceneId: string | null, enabled: boolean = true)
           toast.error('Scene generation failed', {
             description: statusData.lumaError || 'Unknown error occurred'
           });
+        } else if (statusData.lumaStatus === 'cancelled') {
+          toast.info('Scene generation cancelled', {
+            description: `Scene ${currentSceneId.slice(0, 8)}... was stopped`
+          });
         }
         return true; // Stop polling
       }
@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+export interface SceneVersion {
+  version: number;
+  videoKey: string | null;
+  videoUrl: string | null;
+  // Poster frame and animated preview, when the render has them
+  posterUrl: string | null;
+  previewUrl: string | null;
+  renderMeta: Record<string, unknown>;
+  provider: string | null;
+  providerModel: string | null;
+  createdAt: string;
+  isActive: boolean;
+}
+
+export function useSceneVersions(sceneId: string | null) {
+  const [versions, setVersions] = useState<SceneVersion[]>([]);
+  const [activeVersion, setActiveVersion] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVersions = useCallback(async () => {
+    if (!sceneId) {
+      setVersions([]);
+      setActiveVersion(null);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await supabase.functions.invoke(`scene-versions?scene_id=${sceneId}`, {
+        method: 'GET'
+      });
+
+      if (response.error) {
+        throw response.error;
+      }
+
+      if (!response.data.ok) {
+        throw new Error(response.data.error?.message || 'Failed to fetch scene versions');
+      }
+
+      setVersions(response.data.data.versions || []);
+      setActiveVersion(response.data.data.activeVersion);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch scene versions';
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [sceneId]);
+
+  const pinVersion = async (version: number) => {
+    if (!sceneId) return;
+
+    try {
+      const response = await supabase.functions.invoke('scene-versions', {
+        method: 'POST',
+        body: { scene_id: sceneId, version }
+      });
+
+      if (response.error) {
+        throw response.error;
+      }
+
+      if (!response.data.ok) {
+        throw new Error(response.data.error?.message || 'Failed to set active version');
+      }
+
+      setActiveVersion(version);
+      setVersions(prev => prev.map(v => ({ ...v, isActive: v.version === version })));
+      toast.success(`Version ${version} is now active`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to set active version';
+      toast.error(errorMessage);
+      throw err;
+    }
+  };
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  return {
+    versions,
+    activeVersion,
+    loading,
+    error,
+    refetch: fetchVersions,
+    pinVersion
+  };
+}
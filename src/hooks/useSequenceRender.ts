@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+export interface SequenceRender {
+  id: string;
+  status: 'queued' | 'rendering' | 'ready' | 'error';
+  crossfadeSeconds: number;
+  sceneCount: number;
+  durationSeconds: number | null;
+  videoUrl: string | null;
+  error: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  createdAt: string;
+}
+
+// Latest whole-project preview render; follows status changes over realtime like scenes do
+export function useSequenceRender(folder: string | null) {
+  const [render, setRender] = useState<SequenceRender | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [starting, setStarting] = useState(false);
+
+  const fetchRender = useCallback(async () => {
+    if (!folder) {
+      setRender(null);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const response = await supabase.functions.invoke(`sequence-render?folder=${encodeURIComponent(folder)}`, {
+        method: 'GET'
+      });
+
+      if (response.error) {
+        throw response.error;
+      }
+
+      if (!response.data.ok) {
+        throw new Error(response.data.error?.message || 'Failed to fetch sequence preview');
+      }
+
+      setRender(response.data.data.render);
+    } catch (err) {
+      console.error('Error loading sequence preview:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [folder]);
+
+  const startRender = async (crossfadeSeconds: number) => {
+    if (!folder) return;
+
+    try {
+      setStarting(true);
+
+      const response = await supabase.functions.invoke('sequence-render', {
+        method: 'POST',
+        body: { folder, crossfade_seconds: crossfadeSeconds }
+      });
+
+      if (response.error) {
+        // Non-2xx responses keep their { error } body on the context
+        const body = await response.error.context?.json().catch(() => null);
+        throw new Error(body?.error?.message || response.error.message);
+      }
+
+      if (!response.data.ok) {
+        throw new Error(response.data.error?.message || 'Failed to start sequence preview');
+      }
+
+      setRender(response.data.data.render);
+      toast.success('Rendering sequence preview');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to start sequence preview';
+      toast.error(errorMessage);
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRender();
+  }, [fetchRender]);
+
+  useEffect(() => {
+    if (!folder) return;
+
+    const channel = supabase
+      .channel(`sequence-renders-${folder}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'sequence_renders',
+          filter: `folder=eq.${folder}`
+        },
+        () => {
+          fetchRender();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [folder, fetchRender]);
+
+  return {
+    render,
+    loading,
+    starting,
+    refetch: fetchRender,
+    startRender
+  };
+}
@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  describeImport,
+  importErrorMessage,
+  type ConflictStrategy,
+  type ImportResult,
+  type ShotTypePreset
+} from '@/hooks/useShotTypes';
+
+export interface TeamMember {
+  userId: string;
+  email: string | null;
+  role: 'owner' | 'member';
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  role: 'owner' | 'member';
+  members: TeamMember[];
+}
+
+export interface ShotTypeLibrary {
+  id: string;
+  teamId: string;
+  teamName: string | null;
+  name: string;
+  description: string | null;
+  shotTypes: ShotTypePreset[];
+  createdBy: string | null;
+  updatedAt: string;
+}
+
+// Teams the signed-in user belongs to and the shot type libraries shared in them
+export function useShotTypeLibraries() {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [libraries, setLibraries] = useState<ShotTypeLibrary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchLibraries = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const response = await supabase.functions.invoke('shot-type-libraries', {
+        method: 'GET'
+      });
+
+      if (response.error) {
+        throw response.error;
+      }
+
+      if (!response.data.ok) {
+        throw new Error(response.data.error?.message || 'Failed to fetch team libraries');
+      }
+
+      setTeams(response.data.data.teams);
+      setLibraries(response.data.data.libraries);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch team libraries';
+      toast.error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const runAction = async (action: string, body: Record<string, unknown>, fallback: string) => {
+    const response = await supabase.functions.invoke('shot-type-libraries', {
+      method: 'POST',
+      body: { action, ...body }
+    });
+
+    if (response.error) {
+      throw response.error;
+    }
+
+    if (!response.data.ok) {
+      throw new Error(importErrorMessage(response.data.error, fallback));
+    }
+
+    return response.data.data;
+  };
+
+  // Shows a toast on failure and rethrows so callers can keep their form state
+  const withToast = async <T,>(fn: () => Promise<T>, fallback: string, success?: string): Promise<T> => {
+    try {
+      const result = await fn();
+      if (success) toast.success(success);
+      return result;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : fallback);
+      throw err;
+    }
+  };
+
+  const createTeam = (name: string) => withToast(async () => {
+    await runAction('create_team', { name }, 'Failed to create team');
+    await fetchLibraries();
+  }, 'Failed to create team', 'Team created');
+
+  const addMember = (teamId: string, email: string) => withToast(async () => {
+    await runAction('add_member', { team_id: teamId, email }, 'Failed to add member');
+    await fetchLibraries();
+  }, 'Failed to add member', 'Member added');
+
+  const removeMember = (teamId: string, userId: string) => withToast(async () => {
+    await runAction('remove_member', { team_id: teamId, user_id: userId }, 'Failed to remove member');
+    await fetchLibraries();
+  }, 'Failed to remove member', 'Member removed');
+
+  // Publishing under an existing library name replaces that library's shot types
+  const publishLibrary = (teamId: string, name: string, description?: string, shotTypeIds?: string[]) => withToast(async () => {
+    await runAction('publish', {
+      team_id: teamId,
+      name,
+      description,
+      shot_type_ids: shotTypeIds
+    }, 'Failed to publish library');
+    await fetchLibraries();
+  }, 'Failed to publish library', 'Library published');
+
+  const importLibrary = (libraryId: string, strategy: ConflictStrategy, dryRun: boolean) => withToast<ImportResult>(async () => {
+    const result: ImportResult = await runAction('import', {
+      library_id: libraryId,
+      strategy,
+      dry_run: dryRun
+    }, 'Failed to import library');
+    if (!dryRun) {
+      if (result.failed.length > 0) {
+        throw new Error(`Failed to import ${result.failed.map(f => f.name).join(', ')}`);
+      }
+      toast.success(`Imported library: ${describeImport(result)}`);
+    }
+    return result;
+  }, 'Failed to import library');
+
+  const deleteLibrary = (libraryId: string) => withToast(async () => {
+    await runAction('delete_library', { library_id: libraryId }, 'Failed to delete library');
+    setLibraries(prev => prev.filter(library => library.id !== libraryId));
+  }, 'Failed to delete library', 'Library deleted');
+
+  useEffect(() => {
+    fetchLibraries();
+  }, [fetchLibraries]);
+
+  return {
+    teams,
+    libraries,
+    loading,
+    refetch: fetchLibraries,
+    createTeam,
+    addMember,
+    removeMember,
+    publishLibrary,
+    importLibrary,
+    deleteLibrary
+  };
+}
@@ -0,0 +1,92 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+export interface ShotTypePreview {
+  versionId: string;
+  sceneId: string;
+  version: number;
+  folder: string;
+  ordinal: number | null;
+  prompt: string | null;
+  videoUrl: string | null;
+  createdAt: string | null;
+  pinned: boolean;
+}
+
+// Recent completed renders made with a shot type; null shotTypeId loads nothing
+export function useShotTypePreviews(shotTypeId: string | null) {
+  const [previews, setPreviews] = useState<ShotTypePreview[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPreviews = useCallback(async () => {
+    if (!shotTypeId) {
+      setPreviews([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await supabase.functions.invoke(`shot-type-previews?shot_type_id=${shotTypeId}`, {
+        method: 'GET'
+      });
+
+      if (response.error) {
+        throw response.error;
+      }
+
+      if (!response.data.ok) {
+        throw new Error(response.data.error?.message || 'Failed to fetch previews');
+      }
+
+      setPreviews(response.data.data.previews || []);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch previews';
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [shotTypeId]);
+
+  // versionId null unpins the current example
+  const pinPreview = async (versionId: string | null) => {
+    if (!shotTypeId) return;
+
+    try {
+      const response = await supabase.functions.invoke('shot-type-previews', {
+        method: 'POST',
+        body: { shot_type_id: shotTypeId, version_id: versionId }
+      });
+
+      if (response.error) {
+        throw response.error;
+      }
+
+      if (!response.data.ok) {
+        throw new Error(response.data.error?.message || 'Failed to pin preview');
+      }
+
+      setPreviews(prev => prev.map(p => ({ ...p, pinned: p.versionId === versionId })));
+      toast.success(versionId ? 'Example pinned' : 'Example unpinned');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to pin preview';
+      toast.error(errorMessage);
+      throw err;
+    }
+  };
+
+  useEffect(() => {
+    fetchPreviews();
+  }, [fetchPreviews]);
+
+  return {
+    previews,
+    loading,
+    error,
+    refetch: fetchPreviews,
+    pinPreview
+  };
+}
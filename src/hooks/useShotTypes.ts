@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import type { GenerationParams } from '@/lib/videoProvider';
 
 export interface ShotType {
   id: string;
@@ -8,10 +9,55 @@ export interface ShotType {
   prompt_template: string;
   hotkey: string;
   sort_order: number;
+  provider?: string | null;
+  provider_model?: string | null;
+  generation_params?: GenerationParams;
+  preview_version_id?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Shot types as exported to JSON and shared in team libraries
+export type ShotTypePreset = Pick<ShotType, 'name' | 'prompt_template' | 'hotkey' | 'sort_order' | 'provider' | 'provider_model' | 'generation_params'>;
+
+export interface ShotTypeExport {
+  version: number;
+  exported_at: string;
+  shot_types: ShotTypePreset[];
+}
+
+// What to do with an imported shot type whose name already exists
+export type ConflictStrategy = 'skip' | 'overwrite' | 'rename';
+
+export interface ImportPlanItem {
+  action: 'create' | 'update' | 'skip';
+  name: string;
+  hotkey: string;
+  originalName?: string;
+  originalHotkey?: string;
+  targetId?: string;
+  reason?: string;
+}
+
+export interface ImportResult {
+  plan: ImportPlanItem[];
+  failed: { name: string; error: string }[];
+  dryRun: boolean;
+}
+
+// Turns an import error response into one message, including per-entry validation detail
+export function importErrorMessage(error: { message?: string; detail?: string[] } | undefined, fallback: string) {
+  if (!error) return fallback;
+  return error.detail?.length ? `${error.message}: ${error.detail.join('; ')}` : error.message || fallback;
+}
+
+export function describeImport(result: ImportResult) {
+  const created = result.plan.filter(item => item.action === 'create').length;
+  const updated = result.plan.filter(item => item.action === 'update').length;
+  const skipped = result.plan.filter(item => item.action === 'skip').length;
+  return `${created} created, ${updated} updated, ${skipped} skipped`;
+}
+
 export function useShotTypes() {
   const [shotTypes, setShotTypes] = useState<ShotType[]>([]);
   const [loading, setLoading] = useState(true);
@@ -54,6 +100,9 @@ export function useShotTypes() {
     prompt_template: string;
     hotkey: string;
     sort_order?: number;
+    provider?: string | null;
+    provider_model?: string | null;
+    generation_params?: GenerationParams;
   }) => {
     try {
       const response = await supabase.functions.invoke('shot-types', {
@@ -85,6 +134,9 @@ export function useShotTypes() {
     prompt_template?: string;
     hotkey?: string;
     sort_order?: number;
+    provider?: string | null;
+    provider_model?: string | null;
+    generation_params?: GenerationParams;
   }) => {
     try {
       const response = await supabase.functions.invoke(`shot-types/${id}`, {
@@ -136,6 +188,100 @@ export function useShotTypes() {
     }
   };
 
+  // ids lists every shot type in the new order; the list is reordered right away and restored if saving fails
+  const reorderShotTypes = async (ids: string[]) => {
+    const previous = shotTypes;
+    setShotTypes(ids
+      .map((id, index) => {
+        const shotType = previous.find(st => st.id === id);
+        return shotType && { ...shotType, sort_order: index + 1 };
+      })
+      .filter((st): st is ShotType => Boolean(st)));
+
+    try {
+      const response = await supabase.functions.invoke('shot-types/reorder', {
+        method: 'PUT',
+        body: { ids }
+      });
+
+      if (response.error) {
+        throw response.error;
+      }
+
+      if (!response.data.ok) {
+        throw new Error(response.data.error?.message || 'Failed to reorder shot types');
+      }
+
+      setShotTypes(response.data.data);
+    } catch (err) {
+      setShotTypes(previous);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to reorder shot types';
+      toast.error(errorMessage);
+    }
+  };
+
+  const exportShotTypes = async () => {
+    try {
+      const response = await supabase.functions.invoke('shot-types?export=true', {
+        method: 'GET'
+      });
+
+      if (response.error) {
+        throw response.error;
+      }
+
+      if (!response.data.ok) {
+        throw new Error(response.data.error?.message || 'Failed to export shot types');
+      }
+
+      const document: ShotTypeExport = response.data.data;
+      const blob = new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.download = `shot-types-${document.exported_at.slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success(`Exported ${document.shot_types.length} shot types`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to export shot types';
+      toast.error(errorMessage);
+    }
+  };
+
+  // With dryRun nothing is written; the returned plan shows what the import would do
+  const importShotTypes = async (document: unknown, strategy: ConflictStrategy, dryRun: boolean): Promise<ImportResult> => {
+    try {
+      const response = await supabase.functions.invoke('shot-types/import', {
+        method: 'POST',
+        body: { document, strategy, dry_run: dryRun }
+      });
+
+      if (response.error) {
+        throw response.error;
+      }
+
+      if (!response.data.ok) {
+        throw new Error(importErrorMessage(response.data.error, 'Failed to import shot types'));
+      }
+
+      const result: ImportResult = response.data.data;
+      if (!dryRun) {
+        await fetchShotTypes();
+        if (result.failed.length > 0) {
+          toast.error(`Failed to import ${result.failed.map(f => f.name).join(', ')}`);
+        } else {
+          toast.success(`Imported shot types: ${describeImport(result)}`);
+        }
+      }
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to import shot types';
+      toast.error(errorMessage);
+      throw err;
+    }
+  };
+
   useEffect(() => {
     fetchShotTypes();
   }, []);
@@ -147,6 +293,9 @@ export function useShotTypes() {
     refetch: fetchShotTypes,
     createShotType,
     updateShotType,
-    deleteShotType
+    deleteShotType,
+    reorderShotTypes,
+    exportShotTypes,
+    importShotTypes
   };
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+export interface UsageTotals {
+  spentUsd: number;
+  seconds: number;
+  generations: number;
+}
+
+export interface ProjectUsage extends UsageTotals {
+  // null groups spend from deleted projects
+  projectId: string | null;
+  name: string;
+  budgetUsd: number | null;
+}
+
+export interface ShotTypeUsage extends UsageTotals {
+  shotTypeId: string | null;
+  name: string;
+}
+
+export interface UsageReport {
+  month: string;
+  total: UsageTotals;
+  userBudgetUsd: number | null;
+  projects: ProjectUsage[];
+  shotTypes: ShotTypeUsage[];
+}
+
+// Monthly generation spend for the signed-in user; month is "YYYY-MM"
+export function useUsage(month: string) {
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsage = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await supabase.functions.invoke(`usage?month=${month}`, {
+        method: 'GET'
+      });
+
+      if (response.error) {
+        throw response.error;
+      }
+
+      if (!response.data.ok) {
+        throw new Error(response.data.error?.message || 'Failed to fetch usage');
+      }
+
+      setUsage(response.data.data);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch usage';
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [month]);
+
+  const setProjectBudget = async (projectId: string, budgetUsd: number | null) => {
+    try {
+      const response = await supabase.functions.invoke('usage', {
+        method: 'PUT',
+        body: { project_id: projectId, monthly_budget_usd: budgetUsd }
+      });
+
+      if (response.error) {
+        throw response.error;
+      }
+
+      if (!response.data.ok) {
+        throw new Error(response.data.error?.message || 'Failed to update budget');
+      }
+
+      setUsage(prev => prev && {
+        ...prev,
+        projects: prev.projects.map(p => p.projectId === projectId ? { ...p, budgetUsd } : p)
+      });
+      toast.success(budgetUsd === null ? 'Project budget removed' : 'Project budget updated');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update budget';
+      toast.error(errorMessage);
+      throw err;
+    }
+  };
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  return {
+    usage,
+    loading,
+    error,
+    refetch: fetchUsage,
+    setProjectBudget
+  };
+}
@@ -91,6 +91,68 @@ export type Database = {
         }
         Relationships: []
       }
+      generation_jobs: {
+        Row: {
+          created_at: string | null
+          enqueued_at: string
+          finished_at: string | null
+          id: string
+          last_error: string | null
+          next_attempt_at: string | null
+          prompt: string | null
+          provider_job_id: string | null
+          scene_id: string
+          start_generation_id: string | null
+          started_at: string | null
+          status: string
+          updated_at: string | null
+          user_id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string | null
+          enqueued_at?: string
+          finished_at?: string | null
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string | null
+          prompt?: string | null
+          provider_job_id?: string | null
+          scene_id: string
+          start_generation_id?: string | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id: string
+          version?: number
+        }
+        Update: {
+          created_at?: string | null
+          enqueued_at?: string
+          finished_at?: string | null
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string | null
+          prompt?: string | null
+          provider_job_id?: string | null
+          scene_id?: string
+          start_generation_id?: string | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_jobs_scene_id_fkey"
+            columns: ["scene_id"]
+            isOneToOne: false
+            referencedRelation: "scenes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       photos: {
         Row: {
           created_at: string | null
@@ -128,6 +190,7 @@ export type Database = {
           created_at: string | null
           email: string
           id: string
+          monthly_budget_usd: number | null
           role: string | null
           status: string | null
           updated_at: string | null
@@ -136,6 +199,7 @@ export type Database = {
           created_at?: string | null
           email: string
           id: string
+          monthly_budget_usd?: number | null
           role?: string | null
           status?: string | null
           updated_at?: string | null
@@ -144,6 +208,7 @@ export type Database = {
           created_at?: string | null
           email?: string
           id?: string
+          monthly_budget_usd?: number | null
           role?: string | null
           status?: string | null
           updated_at?: string | null
@@ -154,6 +219,7 @@ export type Database = {
         Row: {
           created_at: string | null
           id: string
+          monthly_budget_usd: number | null
           name: string
           owner_id: string
           updated_at: string | null
@@ -161,6 +227,7 @@ export type Database = {
         Insert: {
           created_at?: string | null
           id?: string
+          monthly_budget_usd?: number | null
           name: string
           owner_id?: string
           updated_at?: string | null
@@ -168,12 +235,51 @@ export type Database = {
         Update: {
           created_at?: string | null
           id?: string
+          monthly_budget_usd?: number | null
           name?: string
           owner_id?: string
           updated_at?: string | null
         }
         Relationships: []
       }
+      scene_batches: {
+        Row: {
+          created_at: string | null
+          folder: string
+          id: string
+          project_id: string | null
+          total: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          folder: string
+          id?: string
+          project_id?: string | null
+          total: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          folder?: string
+          id?: string
+          project_id?: string | null
+          total?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scene_batches_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       scene_generations: {
         Row: {
           created_at: string
@@ -183,7 +289,8 @@ export type Database = {
           generation_id: string
           progress_pct: number | null
           scene_id: string
-          shot_type: number
+          shot_type_id: string | null
+          shot_type_name: string | null
           start_frame_url: string
           status: string
           updated_at: string
@@ -197,7 +304,8 @@ export type Database = {
           generation_id?: string
           progress_pct?: number | null
           scene_id: string
-          shot_type: number
+          shot_type_id?: string | null
+          shot_type_name?: string | null
           start_frame_url: string
           status?: string
           updated_at?: string
@@ -211,36 +319,63 @@ export type Database = {
           generation_id?: string
           progress_pct?: number | null
           scene_id?: string
-          shot_type?: number
+          shot_type_id?: string | null
+          shot_type_name?: string | null
           start_frame_url?: string
           status?: string
           updated_at?: string
           video_url?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "scene_generations_shot_type_id_fkey"
+            columns: ["shot_type_id"]
+            isOneToOne: false
+            referencedRelation: "shot_types"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       scene_versions: {
         Row: {
           created_at: string | null
           id: string
+          poster_url: string | null
+          preview_url: string | null
+          provider: string | null
+          provider_model: string | null
           render_meta: Json | null
           scene_id: string
+          shot_type_id: string | null
+          shot_type_name: string | null
           version: number
           video_url: string | null
         }
         Insert: {
           created_at?: string | null
           id?: string
+          poster_url?: string | null
+          preview_url?: string | null
+          provider?: string | null
+          provider_model?: string | null
           render_meta?: Json | null
           scene_id: string
+          shot_type_id?: string | null
+          shot_type_name?: string | null
           version: number
           video_url?: string | null
         }
         Update: {
           created_at?: string | null
           id?: string
+          poster_url?: string | null
+          preview_url?: string | null
+          provider?: string | null
+          provider_model?: string | null
           render_meta?: Json | null
           scene_id?: string
+          shot_type_id?: string | null
+          shot_type_name?: string | null
           version?: number
           video_url?: string | null
         }
@@ -252,22 +387,45 @@ export type Database = {
             referencedRelation: "scenes"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "scene_versions_shot_type_id_fkey"
+            columns: ["shot_type_id"]
+            isOneToOne: false
+            referencedRelation: "shot_types"
+            referencedColumns: ["id"]
+          },
         ]
       }
       scenes: {
         Row: {
+          active_version: number | null
+          attempt_log: Json
+          attempts: number
+          batch_id: string | null
           created_at: string | null
           deleted_at: string | null
           end_frame_signed_url: string | null
           end_key: string
+          excluded_from_timeline: boolean
           folder: string
+          generation_params: Json | null
           id: string
           luma_error: string | null
           luma_job_id: string | null
           luma_status: string | null
+          next_retry_at: string | null
           ordinal: number | null
+          parent_scene_id: string | null
           project_id: string | null
-          shot_type: number
+          prompt: string | null
+          prompt_override: string | null
+          prompt_override_mode: string
+          prompt_vars: Json
+          provider: string
+          provider_model: string | null
+          shot_type_id: string | null
+          shot_type_name: string | null
+          shot_type_prompt: string | null
           signed_url_expires_at: string | null
           start_frame_signed_url: string | null
           start_key: string
@@ -277,18 +435,34 @@ export type Database = {
           version: number
         }
         Insert: {
+          active_version?: number | null
+          attempt_log?: Json
+          attempts?: number
+          batch_id?: string | null
           created_at?: string | null
           deleted_at?: string | null
           end_frame_signed_url?: string | null
           end_key: string
+          excluded_from_timeline: boolean
           folder: string
+          generation_params?: Json | null
           id?: string
           luma_error?: string | null
           luma_job_id?: string | null
           luma_status?: string | null
+          next_retry_at?: string | null
           ordinal?: number | null
+          parent_scene_id?: string | null
           project_id?: string | null
-          shot_type: number
+          prompt?: string | null
+          prompt_override?: string | null
+          prompt_override_mode?: string
+          prompt_vars?: Json
+          provider?: string
+          provider_model?: string | null
+          shot_type_id?: string | null
+          shot_type_name?: string | null
+          shot_type_prompt?: string | null
           signed_url_expires_at?: string | null
           start_frame_signed_url?: string | null
           start_key: string
@@ -298,18 +472,34 @@ export type Database = {
           version?: number
         }
         Update: {
+          active_version?: number | null
+          attempt_log?: Json
+          attempts?: number
+          batch_id?: string | null
           created_at?: string | null
           deleted_at?: string | null
           end_frame_signed_url?: string | null
           end_key?: string
+          excluded_from_timeline?: boolean
           folder?: string
+          generation_params?: Json | null
           id?: string
           luma_error?: string | null
           luma_job_id?: string | null
           luma_status?: string | null
+          next_retry_at?: string | null
           ordinal?: number | null
+          parent_scene_id?: string | null
           project_id?: string | null
-          shot_type?: number
+          prompt?: string | null
+          prompt_override?: string | null
+          prompt_override_mode?: string
+          prompt_vars?: Json
+          provider?: string
+          provider_model?: string | null
+          shot_type_id?: string | null
+          shot_type_name?: string | null
+          shot_type_prompt?: string | null
           signed_url_expires_at?: string | null
           start_frame_signed_url?: string | null
           start_key?: string
@@ -319,6 +509,27 @@ export type Database = {
           version?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "scenes_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "scene_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scenes_parent_scene_id_fkey"
+            columns: ["parent_scene_id"]
+            isOneToOne: false
+            referencedRelation: "scenes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scenes_shot_type_id_fkey"
+            columns: ["shot_type_id"]
+            isOneToOne: false
+            referencedRelation: "shot_types"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "scenes_user_id_fkey"
             columns: ["user_id"]
@@ -328,39 +539,288 @@ export type Database = {
           },
         ]
       }
+      sequence_renders: {
+        Row: {
+          clips: Json
+          created_at: string | null
+          crossfade_seconds: number
+          duration_seconds: number | null
+          error: string | null
+          finished_at: string | null
+          folder: string
+          id: string
+          project_id: string
+          started_at: string | null
+          status: string
+          updated_at: string | null
+          user_id: string
+          video_url: string | null
+        }
+        Insert: {
+          clips?: Json
+          created_at?: string | null
+          crossfade_seconds?: number
+          duration_seconds?: number | null
+          error?: string | null
+          finished_at?: string | null
+          folder: string
+          id?: string
+          project_id: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id: string
+          video_url?: string | null
+        }
+        Update: {
+          clips?: Json
+          created_at?: string | null
+          crossfade_seconds?: number
+          duration_seconds?: number | null
+          error?: string | null
+          finished_at?: string | null
+          folder?: string
+          id?: string
+          project_id?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+          video_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sequence_renders_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shot_type_libraries: {
+        Row: {
+          created_at: string | null
+          created_by: string
+          description: string | null
+          id: string
+          name: string
+          shot_types: Json
+          team_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by: string
+          description?: string | null
+          id?: string
+          name: string
+          shot_types?: Json
+          team_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string
+          description?: string | null
+          id?: string
+          name?: string
+          shot_types?: Json
+          team_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shot_type_libraries_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       shot_types: {
         Row: {
           created_at: string | null
+          generation_params: Json
           hotkey: string
           id: string
           name: string
           owner_id: string
+          preview_version_id: string | null
           prompt_template: string
+          provider: string | null
+          provider_model: string | null
           sort_order: number | null
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
+          generation_params?: Json
           hotkey: string
           id?: string
           name: string
           owner_id: string
+          preview_version_id?: string | null
           prompt_template: string
+          provider?: string | null
+          provider_model?: string | null
           sort_order?: number | null
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
+          generation_params?: Json
           hotkey?: string
           id?: string
           name?: string
           owner_id?: string
+          preview_version_id?: string | null
           prompt_template?: string
+          provider?: string | null
+          provider_model?: string | null
           sort_order?: number | null
           updated_at?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "shot_types_preview_version_id_fkey"
+            columns: ["preview_version_id"]
+            isOneToOne: false
+            referencedRelation: "scene_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_members: {
+        Row: {
+          created_at: string | null
+          role: string
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          role?: string
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          role?: string
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string | null
+          created_by: string
+          id: string
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by: string
+          id?: string
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string
+          id?: string
+          name?: string
+          updated_at?: string | null
+        }
         Relationships: []
       }
+      usage_ledger: {
+        Row: {
+          correlation_id: string | null
+          created_at: string
+          duration_seconds: number
+          estimated_cost_usd: number
+          id: string
+          model: string | null
+          project_id: string | null
+          provider: string
+          provider_job_id: string | null
+          resolution: string | null
+          scene_id: string | null
+          scene_version: number | null
+          shot_type_id: string | null
+          shot_type_name: string | null
+          user_id: string
+        }
+        Insert: {
+          correlation_id?: string | null
+          created_at?: string
+          duration_seconds?: number
+          estimated_cost_usd?: number
+          id?: string
+          model?: string | null
+          project_id?: string | null
+          provider: string
+          provider_job_id?: string | null
+          resolution?: string | null
+          scene_id?: string | null
+          scene_version?: number | null
+          shot_type_id?: string | null
+          shot_type_name?: string | null
+          user_id: string
+        }
+        Update: {
+          correlation_id?: string | null
+          created_at?: string
+          duration_seconds?: number
+          estimated_cost_usd?: number
+          id?: string
+          model?: string | null
+          project_id?: string | null
+          provider?: string
+          provider_job_id?: string | null
+          resolution?: string | null
+          scene_id?: string | null
+          scene_version?: number | null
+          shot_type_id?: string | null
+          shot_type_name?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_ledger_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "usage_ledger_scene_id_fkey"
+            columns: ["scene_id"]
+            isOneToOne: false
+            referencedRelation: "scenes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "usage_ledger_shot_type_id_fkey"
+            columns: ["shot_type_id"]
+            isOneToOne: false
+            referencedRelation: "shot_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -370,14 +830,62 @@ export type Database = {
         Args: { expires_at: string }
         Returns: boolean
       }
+      claim_generation_jobs: {
+        Args: { p_global_max: number; p_limit?: number; p_user_max: number }
+        Returns: {
+          created_at: string | null
+          enqueued_at: string
+          finished_at: string | null
+          id: string
+          last_error: string | null
+          next_attempt_at: string | null
+          prompt: string | null
+          provider_job_id: string | null
+          scene_id: string
+          start_generation_id: string | null
+          started_at: string | null
+          status: string
+          updated_at: string | null
+          user_id: string
+          version: number
+        }[]
+      }
       is_admin: {
         Args: { user_id: string }
         Returns: boolean
       }
+      is_team_member: {
+        Args: { p_team_id: string; p_user_id: string }
+        Returns: boolean
+      }
       next_scene_ordinal: {
         Args: { p_project_id: string }
         Returns: number
       }
+      reorder_scenes: {
+        Args: {
+          p_excluded: string[]
+          p_ids: string[]
+          p_project_id: string
+          p_user_id: string
+        }
+        Returns: {
+          ordinal: number
+          scene_id: string
+        }[]
+      }
+      reorder_shot_types: {
+        Args: { p_ids: string[]; p_owner_id: string }
+        Returns: undefined
+      }
+      restore_scene: {
+        Args: { p_scene_id: string; p_user_id: string }
+        Returns: {
+          folder: string
+          ordinal: number
+          scene_id: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
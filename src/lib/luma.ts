@@ -1,47 +1,33 @@
-type CreateReq = {
-  prompt: string;
-  resolution: "1080p";
-  model: "ray-flash-2";
-  loop?: false;
-};
+import type { ProviderCapabilities } from './videoProvider';
 
-type CreateRes = { 
-  id: string 
+export const DEFAULTS = {
+  resolution: "1080p",
+  model: "ray-flash-2",
+  aspectRatio: "16:9",
+  duration: "5s",
+  loop: false,
 };
 
-type StatusRes = {
-  id: string;
-  status: "queued" | "processing" | "completed" | "failed";
-  error?: string;
-  assets?: { video?: string };
-  progress?: number;
+// Same values the luma-* edge functions validate against; used to populate the shot type settings
+export const LUMA_CAPABILITIES: ProviderCapabilities = {
+  models: ["ray-2", "ray-flash-2", "ray-1-6"],
+  defaultModel: DEFAULTS.model,
+  resolutions: ["540p", "720p", "1080p", "4k"],
+  defaultResolution: DEFAULTS.resolution,
+  aspectRatios: ["1:1", "16:9", "9:16", "4:3", "3:4", "21:9", "9:21"],
+  defaultAspectRatio: DEFAULTS.aspectRatio,
+  durations: ["5s", "9s"],
+  defaultDuration: DEFAULTS.duration,
+  cameraConcepts: [
+    "static", "handheld", "zoom_in", "zoom_out", "push_in", "pull_out", "dolly_zoom",
+    "pan_left", "pan_right", "tilt_up", "tilt_down", "truck_left", "truck_right",
+    "pedestal_up", "pedestal_down", "orbit_left", "orbit_right", "crane_up", "crane_down",
+    "roll_left", "roll_right", "aerial", "aerial_drone", "overhead", "high_angle", "low_angle",
+    "eye_level", "ground_level", "over_the_shoulder", "pov", "selfie", "bolt_cam",
+    "tiny_planet", "elevator_doors",
+  ],
+  supportsKeyframes: true,
+  supportsExtend: true,
+  supportsLoop: true,
+  supportsCancel: true,
 };
-
-const BASE = `${process.env.LUMA_API_BASE}`;
-
-export async function lumaCreate(body: CreateReq): Promise<CreateRes> {
-  const r = await fetch(`${BASE}/generations`, {
-    method: "POST",
-    headers: {
-      "authorization": `Bearer ${process.env.LUMA_API_KEY}`,
-      "content-type": "application/json",
-    },
-    body: JSON.stringify(body),
-  });
-  if (!r.ok) throw new Error(`Luma create ${r.status}: ${await r.text()}`);
-  return r.json();
-}
-
-export async function lumaStatus(id: string): Promise<StatusRes> {
-  const r = await fetch(`${BASE}/generations/${id}`, {
-    headers: { "authorization": `Bearer ${process.env.LUMA_API_KEY}` },
-  });
-  if (!r.ok) throw new Error(`Luma status ${r.status}: ${await r.text()}`);
-  return r.json();
-}
-
-export const DEFAULTS = {
-  resolution: "1080p" as const,
-  model: "ray-flash-2" as const,
-  loop: false as const,
-};
\ No newline at end of file
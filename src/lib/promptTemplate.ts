@@ -0,0 +1,42 @@
+// Mirrors supabase/functions/_shared/promptTemplate.ts so PhotoGrid can preview the rendered prompt;
+// supabase/functions/tests/prompt-template_test.ts keeps the two in step
+
+export const SYSTEM_PROMPT_VARIABLES = ['project', 'scene_ordinal'] as const;
+export const SCENE_PROMPT_VARIABLES = ['subject', 'mood'] as const;
+
+export type PromptOverrideMode = 'append' | 'replace';
+
+export type ScenePromptVars = Partial<Record<(typeof SCENE_PROMPT_VARIABLES)[number], string>>;
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+export function templateVariables(template: string): string[] {
+  return [...new Set([...template.matchAll(PLACEHOLDER)].map(match => match[1]))];
+}
+
+export function renderPromptTemplate(
+  template: string,
+  values: { project?: string; scene_ordinal?: number | string | null } & ScenePromptVars
+): string {
+  const lookup = values as Record<string, string | number | null | undefined>;
+
+  return template
+    .replace(PLACEHOLDER, (_, name: string) => {
+      const value = lookup[name];
+      return value === undefined || value === null ? '' : String(value).trim();
+    })
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/ +([,.;:!?])/g, '$1')
+    .trim();
+}
+
+export function buildScenePrompt(
+  template: string,
+  override: { text?: string | null; mode?: PromptOverrideMode | null },
+  values: Parameters<typeof renderPromptTemplate>[1]
+): string {
+  const overrideText = override.text?.trim() ? renderPromptTemplate(override.text, values) : '';
+  if (overrideText && override.mode === 'replace') return overrideText;
+
+  return [renderPromptTemplate(template, values), overrideText].filter(Boolean).join(' ');
+}
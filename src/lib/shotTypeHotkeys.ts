@@ -0,0 +1,27 @@
+// Mirrors the hotkey rules in supabase/functions/_shared/shotTypePresets.ts so the manager can
+// flag problems before saving and PhotoGrid matches keys the same way the server checks them
+
+// Taken by the dashboard's own shortcuts (S/E set frames, R regenerates)
+export const RESERVED_HOTKEYS = ['s', 'e', 'r'];
+
+export function normalizeHotkey(hotkey: string) {
+  return hotkey.trim().toLowerCase();
+}
+
+export function isReservedHotkey(hotkey: string) {
+  return RESERVED_HOTKEYS.includes(normalizeHotkey(hotkey));
+}
+
+// Problem with a hotkey for the shot type with the given id (null when creating), or null if it's usable
+export function hotkeyProblem(
+  hotkey: string,
+  id: string | null,
+  shotTypes: { id: string; name: string; hotkey: string }[]
+): string | null {
+  if (!hotkey.trim()) return null;
+  if (isReservedHotkey(hotkey)) {
+    return `${hotkey.trim().toUpperCase()} is reserved (S and E set frames, R regenerates)`;
+  }
+  const clash = shotTypes.find(st => st.id !== id && normalizeHotkey(st.hotkey) === normalizeHotkey(hotkey));
+  return clash ? `Already used by ${clash.name}` : null;
+}
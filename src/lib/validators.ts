@@ -19,7 +19,7 @@ export const sceneCreateSchema = z.object({
   folder: slugSchema,
   startKey: z.string().min(1, 'Start image is required'),
   endKey: z.string().optional(),
-  shotType: z.number().int().min(1).max(6, 'Shot type must be between 1 and 6'),
+  shotTypeId: z.string().uuid('Shot type is required'),
 });
 
 export const sceneCompleteSchema = z.object({
@@ -0,0 +1,27 @@
+// Client-side shapes of supabase/functions/_shared/providers/types.ts; generation itself only runs
+// in the edge functions
+export interface ProviderCapabilities {
+  models: string[];
+  defaultModel: string;
+  resolutions: string[];
+  defaultResolution: string;
+  aspectRatios: string[];
+  defaultAspectRatio: string;
+  durations: string[];
+  defaultDuration: string;
+  cameraConcepts: string[];
+  supportsKeyframes: boolean;
+  supportsExtend: boolean;
+  supportsLoop: boolean;
+  supportsCancel: boolean;
+}
+
+// Stored form of generation settings (shot_types.generation_params, scenes.generation_params)
+export interface GenerationParams {
+  model?: string;
+  resolution?: string;
+  aspect_ratio?: string;
+  duration?: string;
+  loop?: boolean;
+  concepts?: string[];
+}
@@ -10,6 +10,7 @@ import { DashboardHeader } from "@/components/dashboard/DashboardHeader";
 import { ProjectDropdown } from "@/components/dashboard/ProjectDropdown";
 import { Loader2 } from "lucide-react";
 import { useApi } from "@/hooks/useApi";
+import type { PromptOverrideMode, ScenePromptVars } from "@/lib/promptTemplate";
 
 interface Profile {
   id: string;
@@ -33,7 +34,7 @@ export default function Dashboard() {
     generationId: string;
     startFrameUrl: string;
     endFrameUrl?: string;
-    shotType: number;
+    shotTypeId: string | null;
     status: 'processing' | 'ready' | 'error';
     videoUrl?: string;
     createdAt: Date;
@@ -193,6 +194,9 @@ export default function Dashboard() {
     startFrameUrl: string; 
     endFrameUrl?: string; 
     shotTypeId: string; 
+    promptVars?: ScenePromptVars;
+    promptOverride?: string;
+    promptOverrideMode?: PromptOverrideMode;
   }) => {
     const sceneId = crypto.randomUUID();
     const generationId = crypto.randomUUID();
@@ -203,7 +207,7 @@ export default function Dashboard() {
       generationId,
       startFrameUrl: sceneData.startFrameUrl,
       endFrameUrl: sceneData.endFrameUrl,
-      shotType: 1, // Legacy field for compatibility
+      shotTypeId: sceneData.shotTypeId,
       status: 'processing' as const,
       createdAt: new Date()
     };
@@ -225,7 +229,10 @@ export default function Dashboard() {
         folder: currentProject,
         start_key: sceneData.startFrameUrl,
         end_key: sceneData.endFrameUrl || null,
-        shot_type_id: sceneData.shotTypeId
+        shot_type_id: sceneData.shotTypeId,
+        prompt_vars: sceneData.promptVars || {},
+        prompt_override: sceneData.promptOverride || null,
+        prompt_override_mode: sceneData.promptOverrideMode || "append"
       };
 
       const response = await supabase.functions.invoke("luma-create-scene", {
@@ -236,8 +243,11 @@ export default function Dashboard() {
         throw response.error;
       }
 
-      toast.success("Scene generation started!", {
-        description: `Scene ID: ${sceneId.slice(0, 8)}...`
+      const queued = response.data?.data?.status === "queued";
+      toast.success(queued ? "Scene queued" : "Scene generation started!", {
+        description: queued
+          ? "It starts automatically when a generation slot frees up"
+          : `Scene ID: ${sceneId.slice(0, 8)}...`
       });
     } catch (error: any) {
       console.error("Error generating scene:", error);
@@ -274,7 +284,7 @@ export default function Dashboard() {
 
   return (
     <div className="min-h-screen bg-background">
-      <DashboardHeader user={user} profile={profile} />
+      <DashboardHeader user={user} profile={profile} currentProject={currentProject} />
       
       <div className="container mx-auto p-6 space-y-6">
         {/* Project Selection */}
@@ -0,0 +1,254 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { User } from "@supabase/supabase-js";
+import { ArrowLeft, Loader2 } from "lucide-react";
+
+import { DashboardHeader } from "@/components/dashboard/DashboardHeader";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useUsage, type ProjectUsage } from "@/hooks/useUsage";
+
+interface Profile {
+  id: string;
+  email: string;
+  role: string;
+  status: string;
+}
+
+function formatUsd(amount: number) {
+  return `$${amount.toFixed(2)}`;
+}
+
+function currentMonth() {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function ProjectBudgetInput({ project, onSave }: {
+  project: ProjectUsage;
+  onSave: (projectId: string, budgetUsd: number | null) => Promise<void>;
+}) {
+  const [value, setValue] = useState(project.budgetUsd?.toString() ?? "");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setValue(project.budgetUsd?.toString() ?? "");
+  }, [project.budgetUsd]);
+
+  if (!project.projectId) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  const parsed = value.trim() === "" ? null : Number(value);
+  const invalid = parsed !== null && (!Number.isFinite(parsed) || parsed < 0);
+  const unchanged = parsed === project.budgetUsd;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(project.projectId!, parsed);
+    } catch {
+      // Toast already shown by useUsage
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-end gap-2">
+      <Input
+        type="number"
+        min="0"
+        step="1"
+        placeholder="No limit"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        className="w-28 h-8"
+      />
+      <Button size="sm" variant="outline" disabled={saving || invalid || unchanged} onClick={handleSave}>
+        {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+      </Button>
+    </div>
+  );
+}
+
+export default function Usage() {
+  const navigate = useNavigate();
+  const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [month, setMonth] = useState(currentMonth());
+  const { usage, loading, error, setProjectBudget } = useUsage(month);
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+
+      setUser(session.user);
+
+      const { data: profileData } = await supabase
+        .from("profiles")
+        .select("*")
+        .eq("id", session.user.id)
+        .single();
+
+      if (!profileData || profileData.status !== "approved") {
+        navigate("/dashboard");
+        return;
+      }
+
+      setProfile(profileData);
+    };
+
+    checkAuth();
+  }, [navigate]);
+
+  if (!user || !profile) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const userBudgetUsed = usage?.userBudgetUsd
+    ? Math.min((usage.total.spentUsd / usage.userBudgetUsd) * 100, 100)
+    : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <DashboardHeader user={user} profile={profile} />
+
+      <div className="container mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to dashboard
+          </Button>
+          <Input
+            type="month"
+            value={month}
+            max={currentMonth()}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="w-44"
+          />
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {loading && !usage ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : usage && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Estimated spend</CardDescription>
+                  <CardTitle className="text-3xl">{formatUsd(usage.total.spentUsd)}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-muted-foreground">
+                  {usage.total.generations} generations • {Math.round(usage.total.seconds)}s of video
+                </CardContent>
+              </Card>
+              <Card className="md:col-span-2">
+                <CardHeader className="pb-2">
+                  <CardDescription>Monthly account budget</CardDescription>
+                  <CardTitle className="text-3xl">
+                    {usage.userBudgetUsd === null ? "No limit" : formatUsd(usage.userBudgetUsd)}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {userBudgetUsed !== null && (
+                    <>
+                      <Progress value={userBudgetUsed} />
+                      <p className="text-sm text-muted-foreground">
+                        {formatUsd(usage.total.spentUsd)} of {formatUsd(usage.userBudgetUsd!)} used
+                      </p>
+                    </>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    New scenes are refused once a budget would be exceeded. Costs are estimates based on model, resolution and duration.
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Spend by project</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Project</TableHead>
+                      <TableHead className="text-right">Generations</TableHead>
+                      <TableHead className="text-right">Seconds</TableHead>
+                      <TableHead className="text-right">Spend</TableHead>
+                      <TableHead className="text-right">Monthly budget (USD)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {usage.projects.map((project) => (
+                      <TableRow key={project.projectId ?? "deleted"}>
+                        <TableCell className="font-medium">{project.name}</TableCell>
+                        <TableCell className="text-right">{project.generations}</TableCell>
+                        <TableCell className="text-right">{Math.round(project.seconds)}</TableCell>
+                        <TableCell className={`text-right ${project.budgetUsd !== null && project.spentUsd >= project.budgetUsd ? "text-destructive" : ""}`}>
+                          {formatUsd(project.spentUsd)}
+                        </TableCell>
+                        <TableCell>
+                          <ProjectBudgetInput project={project} onSave={setProjectBudget} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Spend by shot type</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {usage.shotTypes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No generations this month</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Shot type</TableHead>
+                        <TableHead className="text-right">Generations</TableHead>
+                        <TableHead className="text-right">Seconds</TableHead>
+                        <TableHead className="text-right">Spend</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {usage.shotTypes.map((shotType) => (
+                        <TableRow key={shotType.shotTypeId ?? shotType.name}>
+                          <TableCell className="font-medium">{shotType.name}</TableCell>
+                          <TableCell className="text-right">{shotType.generations}</TableCell>
+                          <TableCell className="text-right">{Math.round(shotType.seconds)}</TableCell>
+                          <TableCell className="text-right">{formatUsd(shotType.spentUsd)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { isSceneTerminal, type SceneForCompletion } from "./sceneCompletion.ts";
+
+export interface BatchProgress {
+  total: number;
+  ready: number;
+  failed: number;
+  cancelled: number;
+  processing: number;
+  queued: number;
+  // Every scene reached a terminal status; clients stop polling then
+  done: boolean;
+}
+
+export function summarizeBatch(scenes: Pick<SceneForCompletion, "status" | "luma_status">[]): BatchProgress {
+  const progress = { total: scenes.length, ready: 0, failed: 0, cancelled: 0, processing: 0, queued: 0 };
+
+  for (const scene of scenes) {
+    if (scene.luma_status === 'completed') progress.ready++;
+    else if (scene.luma_status === 'cancelled') progress.cancelled++;
+    else if (isSceneTerminal(scene)) progress.failed++;
+    else if (scene.status === 'queued') progress.queued++;
+    else progress.processing++;
+  }
+
+  return { ...progress, done: scenes.every((scene) => isSceneTerminal(scene)) };
+}
@@ -0,0 +1,62 @@
+// Provider callbacks can't carry our credentials, so each scene gets a callback URL
+// with an HMAC of its id. Providers that can sign request bodies may instead send
+// X-Hub-Signature-256: sha256=<hex hmac of the raw body>.
+
+const encoder = new TextEncoder();
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export function signSceneCallback(secret: string, sceneId: string): Promise<string> {
+  return hmacHex(secret, `scene:${sceneId}`);
+}
+
+export async function verifySceneCallback(secret: string, sceneId: string, signature: string | null): Promise<boolean> {
+  if (!signature) return false;
+  return timingSafeEqual(await signSceneCallback(secret, sceneId), signature);
+}
+
+// The sequence renderer calls back the same way, keyed by the sequence_renders id
+export function signSequenceCallback(secret: string, renderId: string): Promise<string> {
+  return hmacHex(secret, `sequence:${renderId}`);
+}
+
+export async function verifySequenceCallback(secret: string, renderId: string, signature: string | null): Promise<boolean> {
+  if (!signature) return false;
+  return timingSafeEqual(await signSequenceCallback(secret, renderId), signature);
+}
+
+export async function verifyBodySignature(secret: string, rawBody: string, header: string | null): Promise<boolean> {
+  if (!header?.startsWith("sha256=")) return false;
+  return timingSafeEqual(await hmacHex(secret, rawBody), header.slice("sha256=".length));
+}
+
+// Returns undefined when callbacks are not configured, so generation falls back to polling only
+export async function buildSceneCallbackUrl(sceneId: string): Promise<string | undefined> {
+  const secret = Deno.env.get("LUMA_CALLBACK_SECRET");
+  const functionsUrl = Deno.env.get("CALLBACK_BASE_URL") || `${Deno.env.get("SUPABASE_URL")}/functions/v1`;
+  if (!secret) return undefined;
+
+  const signature = await signSceneCallback(secret, sceneId);
+  return `${functionsUrl}/luma-callback?scene=${encodeURIComponent(sceneId)}&sig=${signature}`;
+}
@@ -0,0 +1,116 @@
+import type { GenerationRequest, VideoProvider } from "./providers/index.ts";
+
+// Generation settings as stored in shot_types.generation_params and scenes.generation_params
+export interface GenerationParams {
+  model?: string;
+  resolution?: string;
+  aspect_ratio?: string;
+  duration?: string;
+  loop?: boolean;
+  concepts?: string[];
+}
+
+export type ResolvedGenerationParams = Required<GenerationParams>;
+
+const GENERATION_PARAM_KEYS: (keyof GenerationParams)[] = [
+  "model",
+  "resolution",
+  "aspect_ratio",
+  "duration",
+  "loop",
+  "concepts",
+];
+
+function checkOption(errors: string[], key: string, value: unknown, allowed: string[]) {
+  if (typeof value !== "string" || !allowed.includes(value)) {
+    errors.push(`${key} must be one of ${allowed.join(", ")}`);
+  }
+}
+
+// Validates a partial params object against what the provider supports.
+// Returns the list of problems; empty when the params are usable.
+export function validateGenerationParams(provider: VideoProvider, input: unknown): string[] {
+  if (input === undefined || input === null) return [];
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return ["generation_params must be an object"];
+  }
+
+  const errors: string[] = [];
+  const params = input as Record<string, unknown>;
+  const capabilities = provider.capabilities();
+
+  for (const key of Object.keys(params)) {
+    if (!GENERATION_PARAM_KEYS.includes(key as keyof GenerationParams)) {
+      errors.push(`Unknown generation parameter: ${key}`);
+    }
+  }
+
+  if (params.model !== undefined) checkOption(errors, "model", params.model, capabilities.models);
+  if (params.resolution !== undefined) checkOption(errors, "resolution", params.resolution, capabilities.resolutions);
+  if (params.aspect_ratio !== undefined) checkOption(errors, "aspect_ratio", params.aspect_ratio, capabilities.aspectRatios);
+  if (params.duration !== undefined) checkOption(errors, "duration", params.duration, capabilities.durations);
+
+  if (params.loop !== undefined) {
+    if (typeof params.loop !== "boolean") {
+      errors.push("loop must be a boolean");
+    } else if (params.loop && !capabilities.supportsLoop) {
+      errors.push(`${provider.id} does not support looping`);
+    }
+  }
+
+  if (params.concepts !== undefined) {
+    if (!Array.isArray(params.concepts)) {
+      errors.push("concepts must be an array");
+    } else {
+      const unknown = params.concepts.filter(
+        (concept) => typeof concept !== "string" || !capabilities.cameraConcepts.includes(concept)
+      );
+      if (unknown.length > 0) {
+        errors.push(`Unsupported camera concepts: ${unknown.join(", ")}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Merges params layers (later wins) over the provider defaults. Inputs must already be validated.
+export function resolveGenerationParams(
+  provider: VideoProvider,
+  ...layers: (GenerationParams | null | undefined)[]
+): ResolvedGenerationParams {
+  const capabilities = provider.capabilities();
+  const resolved: ResolvedGenerationParams = {
+    model: capabilities.defaultModel,
+    resolution: capabilities.defaultResolution,
+    aspect_ratio: capabilities.defaultAspectRatio,
+    duration: capabilities.defaultDuration,
+    loop: false,
+    concepts: [],
+  };
+
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const key of GENERATION_PARAM_KEYS) {
+      if (layer[key] !== undefined && layer[key] !== null) {
+        (resolved as Record<string, unknown>)[key] = layer[key];
+      }
+    }
+  }
+
+  resolved.concepts = Array.from(new Set(resolved.concepts));
+  return resolved;
+}
+
+export function toGenerationRequest(
+  params: ResolvedGenerationParams
+): Pick<GenerationRequest, "model" | "resolution" | "aspectRatio" | "duration" | "loop" | "concepts"> {
+  return {
+    model: params.model,
+    resolution: params.resolution,
+    aspectRatio: params.aspect_ratio,
+    duration: params.duration,
+    loop: params.loop,
+    concepts: params.concepts,
+  };
+}
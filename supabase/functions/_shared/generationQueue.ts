@@ -0,0 +1,285 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { getProvider } from "./providers/index.ts";
+import { buildSceneCallbackUrl } from "./callbackSignature.ts";
+import { resolveGenerationParams, toGenerationRequest, type GenerationParams } from "./generationParams.ts";
+import { recordFailedAttempt } from "./retryPolicy.ts";
+import { recordUsage } from "./usageLedger.ts";
+import { buildScenePrompt, type ScenePromptVars } from "./promptTemplate.ts";
+
+// Scenes never call the provider directly: each render is a generation_jobs row that
+// claim_generation_jobs hands out while these in-flight limits have room.
+export const MAX_CONCURRENT_SCENES_PER_USER = Number(Deno.env.get("MAX_CONCURRENT_SCENES_PER_USER") || 3);
+export const MAX_CONCURRENT_SCENES_GLOBAL = Number(Deno.env.get("MAX_CONCURRENT_SCENES_GLOBAL") || 20);
+
+const signedUrlTtl = parseInt(Deno.env.get("SIGNED_URL_TTL_SECONDS") || "3600");
+
+export const ACTIVE_JOB_STATUSES = ["queued", "submitting", "running"];
+
+export interface GenerationJob {
+  id: string;
+  scene_id: string;
+  user_id: string;
+  version: number;
+  status: string;
+  prompt: string | null;
+  start_generation_id: string | null;
+  provider_job_id: string | null;
+  enqueued_at: string;
+  started_at: string | null;
+}
+
+export interface QueueRunResult {
+  started: string[];
+  // Hit a transient provider error and went back into the queue with a backoff
+  retrying: string[];
+  failed: { sceneId: string; error: string }[];
+}
+
+export async function enqueueGeneration(
+  supabase: SupabaseClient,
+  job: { sceneId: string; userId: string; version: number; prompt?: string | null; startGenerationId?: string | null }
+): Promise<GenerationJob> {
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .insert({
+      scene_id: job.sceneId,
+      user_id: job.userId,
+      version: job.version,
+      prompt: job.prompt ?? null,
+      start_generation_id: job.startGenerationId ?? null
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to queue generation: ${error?.message || 'no job returned'}`);
+  }
+  return data;
+}
+
+// Closes the scene's unfinished job, freeing its in-flight slot
+export async function finishGenerationJob(
+  supabase: SupabaseClient,
+  sceneId: string,
+  status: 'completed' | 'failed' | 'cancelled',
+  lastError?: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('generation_jobs')
+    .update({ status, last_error: lastError ?? null, finished_at: new Date().toISOString() })
+    .eq('scene_id', sceneId)
+    .in('status', ACTIVE_JOB_STATUSES);
+
+  if (error) {
+    console.error(`Failed to finish generation job for scene ${sceneId}:`, error);
+  }
+}
+
+// 1-based position among the user's queued jobs, or null if the scene isn't waiting
+export async function queuePosition(supabase: SupabaseClient, sceneId: string): Promise<number | null> {
+  const { data: job } = await supabase
+    .from('generation_jobs')
+    .select('user_id, enqueued_at')
+    .eq('scene_id', sceneId)
+    .eq('status', 'queued')
+    .maybeSingle();
+
+  if (!job) return null;
+
+  const { count } = await supabase
+    .from('generation_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', job.user_id)
+    .eq('status', 'queued')
+    .lt('enqueued_at', job.enqueued_at);
+
+  return (count || 0) + 1;
+}
+
+async function signedUrl(supabase: SupabaseClient, storagePath: string | null): Promise<string | null> {
+  if (!storagePath) return null;
+  const { data, error } = await supabase.storage.from('media').createSignedUrl(storagePath, signedUrlTtl);
+  if (error) {
+    console.error('Failed to generate signed URL:', error);
+    return null;
+  }
+  return data.signedUrl;
+}
+
+async function failJob(supabase: SupabaseClient, job: GenerationJob, message: string): Promise<void> {
+  await finishGenerationJob(supabase, job.scene_id, 'failed', message);
+  await supabase
+    .from('scenes')
+    .update({ luma_status: 'failed', status: 'error', luma_error: message, updated_at: new Date().toISOString() })
+    .eq('id', job.scene_id)
+    .eq('version', job.version);
+}
+
+async function submitJob(
+  supabase: SupabaseClient,
+  job: GenerationJob,
+  correlationId: string
+): Promise<{ success: boolean; retrying?: boolean; error?: string }> {
+  const fail = async (message: string) => {
+    await failJob(supabase, job, message);
+    return { success: false, error: message };
+  };
+
+  const { data: scene } = await supabase
+    .from('scenes')
+    .select('id, user_id, project_id, folder, ordinal, version, shot_type_id, shot_type_name, shot_type_prompt, start_key, end_key, provider, generation_params, prompt_vars, prompt_override, prompt_override_mode, deleted_at')
+    .eq('id', job.scene_id)
+    .maybeSingle();
+
+  if (!scene || scene.deleted_at || scene.version !== job.version) {
+    // Deleted or superseded while waiting; nothing to render
+    await finishGenerationJob(supabase, job.scene_id, 'failed', 'Scene no longer needs this render');
+    return { success: false, error: 'Scene no longer needs this render' };
+  }
+
+  const provider = getProvider(scene.provider);
+  if (!provider) {
+    return fail(`Unknown video provider: ${scene.provider}`);
+  }
+
+  let prompt = job.prompt;
+  if (!prompt) {
+    // Renders with the template snapshotted when the scene was queued, so editing or deleting
+    // the shot type meanwhile doesn't change or break it
+    if (!scene.shot_type_prompt) {
+      return fail('Scene has no shot type prompt');
+    }
+    prompt = buildScenePrompt(
+      scene.shot_type_prompt as string,
+      { text: scene.prompt_override, mode: scene.prompt_override_mode },
+      { project: scene.folder, scene_ordinal: scene.ordinal, ...((scene.prompt_vars || {}) as ScenePromptVars) }
+    );
+  }
+
+  const startFrameUrl = job.start_generation_id ? null : await signedUrl(supabase, scene.start_key);
+  const endFrameUrl = await signedUrl(supabase, scene.end_key);
+
+  const generationResult = await provider.create({
+    prompt,
+    // Stored params are already resolved; older scenes may lack some, so fill in the provider defaults
+    ...toGenerationRequest(resolveGenerationParams(provider, scene.generation_params as GenerationParams | null)),
+    startFrameUrl,
+    startGenerationId: job.start_generation_id,
+    endFrameUrl,
+    callbackUrl: await buildSceneCallbackUrl(scene.id),
+  }, correlationId);
+
+  if (!generationResult.success || !generationResult.data) {
+    const error = generationResult.error || 'Provider call failed';
+    const attempt = await recordFailedAttempt(supabase, scene.id, {
+      phase: 'submit',
+      upstreamStatus: generationResult.upstreamStatus,
+      error
+    });
+
+    if (!attempt.retry) {
+      return fail(error);
+    }
+
+    // Back into the queue; claim_generation_jobs skips it until next_attempt_at
+    await supabase
+      .from('generation_jobs')
+      .update({ status: 'queued', next_attempt_at: attempt.retryAt, last_error: error })
+      .eq('id', job.id)
+      .eq('status', 'submitting');
+
+    return { success: false, retrying: true, error };
+  }
+
+  const providerJobId = generationResult.data.id;
+
+  const { data: running } = await supabase
+    .from('generation_jobs')
+    .update({ status: 'running', provider_job_id: providerJobId })
+    .eq('id', job.id)
+    .eq('status', 'submitting')
+    .select('id')
+    .maybeSingle();
+
+  if (!running) {
+    // Cancelled while the provider call was in flight
+    const cancelResult = await provider.cancel(providerJobId, correlationId);
+    if (!cancelResult.success) {
+      console.error(`[${correlationId}] Failed to cancel orphaned ${provider.id} job ${providerJobId}:`, cancelResult.error);
+    }
+    return { success: false, error: 'Cancelled before submission finished' };
+  }
+
+  // Provider job ids are stored in luma_job_id for all providers
+  const { error: updateError } = await supabase
+    .from('scenes')
+    .update({
+      luma_job_id: providerJobId,
+      // Exactly what the provider got, so good results can be reproduced
+      prompt,
+      status: 'processing',
+      luma_status: 'processing',
+      // Submitted, so any earlier backoff is over
+      next_retry_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', scene.id)
+    .eq('version', job.version);
+
+  if (updateError) {
+    console.error(`[${correlationId}] Failed to store job id for scene ${scene.id}:`, updateError);
+  }
+
+  await recordUsage(supabase, {
+    userId: scene.user_id,
+    projectId: scene.project_id,
+    sceneId: scene.id,
+    sceneVersion: job.version,
+    shotTypeId: scene.shot_type_id,
+    shotTypeName: scene.shot_type_name,
+    provider: provider.id,
+    params: scene.generation_params as GenerationParams | null,
+    providerJobId,
+    correlationId
+  });
+
+  return { success: true };
+}
+
+// The worker: claims every queued job that fits under the limits and submits it.
+// Run after enqueueing, after any scene finishes, and on the generation-worker cron.
+export async function runGenerationQueue(
+  supabase: SupabaseClient,
+  correlationId: string = crypto.randomUUID()
+): Promise<QueueRunResult> {
+  const result: QueueRunResult = { started: [], retrying: [], failed: [] };
+
+  const { data: jobs, error } = await supabase.rpc('claim_generation_jobs', {
+    p_user_max: MAX_CONCURRENT_SCENES_PER_USER,
+    p_global_max: MAX_CONCURRENT_SCENES_GLOBAL,
+  });
+
+  if (error) throw error;
+
+  for (const job of (jobs || []) as GenerationJob[]) {
+    try {
+      const submission = await submitJob(supabase, job, correlationId);
+      if (submission.success) {
+        result.started.push(job.scene_id);
+      } else if (submission.retrying) {
+        result.retrying.push(job.scene_id);
+      } else {
+        result.failed.push({ sceneId: job.scene_id, error: submission.error || 'Submission failed' });
+      }
+    } catch (submitError) {
+      await failJob(supabase, job, submitError.message);
+      result.failed.push({ sceneId: job.scene_id, error: submitError.message });
+    }
+  }
+
+  if (result.started.length || result.retrying.length || result.failed.length) {
+    console.log(`[${correlationId}] Generation queue started ${result.started.length} jobs (${result.retrying.length} retrying, ${result.failed.length} failed)`);
+  }
+
+  return result;
+}
@@ -0,0 +1,98 @@
+import type { GenerationParams } from "./generationParams.ts";
+import type { TimelineClip } from "./timelineManifests.ts";
+import { parseDurationSeconds } from "./usageLedger.ts";
+
+// What export-project writes about each scene. The scene row describes its latest render, but the
+// user may have pinned an older version, so everything about the exported render is read from
+// that version's scene_versions row.
+
+export interface ExportScene {
+  id: string;
+  ordinal: number;
+  active_version: number;
+}
+
+// render_meta is the snapshot sceneCompletion stores with each finished render
+export interface ExportVersion {
+  scene_id: string;
+  version: number;
+  video_url: string | null;
+  shot_type_name: string | null;
+  provider: string | null;
+  provider_model: string | null;
+  render_meta: {
+    provider?: string | null;
+    model?: string | null;
+    prompt?: string | null;
+    generation_params?: GenerationParams | null;
+  } | null;
+}
+
+export const EXPORT_VERSION_COLUMNS = 'scene_id, version, video_url, shot_type_name, provider, provider_model, render_meta';
+
+export interface ExportEntry {
+  scene: ExportScene;
+  // The scene_versions row of scene.active_version
+  version: ExportVersion;
+  videoKey: string;
+  fileName: string;
+  sizeBytes: number;
+}
+
+// Zero-padded so the archive lists scenes in ordinal order
+function entryFileName(ordinal: number) {
+  return `scene-${String(ordinal).padStart(3, '0')}.mp4`;
+}
+
+// Pairs each scene with the row of its active version, skipping any whose video is missing from
+// storage. sizes maps storage paths to their size in bytes.
+export function collectExportEntries(scenes: ExportScene[], versions: ExportVersion[], sizes: Map<string, number>) {
+  const entries: ExportEntry[] = [];
+  const skipped: { sceneId: string; ordinal: number }[] = [];
+
+  for (const scene of scenes) {
+    const version = versions.find((v) => v.scene_id === scene.id && v.version === scene.active_version);
+    const videoKey = version?.video_url;
+    const sizeBytes = videoKey ? sizes.get(videoKey) : undefined;
+    if (!version || !videoKey || sizeBytes === undefined) {
+      skipped.push({ sceneId: scene.id, ordinal: scene.ordinal });
+      continue;
+    }
+    entries.push({ scene, version, videoKey, fileName: entryFileName(scene.ordinal), sizeBytes });
+  }
+
+  return { entries, skipped };
+}
+
+export function buildManifest(folder: string, entries: ExportEntry[], skipped: { sceneId: string; ordinal: number }[]) {
+  return {
+    version: 1,
+    project: folder,
+    exportedAt: new Date().toISOString(),
+    scenes: entries.map(({ scene, version, fileName, sizeBytes }) => ({
+      ordinal: scene.ordinal,
+      file: fileName,
+      sceneId: scene.id,
+      version: version.version,
+      shotType: version.shot_type_name,
+      prompt: version.render_meta?.prompt ?? null,
+      provider: version.provider ?? version.render_meta?.provider ?? null,
+      model: version.provider_model ?? version.render_meta?.model ?? null,
+      sizeBytes
+    })),
+    skipped
+  };
+}
+
+// Renders from before durations were stored were all 5s
+export function toTimelineClip({ scene, version, fileName }: ExportEntry): TimelineClip {
+  return {
+    sceneId: scene.id,
+    ordinal: scene.ordinal,
+    version: version.version,
+    fileName,
+    durationSeconds: parseDurationSeconds(version.render_meta?.generation_params?.duration) || 5,
+    shotTypeName: version.shot_type_name,
+    prompt: version.render_meta?.prompt ?? null
+  };
+}
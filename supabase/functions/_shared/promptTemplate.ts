@@ -0,0 +1,109 @@
+// Shot type prompts are templates with {{variable}} placeholders, rendered when a render is
+// queued. Mirrors src/lib/promptTemplate.ts, which renders the preview in PhotoGrid.
+
+// Filled in by the server from the scene
+export const SYSTEM_PROMPT_VARIABLES = ["project", "scene_ordinal"] as const;
+// Entered by the user per scene and stored in scenes.prompt_vars
+export const SCENE_PROMPT_VARIABLES = ["subject", "mood"] as const;
+
+export type ScenePromptVars = Partial<Record<(typeof SCENE_PROMPT_VARIABLES)[number], string>>;
+
+export type PromptOverrideMode = "append" | "replace";
+
+const KNOWN_VARIABLES: readonly string[] = [...SYSTEM_PROMPT_VARIABLES, ...SCENE_PROMPT_VARIABLES];
+const MAX_PROMPT_VAR_LENGTH = 200;
+const MAX_PROMPT_OVERRIDE_LENGTH = 1000;
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+export function templateVariables(template: string): string[] {
+  return [...new Set([...template.matchAll(PLACEHOLDER)].map((match) => match[1]))];
+}
+
+// Returns the problems with a template; empty when it can be rendered
+export function validatePromptTemplate(template: string): string[] {
+  const errors: string[] = [];
+
+  const unknown = templateVariables(template).filter((name) => !KNOWN_VARIABLES.includes(name));
+  if (unknown.length > 0) {
+    errors.push(`Unknown template variables: ${unknown.join(", ")} (available: ${KNOWN_VARIABLES.join(", ")})`);
+  }
+
+  // Braces left after removing valid placeholders are malformed ones like "{{ mood" or "{{my var}}"
+  if (/\{\{|\}\}/.test(template.replace(PLACEHOLDER, ""))) {
+    errors.push("Template has a malformed placeholder; use {{name}}");
+  }
+
+  return errors;
+}
+
+// Validates user-entered scene variables; returns the problems, empty when usable
+export function validatePromptVars(input: unknown): string[] {
+  if (input === undefined || input === null) return [];
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return ["prompt_vars must be an object"];
+  }
+
+  const errors: string[] = [];
+  for (const [name, value] of Object.entries(input as Record<string, unknown>)) {
+    if (!(SCENE_PROMPT_VARIABLES as readonly string[]).includes(name)) {
+      errors.push(`Unknown prompt variable: ${name} (available: ${SCENE_PROMPT_VARIABLES.join(", ")})`);
+    } else if (typeof value !== "string") {
+      errors.push(`prompt_vars.${name} must be a string`);
+    } else if (value.length > MAX_PROMPT_VAR_LENGTH) {
+      errors.push(`prompt_vars.${name} must be at most ${MAX_PROMPT_VAR_LENGTH} characters`);
+    }
+  }
+  return errors;
+}
+
+// Validates a per-scene prompt override and its mode; returns the problems, empty when usable
+export function validatePromptOverride(override: unknown, mode: unknown): string[] {
+  const errors: string[] = [];
+
+  if (override !== undefined && override !== null) {
+    if (typeof override !== "string") {
+      errors.push("prompt_override must be a string");
+    } else if (override.length > MAX_PROMPT_OVERRIDE_LENGTH) {
+      errors.push(`prompt_override must be at most ${MAX_PROMPT_OVERRIDE_LENGTH} characters`);
+    } else {
+      errors.push(...validatePromptTemplate(override).map((e) => `prompt_override: ${e}`));
+    }
+  }
+
+  if (mode !== undefined && mode !== null && mode !== "append" && mode !== "replace") {
+    errors.push("prompt_override_mode must be append or replace");
+  }
+
+  return errors;
+}
+
+// Variables without a value render as empty text; the leftover whitespace is tidied up
+export function renderPromptTemplate(
+  template: string,
+  values: { project?: string; scene_ordinal?: number | null } & ScenePromptVars
+): string {
+  const lookup = values as Record<string, string | number | null | undefined>;
+
+  return template
+    .replace(PLACEHOLDER, (_, name: string) => {
+      const value = lookup[name];
+      return value === undefined || value === null ? "" : String(value).trim();
+    })
+    .replace(/[ \t]{2,}/g, " ")
+    .replace(/ +([,.;:!?])/g, "$1")
+    .trim();
+}
+
+// The prompt sent for a scene: the shot type template, with the scene's override appended to it
+// or used instead of it. Overrides may use the same variables.
+export function buildScenePrompt(
+  template: string,
+  override: { text?: string | null; mode?: PromptOverrideMode | string | null },
+  values: Parameters<typeof renderPromptTemplate>[1]
+): string {
+  const overrideText = override.text?.trim() ? renderPromptTemplate(override.text, values) : "";
+  if (overrideText && override.mode === "replace") return overrideText;
+
+  return [renderPromptTemplate(template, values), overrideText].filter(Boolean).join(" ");
+}
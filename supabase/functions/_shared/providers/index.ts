@@ -0,0 +1,26 @@
+import { lumaProvider } from "./luma.ts";
+import type { VideoProvider } from "./types.ts";
+
+export type {
+  GenerationRequest,
+  GenerationState,
+  GenerationStatus,
+  ProviderCapabilities,
+  ProviderResult,
+  VideoProvider,
+} from "./types.ts";
+
+// Register new backends here; the key is what gets stored in scenes.provider and shot_types.provider
+const providers: Record<string, VideoProvider> = {
+  [lumaProvider.id]: lumaProvider,
+};
+
+export const DEFAULT_PROVIDER_ID = Deno.env.get("VIDEO_PROVIDER") || lumaProvider.id;
+
+export function getProvider(id?: string | null): VideoProvider | null {
+  return providers[id || DEFAULT_PROVIDER_ID] || null;
+}
+
+export function listProviders(): string[] {
+  return Object.keys(providers);
+}
@@ -0,0 +1,189 @@
+import type {
+  GenerationRequest,
+  GenerationState,
+  GenerationStatus,
+  ProviderCapabilities,
+  ProviderResult,
+  VideoProvider,
+} from "./types.ts";
+
+const lumaApiKey = Deno.env.get("LUMA_API_KEY") || "";
+const lumaApiBase = Deno.env.get("LUMA_API_BASE") || "https://api.lumalabs.ai/dream-machine/v1";
+
+const LUMA_CAPABILITIES: ProviderCapabilities = {
+  models: ["ray-2", "ray-flash-2", "ray-1-6"],
+  defaultModel: "ray-flash-2",
+  resolutions: ["540p", "720p", "1080p", "4k"],
+  defaultResolution: "1080p",
+  aspectRatios: ["1:1", "16:9", "9:16", "4:3", "3:4", "21:9", "9:21"],
+  defaultAspectRatio: "16:9",
+  durations: ["5s", "9s"],
+  defaultDuration: "5s",
+  cameraConcepts: [
+    "static", "handheld", "zoom_in", "zoom_out", "push_in", "pull_out", "dolly_zoom",
+    "pan_left", "pan_right", "tilt_up", "tilt_down", "truck_left", "truck_right",
+    "pedestal_up", "pedestal_down", "orbit_left", "orbit_right", "crane_up", "crane_down",
+    "roll_left", "roll_right", "aerial", "aerial_drone", "overhead", "high_angle", "low_angle",
+    "eye_level", "ground_level", "over_the_shoulder", "pov", "selfie", "bolt_cam",
+    "tiny_planet", "elevator_doors",
+  ],
+  supportsKeyframes: true,
+  supportsExtend: true,
+  supportsLoop: true,
+  supportsCancel: true,
+};
+
+interface LumaGeneration {
+  id: string;
+  state?: string;
+  // Older responses used `status`/`error` instead of `state`/`failure_reason`
+  status?: string;
+  failure_reason?: string | null;
+  error?: string | null;
+  assets?: { video?: string | null; image?: string | null } | null;
+  progress?: number;
+}
+
+function normalizeState(state: string | undefined): GenerationState {
+  switch (state) {
+    case "completed":
+      return "completed";
+    case "failed":
+      return "failed";
+    case "dreaming":
+    case "processing":
+      return "processing";
+    default:
+      return "queued";
+  }
+}
+
+function toGenerationStatus(generation: LumaGeneration): GenerationStatus {
+  const rawState = generation.state ?? generation.status;
+  return {
+    id: generation.id,
+    state: normalizeState(rawState),
+    rawState,
+    error: generation.failure_reason || generation.error || undefined,
+    videoUrl: generation.assets?.video || undefined,
+    posterUrl: generation.assets?.image || undefined,
+    progress: generation.progress,
+  };
+}
+
+// ray-1-6 predates the resolution and duration parameters and rejects them
+const LEGACY_MODELS = ["ray-1-6"];
+
+function buildPayload(request: GenerationRequest): Record<string, unknown> {
+  const model = request.model || LUMA_CAPABILITIES.defaultModel;
+  const payload: Record<string, unknown> = {
+    prompt: request.prompt,
+    model,
+    loop: request.loop ?? false,
+  };
+
+  if (!LEGACY_MODELS.includes(model)) {
+    payload.resolution = request.resolution || LUMA_CAPABILITIES.defaultResolution;
+    if (request.duration) payload.duration = request.duration;
+  }
+  if (request.aspectRatio) payload.aspect_ratio = request.aspectRatio;
+  if (request.concepts?.length) payload.concepts = request.concepts.map((key) => ({ key }));
+  if (request.callbackUrl) payload.callback_url = request.callbackUrl;
+
+  const keyframes: Record<string, { type: "image"; url: string } | { type: "generation"; id: string }> = {};
+  if (request.startGenerationId) {
+    keyframes.frame0 = { type: "generation", id: request.startGenerationId };
+  } else if (request.startFrameUrl) {
+    keyframes.frame0 = { type: "image", url: request.startFrameUrl };
+  }
+  if (request.endFrameUrl) keyframes.frame1 = { type: "image", url: request.endFrameUrl };
+  if (Object.keys(keyframes).length > 0) payload.keyframes = keyframes;
+
+  return payload;
+}
+
+async function request<T>(
+  path: string,
+  init: RequestInit,
+  correlationId: string
+): Promise<ProviderResult<T>> {
+  try {
+    const response = await fetch(`${lumaApiBase}${path}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${lumaApiKey}`,
+        'Content-Type': 'application/json',
+        ...(init.headers || {}),
+      },
+    });
+
+    const responseText = await response.text();
+    console.log(`[${correlationId}] Luma ${init.method || 'GET'} ${path} -> ${response.status}`);
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: `Luma API returned ${response.status}: ${responseText}`,
+        upstreamStatus: response.status,
+      };
+    }
+
+    const data = responseText ? JSON.parse(responseText) : null;
+    return { success: true, data, upstreamStatus: response.status };
+  } catch (error) {
+    console.error(`[${correlationId}] Luma API call failed:`, error);
+    return {
+      success: false,
+      error: `Luma API call failed: ${error.message}`,
+      upstreamStatus: 0,
+    };
+  }
+}
+
+export const lumaProvider: VideoProvider = {
+  id: "luma",
+
+  capabilities() {
+    return LUMA_CAPABILITIES;
+  },
+
+  async create(generationRequest, correlationId) {
+    const payload = buildPayload(generationRequest);
+    console.log(`[${correlationId}] Calling Luma Dream Machine v1 API with payload:`, JSON.stringify(payload, null, 2));
+
+    const result = await request<LumaGeneration>(
+      "/generations",
+      { method: "POST", body: JSON.stringify(payload) },
+      correlationId
+    );
+    if (!result.success) return { ...result, data: undefined };
+
+    return { ...result, data: toGenerationStatus(result.data!) };
+  },
+
+  async status(jobId, correlationId) {
+    const result = await request<LumaGeneration>(
+      `/generations/${jobId}`,
+      { method: "GET" },
+      correlationId
+    );
+    if (!result.success) return { ...result, data: undefined };
+
+    return { ...result, data: toGenerationStatus(result.data!) };
+  },
+
+  async cancel(jobId, correlationId) {
+    const result = await request<unknown>(
+      `/generations/${jobId}`,
+      { method: "DELETE" },
+      correlationId
+    );
+    return { ...result, data: null };
+  },
+
+  parseCallback(payload) {
+    const generation = payload as LumaGeneration | null;
+    if (!generation || typeof generation.id !== "string") return null;
+    return toGenerationStatus(generation);
+  },
+};
@@ -0,0 +1,66 @@
+// Provider-neutral contract for text/image-to-video backends.
+// Edge functions talk to this interface only; each backend lives in its own adapter.
+
+export type GenerationState = "queued" | "processing" | "completed" | "failed";
+
+export interface GenerationRequest {
+  prompt: string;
+  model?: string;
+  resolution?: string;
+  aspectRatio?: string;
+  duration?: string;
+  loop?: boolean;
+  // Camera motion concepts, e.g. "dolly_zoom"
+  concepts?: string[];
+  startFrameUrl?: string | null;
+  endFrameUrl?: string | null;
+  // Continue from the last frame of an earlier generation instead of a start image
+  startGenerationId?: string | null;
+  callbackUrl?: string;
+}
+
+export interface GenerationStatus {
+  id: string;
+  state: GenerationState;
+  // State string exactly as reported by the provider, kept for debugging
+  rawState?: string;
+  error?: string;
+  videoUrl?: string;
+  // Still frame of the finished video, when the provider renders one
+  posterUrl?: string;
+  progress?: number;
+}
+
+export interface ProviderCapabilities {
+  models: string[];
+  defaultModel: string;
+  resolutions: string[];
+  defaultResolution: string;
+  aspectRatios: string[];
+  defaultAspectRatio: string;
+  durations: string[];
+  defaultDuration: string;
+  cameraConcepts: string[];
+  supportsKeyframes: boolean;
+  supportsExtend: boolean;
+  supportsLoop: boolean;
+  supportsCancel: boolean;
+}
+
+export interface ProviderResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  // HTTP status returned by the provider, 0 for network failures
+  upstreamStatus?: number;
+}
+
+export interface VideoProvider {
+  readonly id: string;
+  capabilities(): ProviderCapabilities;
+  create(request: GenerationRequest, correlationId: string): Promise<ProviderResult<GenerationStatus>>;
+  status(jobId: string, correlationId: string): Promise<ProviderResult<GenerationStatus>>;
+  cancel(jobId: string, correlationId: string): Promise<ProviderResult<null>>;
+  // Normalizes a callback body posted by the provider; null when it isn't a generation payload
+  parseCallback(payload: unknown): GenerationStatus | null;
+}
@@ -0,0 +1,99 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+
+// Transient provider failures (rate limits, 5xx, network) are retried with exponential
+// backoff instead of failing the scene.
+
+export interface RetryPolicy {
+  // Failed upstream calls allowed per render before the scene is marked failed
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const RETRY_POLICY: RetryPolicy = {
+  maxAttempts: Number(Deno.env.get("GENERATION_MAX_ATTEMPTS") || 3),
+  baseDelayMs: Number(Deno.env.get("RETRY_BASE_DELAY_SECONDS") || 30) * 1000,
+  maxDelayMs: Number(Deno.env.get("RETRY_MAX_DELAY_SECONDS") || 600) * 1000,
+};
+
+// Keep the log bounded; attempts still counts every failure
+const MAX_ATTEMPT_LOG_ENTRIES = 20;
+
+export type AttemptPhase = "submit" | "status";
+
+export interface AttemptRecord {
+  attempt: number;
+  phase: AttemptPhase;
+  at: string;
+  upstreamStatus: number | null;
+  error: string;
+  retryAt: string | null;
+}
+
+export interface AttemptOutcome {
+  retry: boolean;
+  attempts: number;
+  retryAt: string | null;
+}
+
+// upstreamStatus is 0 for network failures (see ProviderResult)
+export function isRetryableUpstreamStatus(upstreamStatus: number | undefined): boolean {
+  if (upstreamStatus === undefined) return false;
+  return upstreamStatus === 0 ||
+    upstreamStatus === 408 ||
+    upstreamStatus === 425 ||
+    upstreamStatus === 429 ||
+    upstreamStatus >= 500;
+}
+
+// Delay before retry number `attempt` (1-based): base * 2^(attempt-1), capped, with ±20% jitter
+export function retryDelayMs(attempt: number, policy: RetryPolicy = RETRY_POLICY): number {
+  const exponential = Math.min(policy.baseDelayMs * 2 ** Math.max(attempt - 1, 0), policy.maxDelayMs);
+  return Math.round(exponential * (0.8 + Math.random() * 0.4));
+}
+
+// Logs a failed upstream call on the scene and decides whether it gets another try.
+export async function recordFailedAttempt(
+  supabase: SupabaseClient,
+  sceneId: string,
+  failure: { phase: AttemptPhase; upstreamStatus?: number; error: string },
+  policy: RetryPolicy = RETRY_POLICY
+): Promise<AttemptOutcome> {
+  const { data: scene } = await supabase
+    .from('scenes')
+    .select('attempts, attempt_log')
+    .eq('id', sceneId)
+    .single();
+
+  const attempts = (scene?.attempts || 0) + 1;
+  const retry = isRetryableUpstreamStatus(failure.upstreamStatus) && attempts < policy.maxAttempts;
+  const retryAt = retry ? new Date(Date.now() + retryDelayMs(attempts, policy)).toISOString() : null;
+
+  const record: AttemptRecord = {
+    attempt: attempts,
+    phase: failure.phase,
+    at: new Date().toISOString(),
+    upstreamStatus: failure.upstreamStatus ?? null,
+    error: failure.error,
+    retryAt,
+  };
+  const attemptLog = [...((scene?.attempt_log as AttemptRecord[]) || []), record].slice(-MAX_ATTEMPT_LOG_ENTRIES);
+
+  const { error: updateError } = await supabase
+    .from('scenes')
+    .update({
+      attempts,
+      attempt_log: attemptLog,
+      next_retry_at: retryAt,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', sceneId);
+
+  if (updateError) {
+    console.error(`Failed to record attempt for scene ${sceneId}:`, updateError);
+  }
+
+  console.log(`Scene ${sceneId} ${failure.phase} attempt ${attempts} failed (${failure.upstreamStatus ?? 'n/a'})${retry ? `, retrying at ${retryAt}` : ''}`);
+
+  return { retry, attempts, retryAt };
+}
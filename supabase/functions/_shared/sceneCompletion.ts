@@ -0,0 +1,314 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import type { GenerationStatus } from "./providers/index.ts";
+import type { GenerationParams } from "./generationParams.ts";
+import { finishGenerationJob, runGenerationQueue } from "./generationQueue.ts";
+import { createSceneThumbnails } from "./sceneThumbnails.ts";
+
+// Columns applyGenerationStatus needs; select at least these from `scenes`
+export const SCENE_COMPLETION_COLUMNS =
+  "id, user_id, folder, ordinal, version, status, luma_job_id, luma_status, luma_error, next_retry_at, provider, provider_model, generation_params, prompt, shot_type_id, shot_type_name";
+
+export interface SceneForCompletion {
+  id: string;
+  user_id: string;
+  folder: string;
+  ordinal: number | null;
+  version: number | null;
+  status: string | null;
+  luma_job_id: string | null;
+  luma_status: string | null;
+  luma_error: string | null;
+  // Set while backing off after a failed provider call; cleared once the provider answers again
+  next_retry_at: string | null;
+  provider: string;
+  provider_model: string | null;
+  generation_params: GenerationParams | null;
+  prompt: string | null;
+  shot_type_id: string | null;
+  shot_type_name: string | null;
+}
+
+export interface SceneOutcome {
+  sceneId: string;
+  status: string;
+  lumaStatus: string;
+  lumaError?: string;
+  videoUrl?: string;
+  progress?: number;
+  isTerminal: boolean;
+}
+
+const TERMINAL_LUMA_STATUSES = ["completed", "failed", "cancelled"];
+
+export function isSceneTerminal(scene: Pick<SceneForCompletion, "luma_status">): boolean {
+  return TERMINAL_LUMA_STATUSES.includes(scene.luma_status || "");
+}
+
+export function terminalOutcome(scene: SceneForCompletion): SceneOutcome {
+  return {
+    sceneId: scene.id,
+    status: scene.status || "error",
+    lumaStatus: scene.luma_status || "failed",
+    lumaError: scene.luma_error || undefined,
+    isTerminal: true,
+  };
+}
+
+// A version's stored files, by the scene_versions column holding each key
+export const SCENE_FILE_SUFFIXES = {
+  video_url: ".mp4",
+  poster_url: ".jpg",
+  preview_url: "-preview.webp",
+} as const;
+
+export type SceneFileColumn = keyof typeof SCENE_FILE_SUFFIXES;
+
+export function sceneFileKey(
+  scene: Pick<SceneForCompletion, "user_id" | "folder" | "ordinal">,
+  version: number,
+  column: SceneFileColumn
+): string {
+  return `users/${scene.user_id}/Scenes/${scene.folder}/scene-${scene.ordinal}-v${version}${SCENE_FILE_SUFFIXES[column]}`;
+}
+
+export function sceneVideoKey(scene: Pick<SceneForCompletion, "user_id" | "folder" | "ordinal">, version: number): string {
+  return sceneFileKey(scene, version, "video_url");
+}
+
+async function uploadVideoToStorage(
+  supabase: SupabaseClient,
+  videoUrl: string,
+  filePath: string
+): Promise<{ success: boolean; videoKey?: string; error?: string }> {
+  try {
+    console.log(`Downloading video from: ${videoUrl}`);
+
+    const response = await fetch(videoUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to download video: ${response.status} ${response.statusText}`);
+    }
+
+    const videoBlob = await response.blob();
+
+    console.log(`Uploading video to storage path: ${filePath}`);
+
+    const { error: uploadError } = await supabase.storage
+      .from('media')
+      .upload(filePath, videoBlob, {
+        contentType: 'video/mp4',
+        upsert: true
+      });
+
+    if (uploadError) {
+      throw uploadError;
+    }
+
+    console.log(`Video uploaded successfully to: ${filePath}`);
+    return { success: true, videoKey: filePath };
+  } catch (error) {
+    console.error('Failed to upload video to storage:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+// The scene's state as stored, for a provider update that arrived too late to apply
+async function currentOutcome(supabase: SupabaseClient, scene: SceneForCompletion): Promise<SceneOutcome> {
+  const { data: current } = await supabase
+    .from('scenes')
+    .select('status, luma_status, luma_error')
+    .eq('id', scene.id)
+    .maybeSingle();
+
+  const stored = { ...scene, ...(current || {}) };
+  return isSceneTerminal(stored)
+    ? terminalOutcome(stored)
+    : { sceneId: scene.id, status: stored.status || 'processing', lumaStatus: stored.luma_status || 'pending', isTerminal: false };
+}
+
+export async function markSceneFailed(
+  supabase: SupabaseClient,
+  scene: SceneForCompletion,
+  lumaError: string
+): Promise<SceneOutcome> {
+  const { error: updateError } = await supabase
+    .from('scenes')
+    .update({
+      luma_status: 'failed',
+      status: 'error',
+      luma_error: lumaError,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', scene.id)
+    .eq('user_id', scene.user_id)
+    .neq('luma_status', 'cancelled');
+
+  if (updateError) {
+    console.error('Failed to update scene error status:', updateError);
+  }
+
+  await finishGenerationJob(supabase, scene.id, 'failed', lumaError);
+
+  return {
+    sceneId: scene.id,
+    status: 'error',
+    lumaStatus: 'failed',
+    lumaError,
+    isTerminal: true,
+  };
+}
+
+// Applies a provider generation status to a scene: on completion the video is copied into
+// users/{uid}/Scenes/{folder}/ with its poster and preview, a scene_versions row is written
+// and the scene marked ready.
+// Shared by client polling (luma-scene-status) and provider callbacks (luma-callback).
+// A finished scene frees a generation slot, so the queue is run to start whatever is waiting.
+export async function applyGenerationStatus(
+  supabase: SupabaseClient,
+  scene: SceneForCompletion,
+  generation: GenerationStatus
+): Promise<SceneOutcome> {
+  const outcome = await applyStatus(supabase, scene, generation);
+
+  if (outcome.isTerminal) {
+    try {
+      await runGenerationQueue(supabase);
+    } catch (error) {
+      console.error('Failed to run generation queue:', error);
+    }
+  }
+
+  return outcome;
+}
+
+async function applyStatus(
+  supabase: SupabaseClient,
+  scene: SceneForCompletion,
+  generation: GenerationStatus
+): Promise<SceneOutcome> {
+  const version = scene.version || 1;
+
+  if (generation.state === 'completed') {
+    console.log(`Scene ${scene.id} completed on ${scene.provider}, downloading video...`);
+
+    if (!generation.videoUrl) {
+      return markSceneFailed(supabase, scene, 'No video URL in completed provider response');
+    }
+
+    const uploadResult = await uploadVideoToStorage(supabase, generation.videoUrl, sceneVideoKey(scene, version));
+    if (!uploadResult.success) {
+      return markSceneFailed(supabase, scene, uploadResult.error || 'Failed to upload video');
+    }
+
+    const thumbnails = await createSceneThumbnails(supabase, {
+      videoKey: uploadResult.videoKey!,
+      posterKey: sceneFileKey(scene, version, 'poster_url'),
+      previewKey: sceneFileKey(scene, version, 'preview_url')
+    }, generation.posterUrl);
+
+    // Guarded like luma-cancel-scene's update: a cancel (or a newer render) that landed while this
+    // one was downloading wins, and the render is dropped
+    const { data: completed, error: updateError } = await supabase
+      .from('scenes')
+      .update({
+        luma_status: 'completed',
+        status: 'ready',
+        // A fresh render becomes active; older versions stay available to pin via scene-versions
+        active_version: version,
+        next_retry_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', scene.id)
+      .eq('user_id', scene.user_id)
+      .eq('version', version)
+      .neq('luma_status', 'cancelled')
+      .select('id')
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Failed to update scene status:', updateError);
+    }
+
+    if (!completed) {
+      console.log(`Scene ${scene.id} v${version} was cancelled or replaced before it completed; not recording it`);
+      return currentOutcome(supabase, scene);
+    }
+
+    const { error: versionError } = await supabase
+      .from('scene_versions')
+      .upsert({
+        scene_id: scene.id,
+        version,
+        video_url: uploadResult.videoKey,
+        poster_url: thumbnails.posterKey,
+        preview_url: thumbnails.previewKey,
+        provider: scene.provider,
+        provider_model: scene.provider_model,
+        shot_type_id: scene.shot_type_id,
+        shot_type_name: scene.shot_type_name,
+        render_meta: {
+          provider: scene.provider,
+          model: scene.provider_model,
+          generation_params: scene.generation_params,
+          prompt: scene.prompt,
+          luma_job_id: scene.luma_job_id,
+          video_url: generation.videoUrl,
+          uploaded_at: new Date().toISOString()
+        }
+      }, { onConflict: 'scene_id,version' });
+
+    if (versionError) {
+      console.error('Failed to create scene version:', versionError);
+    }
+
+    await finishGenerationJob(supabase, scene.id, 'completed');
+
+    return {
+      sceneId: scene.id,
+      status: 'ready',
+      lumaStatus: 'completed',
+      videoUrl: uploadResult.videoKey,
+      isTerminal: true,
+    };
+  }
+
+  if (generation.state === 'failed') {
+    console.log(`Scene ${scene.id} failed:`, generation.error);
+    return markSceneFailed(supabase, scene, generation.error || 'Scene generation failed');
+  }
+
+  // Queued or processing. Polls that see no change leave the row (and its updated_at) alone, so
+  // the reconciler can tell a render that stopped moving from one that is progressing.
+  if (scene.luma_status === generation.state && scene.status === 'processing' && !scene.next_retry_at) {
+    return {
+      sceneId: scene.id,
+      status: 'processing',
+      lumaStatus: generation.state,
+      progress: generation.progress,
+      isTerminal: false,
+    };
+  }
+
+  const { error: updateError } = await supabase
+    .from('scenes')
+    .update({
+      luma_status: generation.state,
+      status: 'processing',
+      next_retry_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', scene.id)
+    .eq('user_id', scene.user_id)
+    .neq('luma_status', 'cancelled');
+
+  if (updateError) {
+    console.error('Failed to update scene processing status:', updateError);
+  }
+
+  return {
+    sceneId: scene.id,
+    status: 'processing',
+    lumaStatus: generation.state,
+    progress: generation.progress,
+    isTerminal: false,
+  };
+}
@@ -0,0 +1,54 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+
+export interface ParentScene {
+  id: string;
+  project_id: string | null;
+  folder: string;
+  start_key: string;
+  end_key: string | null;
+  provider: string;
+}
+
+export type ParentGenerationResult =
+  | { ok: true; parent: ParentScene; generationId: string; version: number }
+  | { ok: false; status: number; code: string; message: string };
+
+// Finds the provider generation behind a parent scene's active version so a child scene
+// can start from its final frame. Shared by luma-create-scene (extend) and luma-regenerate-scene.
+export async function resolveParentGeneration(
+  supabase: SupabaseClient,
+  parentSceneId: string,
+  userId: string
+): Promise<ParentGenerationResult> {
+  const { data: parent, error: parentError } = await supabase
+    .from('scenes')
+    .select('id, project_id, folder, start_key, end_key, provider, version, active_version')
+    .eq('id', parentSceneId)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .single();
+
+  if (parentError || !parent) {
+    return { ok: false, status: 404, code: 'PARENT_NOT_FOUND', message: 'Parent scene not found' };
+  }
+
+  const version = parent.active_version ?? parent.version;
+  const { data: parentVersion } = await supabase
+    .from('scene_versions')
+    .select('version, render_meta')
+    .eq('scene_id', parentSceneId)
+    .eq('version', version)
+    .maybeSingle();
+
+  const generationId = parentVersion?.render_meta?.luma_job_id;
+  if (typeof generationId !== 'string' || !generationId) {
+    return {
+      ok: false,
+      status: 409,
+      code: 'PARENT_NOT_READY',
+      message: 'Parent scene has no completed render to extend'
+    };
+  }
+
+  return { ok: true, parent, generationId, version };
+}
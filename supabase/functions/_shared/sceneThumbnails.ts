@@ -0,0 +1,109 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+
+// Edge functions can't decode video, so frames come from elsewhere: the provider's own still when
+// it returns one, and an optional thumbnail worker that reads the stored video and uploads the
+// poster and animated preview itself through signed upload URLs. Thumbnails are best effort; a
+// render never fails because of them.
+const thumbnailUrl = Deno.env.get("SCENE_THUMBNAIL_URL");
+const thumbnailToken = Deno.env.get("SCENE_THUMBNAIL_TOKEN");
+const thumbnailTimeoutSeconds = parseInt(Deno.env.get("SCENE_THUMBNAIL_TIMEOUT_SECONDS") || "30");
+const previewSeconds = Number(Deno.env.get("SCENE_PREVIEW_SECONDS") || 3);
+const previewWidth = parseInt(Deno.env.get("SCENE_PREVIEW_WIDTH") || "320");
+
+export interface SceneThumbnailKeys {
+  videoKey: string;
+  posterKey: string;
+  previewKey: string;
+}
+
+export interface SceneThumbnails {
+  posterKey: string | null;
+  previewKey: string | null;
+}
+
+async function copyProviderPoster(supabase: SupabaseClient, posterUrl: string, posterKey: string): Promise<boolean> {
+  try {
+    const response = await fetch(posterUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to download poster: ${response.status} ${response.statusText}`);
+    }
+
+    const { error } = await supabase.storage
+      .from('media')
+      .upload(posterKey, await response.blob(), {
+        contentType: 'image/jpeg',
+        upsert: true
+      });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error(`Failed to store provider poster at ${posterKey}:`, error);
+    return false;
+  }
+}
+
+async function signedUploadUrl(supabase: SupabaseClient, key: string): Promise<string | null> {
+  const { data, error } = await supabase.storage
+    .from('media')
+    .createSignedUploadUrl(key, { upsert: true });
+
+  if (error || !data) {
+    console.error(`Failed to sign upload for ${key}:`, error);
+    return null;
+  }
+  return data.signedUrl;
+}
+
+// Stores a poster JPEG and an animated WebP preview next to a freshly uploaded scene video and
+// returns the keys that were written
+export async function createSceneThumbnails(
+  supabase: SupabaseClient,
+  keys: SceneThumbnailKeys,
+  providerPosterUrl?: string
+): Promise<SceneThumbnails> {
+  const result: SceneThumbnails = { posterKey: null, previewKey: null };
+
+  if (providerPosterUrl && await copyProviderPoster(supabase, providerPosterUrl, keys.posterKey)) {
+    result.posterKey = keys.posterKey;
+  }
+
+  if (!thumbnailUrl) return result;
+
+  try {
+    const { data: video, error: signError } = await supabase.storage
+      .from('media')
+      .createSignedUrl(keys.videoKey, thumbnailTimeoutSeconds + 60);
+    if (signError || !video) throw signError || new Error('Failed to sign video URL');
+
+    const posterUploadUrl = result.posterKey ? null : await signedUploadUrl(supabase, keys.posterKey);
+    const previewUploadUrl = await signedUploadUrl(supabase, keys.previewKey);
+    if (!posterUploadUrl && !previewUploadUrl) return result;
+
+    const response = await fetch(thumbnailUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(thumbnailToken ? { Authorization: `Bearer ${thumbnailToken}` } : {})
+      },
+      body: JSON.stringify({
+        video_url: video.signedUrl,
+        poster: posterUploadUrl ? { upload_url: posterUploadUrl } : null,
+        preview: previewUploadUrl ? { upload_url: previewUploadUrl, seconds: previewSeconds, width: previewWidth } : null
+      }),
+      signal: AbortSignal.timeout(thumbnailTimeoutSeconds * 1000)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Thumbnail worker responded ${response.status}`);
+    }
+
+    // A 2xx means both files are in place
+    if (posterUploadUrl) result.posterKey = keys.posterKey;
+    if (previewUploadUrl) result.previewKey = keys.previewKey;
+  } catch (error) {
+    console.error(`Failed to create thumbnails for ${keys.videoKey}:`, error);
+  }
+
+  return result;
+}
@@ -0,0 +1,121 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { SCENE_FILE_SUFFIXES, sceneFileKey, type SceneFileColumn } from "./sceneCompletion.ts";
+
+// Keeps stored file names in step with scene ordinals for scene-timeline. reorder_scenes numbers
+// deleted scenes after the live ones and restore_scene gives a restored scene a free number, so
+// every file a scene_versions row refers to has a name no other scene wants.
+
+interface VersionFile {
+  scene_id: string;
+  version: number;
+  column: SceneFileColumn;
+  key: string;
+}
+
+const FILE_COLUMNS = Object.keys(SCENE_FILE_SUFFIXES) as SceneFileColumn[];
+
+// Moves a stored file and points its scene_versions column at the new key. A destination left
+// behind by a hard-deleted scene (no version row refers to it) is removed and the move retried.
+async function moveVersionFile(supabase: SupabaseClient, file: VersionFile, toKey: string): Promise<boolean> {
+  let { error } = await supabase.storage.from('media').move(file.key, toKey);
+
+  if (error) {
+    const { count } = await supabase
+      .from('scene_versions')
+      .select('id', { count: 'exact', head: true })
+      .eq(file.column, toKey);
+
+    if (count === 0) {
+      await supabase.storage.from('media').remove([toKey]);
+      ({ error } = await supabase.storage.from('media').move(file.key, toKey));
+    }
+  }
+
+  if (error) {
+    console.error(`Failed to move ${file.key} to ${toKey}:`, error);
+    return false;
+  }
+
+  const { error: updateError } = await supabase
+    .from('scene_versions')
+    .update({ [file.column]: toKey })
+    .eq('scene_id', file.scene_id)
+    .eq('version', file.version);
+
+  if (updateError) {
+    console.error(`Moved ${file.key} to ${toKey} but failed to update its version row:`, updateError);
+    return false;
+  }
+
+  file.key = toKey;
+  return true;
+}
+
+// Renames the videos, posters and previews of the given scenes to match their ordinals
+// (scene-{ordinal}-v{n}.mp4, .jpg, -preview.webp). Files are first moved to names unique to their
+// scene so that swapped ordinals don't collide. Every move updates its scene_versions column, so
+// rows always point at the real file even if a rename fails part way; saving the timeline again
+// retries the files still misnamed.
+export async function renameSceneFiles(
+  supabase: SupabaseClient,
+  userId: string,
+  folder: string,
+  ordinals: Map<string, number>
+): Promise<{ renamed: number; failed: number }> {
+  const { data: versions, error } = await supabase
+    .from('scene_versions')
+    .select('scene_id, version, video_url, poster_url, preview_url')
+    .in('scene_id', [...ordinals.keys()]);
+
+  if (error) throw error;
+
+  const files: VersionFile[] = (versions || []).flatMap((row) =>
+    FILE_COLUMNS.flatMap((column) => row[column]
+      ? [{ scene_id: row.scene_id, version: row.version, column, key: row[column] as string }]
+      : []));
+
+  const targetKey = (file: VersionFile) =>
+    sceneFileKey({ user_id: userId, folder, ordinal: ordinals.get(file.scene_id)! }, file.version, file.column);
+  const misnamed = files.filter((file) => file.key !== targetKey(file));
+
+  let failed = 0;
+  const staged: VersionFile[] = [];
+  for (const file of misnamed) {
+    const stagingKey = `users/${userId}/Scenes/${folder}/.reorder-${file.scene_id}-v${file.version}${SCENE_FILE_SUFFIXES[file.column]}`;
+    // Already staged by an earlier save that failed part way
+    if (file.key === stagingKey || await moveVersionFile(supabase, file, stagingKey)) staged.push(file);
+    else failed++;
+  }
+
+  let renamed = 0;
+  for (const file of staged) {
+    if (await moveVersionFile(supabase, file, targetKey(file))) renamed++;
+    else failed++;
+  }
+
+  return { renamed, failed };
+}
+
+// Undoes a soft delete. The scene keeps its ordinal unless another scene took it meanwhile, in
+// which case it moves to the end of the timeline and its files follow. Null when the user has
+// no such scene.
+export async function restoreScene(supabase: SupabaseClient, userId: string, sceneId: string) {
+  const { data, error } = await supabase
+    .rpc('restore_scene', { p_user_id: userId, p_scene_id: sceneId });
+
+  if (error) throw error;
+
+  const restored = ((data || []) as { scene_id: string; ordinal: number | null; folder: string }[])[0];
+  if (!restored) return null;
+  // Scenes from before ordinals have no numbered files to rename
+  if (restored.ordinal === null) return { ordinal: null, renamed: 0, failed: 0 };
+
+  const { renamed, failed } = await renameSceneFiles(
+    supabase,
+    userId,
+    restored.folder,
+    new Map([[restored.scene_id, restored.ordinal]])
+  );
+
+  return { ordinal: restored.ordinal, renamed, failed };
+}
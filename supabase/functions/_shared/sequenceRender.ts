@@ -0,0 +1,262 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { signSequenceCallback, verifySequenceCallback } from "./callbackSignature.ts";
+
+// The parts of sequence-render that talk to the renderer: starting a render, taking its callback
+// and giving up on renders it never finished. The renderer contract is in the README; the
+// media worker under workers/media-worker implements it.
+
+export const RENDER_COLUMNS = 'id, user_id, folder, status, crossfade_seconds, clips, duration_seconds, video_url, error, started_at, finished_at, created_at';
+
+export interface SequenceRender {
+  id: string;
+  user_id: string;
+  folder: string;
+  status: string;
+  crossfade_seconds: number;
+  clips: { scene_id: string; ordinal: number; version: number }[];
+  duration_seconds: number | null;
+  video_url: string | null;
+  error: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+}
+
+export interface SequenceRendererConfig {
+  url: string;
+  token?: string;
+  callbackSecret: string;
+  // Where sequence-render is reachable, e.g. https://<project>.supabase.co/functions/v1
+  callbackBaseUrl: string;
+  fps: number;
+  signedUrlTtl: number;
+}
+
+// One scene of the timeline: the active version's video and how long it runs
+export interface SequenceClip {
+  scene: { id: string; ordinal: number; active_version: number };
+  videoKey: string;
+  durationSeconds: number;
+}
+
+export type StartSequenceResult =
+  | { ok: true; render: SequenceRender }
+  | { ok: false; status: number; code: string; message: string };
+
+export type SequenceCallbackResult =
+  | { ok: true; render: { id: string; status?: string } }
+  | { ok: false; status: number; code: string; message: string };
+
+interface CallbackBody {
+  status?: unknown;
+  video_url?: unknown;
+  duration_seconds?: unknown;
+  error?: unknown;
+}
+
+// Sequence previews sit in a subfolder so storage listings of the scene videos don't pick them up
+export function sequenceVideoKey(render: Pick<SequenceRender, 'id' | 'user_id' | 'folder'>) {
+  return `users/${render.user_id}/Scenes/${render.folder}/sequence/preview-${render.id}.mp4`;
+}
+
+// Renders the renderer never called back about are failed, like scenes past SCENE_MAX_AGE_HOURS,
+// so they stop blocking new renders of the project
+export async function expireStaleRenders(supabase: SupabaseClient, projectId: string, timeoutMinutes: number) {
+  const cutoff = new Date(Date.now() - timeoutMinutes * 60 * 1000).toISOString();
+  await supabase
+    .from('sequence_renders')
+    .update({ status: 'error', error: 'The sequence renderer did not finish in time', finished_at: new Date().toISOString() })
+    .eq('project_id', projectId)
+    .in('status', ['queued', 'rendering'])
+    .lt('created_at', cutoff);
+}
+
+// Records the render and hands it to the renderer. The unique index on unfinished renders keeps
+// it to one per project.
+export async function startSequenceRender(
+  supabase: SupabaseClient,
+  renderer: SequenceRendererConfig,
+  request: {
+    userId: string;
+    projectId: string;
+    folder: string;
+    crossfadeSeconds: number;
+    clips: SequenceClip[];
+    output: { width: number; height: number };
+  }
+): Promise<StartSequenceResult> {
+  const { data: render, error: insertError } = await supabase
+    .from('sequence_renders')
+    .insert({
+      user_id: request.userId,
+      project_id: request.projectId,
+      folder: request.folder,
+      crossfade_seconds: request.crossfadeSeconds,
+      clips: request.clips.map(({ scene }) => ({ scene_id: scene.id, ordinal: scene.ordinal, version: scene.active_version }))
+    })
+    .select(RENDER_COLUMNS)
+    .single();
+
+  if (insertError) {
+    // Unique violation on idx_sequence_renders_active_project
+    if (insertError.code === '23505') {
+      return { ok: false, status: 409, code: 'SEQUENCE_RENDER_IN_PROGRESS', message: 'A preview of this project is already rendering' };
+    }
+    console.error('Failed to create sequence render:', insertError);
+    return { ok: false, status: 500, code: 'CREATE_ERROR', message: 'Failed to start sequence render' };
+  }
+
+  let submitError: string | null = null;
+  try {
+    const clips = await Promise.all(request.clips.map(async (clip) => {
+      const { data, error } = await supabase.storage
+        .from('media')
+        .createSignedUrl(clip.videoKey, renderer.signedUrlTtl);
+      if (error || !data) throw new Error(`Failed to sign ${clip.videoKey}`);
+      return { url: data.signedUrl, duration_seconds: clip.durationSeconds };
+    }));
+    const signature = await signSequenceCallback(renderer.callbackSecret, render.id);
+
+    const response = await fetch(renderer.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(renderer.token ? { Authorization: `Bearer ${renderer.token}` } : {})
+      },
+      body: JSON.stringify({
+        render_id: render.id,
+        clips,
+        crossfade_seconds: request.crossfadeSeconds,
+        output: { fps: renderer.fps, ...request.output },
+        callback_url: `${renderer.callbackBaseUrl}/sequence-render?render=${encodeURIComponent(render.id)}&sig=${signature}`
+      })
+    });
+    await response.body?.cancel();
+    if (!response.ok) {
+      submitError = `Sequence renderer responded ${response.status}`;
+    }
+  } catch (error) {
+    submitError = error instanceof Error ? error.message : 'Sequence renderer unreachable';
+  }
+
+  if (submitError) {
+    console.error(`Failed to submit sequence render ${render.id}: ${submitError}`);
+    await supabase
+      .from('sequence_renders')
+      .update({ status: 'error', error: submitError, finished_at: new Date().toISOString() })
+      .eq('id', render.id);
+    return { ok: false, status: 502, code: 'UPSTREAM_ERROR', message: 'The sequence renderer could not be reached' };
+  }
+
+  const { data: started } = await supabase
+    .from('sequence_renders')
+    .update({ status: 'rendering', started_at: new Date().toISOString() })
+    .eq('id', render.id)
+    .eq('status', 'queued')
+    .select(RENDER_COLUMNS)
+    .maybeSingle();
+
+  return { ok: true, render: (started || render) as SequenceRender };
+}
+
+async function finishRender(supabase: SupabaseClient, render: SequenceRender, body: CallbackBody) {
+  if (body.status !== 'completed') {
+    await supabase
+      .from('sequence_renders')
+      .update({
+        status: 'error',
+        error: typeof body.error === 'string' ? body.error.slice(0, 500) : 'Sequence render failed',
+        finished_at: new Date().toISOString()
+      })
+      .eq('id', render.id);
+    return;
+  }
+
+  if (typeof body.video_url !== 'string') {
+    throw new Error('Completed callback is missing video_url');
+  }
+
+  const response = await fetch(body.video_url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download sequence video: ${response.status} ${response.statusText}`);
+  }
+
+  // Streamed straight into storage; a whole project's cut can be too big to buffer
+  const videoKey = sequenceVideoKey(render);
+  const { error: uploadError } = await supabase.storage
+    .from('media')
+    .upload(videoKey, response.body, { contentType: 'video/mp4', duplex: 'half', upsert: true });
+  if (uploadError) throw uploadError;
+
+  await supabase
+    .from('sequence_renders')
+    .update({
+      status: 'ready',
+      video_url: videoKey,
+      duration_seconds: typeof body.duration_seconds === 'number' ? body.duration_seconds : null,
+      error: null,
+      finished_at: new Date().toISOString()
+    })
+    .eq('id', render.id);
+
+  // Only the newest preview of a project is kept
+  const { data: older } = await supabase
+    .from('sequence_renders')
+    .select('id, video_url')
+    .eq('user_id', render.user_id)
+    .eq('folder', render.folder)
+    .neq('id', render.id)
+    .not('video_url', 'is', null);
+
+  if (older && older.length > 0) {
+    await supabase.storage.from('media').remove(older.map((row) => row.video_url!));
+    await supabase
+      .from('sequence_renders')
+      .update({ video_url: null })
+      .in('id', older.map((row) => row.id));
+  }
+}
+
+// Renderer callback: POST sequence-render?render={id}&sig={hmac}
+export async function handleSequenceCallback(supabase: SupabaseClient, callbackSecret: string, req: Request): Promise<SequenceCallbackResult> {
+  const url = new URL(req.url);
+  const renderId = url.searchParams.get('render') || '';
+  if (!(await verifySequenceCallback(callbackSecret, renderId, url.searchParams.get('sig')))) {
+    return { ok: false, status: 401, code: 'INVALID_SIGNATURE', message: 'Invalid callback signature' };
+  }
+
+  let body: CallbackBody;
+  try {
+    body = await req.json();
+  } catch {
+    return { ok: false, status: 400, code: 'INVALID_JSON', message: 'Invalid JSON in request body' };
+  }
+
+  const { data: render } = await supabase
+    .from('sequence_renders')
+    .select(RENDER_COLUMNS)
+    .eq('id', renderId)
+    .maybeSingle();
+
+  if (!render) {
+    return { ok: false, status: 404, code: 'RENDER_NOT_FOUND', message: 'Sequence render not found' };
+  }
+
+  // Late or repeated callbacks for a finished render are acknowledged and ignored
+  if (render.status === 'ready' || render.status === 'error') {
+    return { ok: true, render: { id: render.id, status: render.status } };
+  }
+
+  try {
+    await finishRender(supabase, render as SequenceRender, body);
+  } catch (error) {
+    console.error(`Failed to store sequence render ${render.id}:`, error);
+    await supabase
+      .from('sequence_renders')
+      .update({ status: 'error', error: 'Failed to store the rendered preview', finished_at: new Date().toISOString() })
+      .eq('id', render.id);
+    return { ok: false, status: 500, code: 'STORE_FAILED', message: 'Failed to store the rendered preview' };
+  }
+
+  return { ok: true, render: { id: render.id } };
+}
@@ -0,0 +1,332 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { getProvider } from "./providers/index.ts";
+import { validateGenerationParams, type GenerationParams } from "./generationParams.ts";
+import { validatePromptTemplate } from "./promptTemplate.ts";
+
+// Shot types as exported to JSON and stored in team libraries: everything but ids and owners.
+// Shared by shot-types (export/import), shot-type-libraries (publish/import) and admin-action (defaults).
+
+export const SHOT_TYPE_EXPORT_VERSION = 1;
+
+// Taken by the dashboard's own shortcuts (S/E set frames, R regenerates)
+export const RESERVED_HOTKEYS = ["s", "e", "r"];
+
+// Free hotkeys are handed out in this order when an import has to move one
+const HOTKEY_POOL = [..."1234567890abcdfghijklmnopqtuvwxyz"];
+
+export interface ShotTypePreset {
+  name: string;
+  prompt_template: string;
+  hotkey: string;
+  sort_order?: number;
+  provider?: string | null;
+  provider_model?: string | null;
+  generation_params?: GenerationParams;
+}
+
+export interface ExistingShotType extends ShotTypePreset {
+  id: string;
+}
+
+// What to do when an imported shot type has the same name as one the user already has
+export type ConflictStrategy = "skip" | "overwrite" | "rename";
+
+export interface ImportPlanItem {
+  action: "create" | "update" | "skip";
+  name: string;
+  hotkey: string;
+  // Set when the import had to change the preset's name or hotkey
+  originalName?: string;
+  originalHotkey?: string;
+  targetId?: string;
+  reason?: string;
+  preset: ShotTypePreset;
+}
+
+// Returns an error message when the provider/model pair is not supported, null otherwise
+export function validateProviderSelection(provider?: string | null, providerModel?: string | null): string | null {
+  if (!provider && !providerModel) return null;
+
+  const resolved = getProvider(provider);
+  if (!resolved) {
+    return `Unknown video provider: ${provider}`;
+  }
+
+  if (providerModel && !resolved.capabilities().models.includes(providerModel)) {
+    return `Model ${providerModel} is not supported by ${resolved.id}`;
+  }
+
+  return null;
+}
+
+// Returns an error message when the shot type's default generation params are unusable, null otherwise.
+// The model is chosen through provider_model, so it is not accepted here.
+export function validateShotTypeParams(provider: string | null | undefined, generationParams: unknown): string | null {
+  if (generationParams === undefined || generationParams === null) return null;
+
+  const resolved = getProvider(provider);
+  if (!resolved) {
+    return `Unknown video provider: ${provider}`;
+  }
+
+  if (typeof generationParams === 'object' && 'model' in generationParams) {
+    return 'Set the model with provider_model instead of generation_params.model';
+  }
+
+  const errors = validateGenerationParams(resolved, generationParams);
+  return errors.length > 0 ? errors.join(', ') : null;
+}
+
+// Returns an error message when the hotkey is empty, too long or taken by a dashboard shortcut, null otherwise
+export function validateHotkey(hotkey: unknown): string | null {
+  if (hotkey === undefined) return null;
+  if (typeof hotkey !== 'string' || !hotkey.trim()) {
+    return 'hotkey must be a non-empty string';
+  }
+  if (hotkey.trim().length > 3) {
+    return 'hotkey must be at most 3 characters';
+  }
+  if (RESERVED_HOTKEYS.includes(hotkey.trim().toLowerCase())) {
+    return `Hotkey ${hotkey.trim().toUpperCase()} is reserved (S and E set frames, R regenerates)`;
+  }
+  return null;
+}
+
+// Returns an error message when the prompt template uses unknown or malformed {{variables}}, null otherwise
+export function validateTemplate(promptTemplate: unknown): string | null {
+  if (promptTemplate === undefined) return null;
+  if (typeof promptTemplate !== 'string' || !promptTemplate.trim()) {
+    return 'prompt_template must be a non-empty string';
+  }
+
+  const errors = validatePromptTemplate(promptTemplate);
+  return errors.length > 0 ? errors.join(', ') : null;
+}
+
+export function toPreset(shotType: ShotTypePreset): ShotTypePreset {
+  return {
+    name: shotType.name,
+    prompt_template: shotType.prompt_template,
+    hotkey: shotType.hotkey,
+    sort_order: shotType.sort_order ?? 0,
+    provider: shotType.provider ?? null,
+    provider_model: shotType.provider_model ?? null,
+    generation_params: shotType.generation_params ?? {},
+  };
+}
+
+// Accepts an export document ({ version, shot_types }) or a bare array of presets.
+// Every entry is validated like a shot-types create; errors are prefixed with the entry index.
+export function parseShotTypePresets(input: unknown): { presets: ShotTypePreset[]; errors: string[] } {
+  const list = Array.isArray(input)
+    ? input
+    : input && typeof input === 'object' ? (input as { shot_types?: unknown }).shot_types : undefined;
+
+  if (!Array.isArray(list)) {
+    return { presets: [], errors: ['Expected an array of shot types or an export document with shot_types'] };
+  }
+
+  const presets: ShotTypePreset[] = [];
+  const errors: string[] = [];
+
+  list.forEach((entry, i) => {
+    if (!entry || typeof entry !== 'object') {
+      errors.push(`shot_types[${i}]: must be an object`);
+      return;
+    }
+
+    const item = entry as Record<string, unknown>;
+    const itemErrors: string[] = [];
+
+    if (typeof item.name !== 'string' || !item.name.trim()) itemErrors.push('name is required');
+    if (typeof item.hotkey !== 'string' || !item.hotkey.trim()) itemErrors.push('hotkey is required');
+    if (item.sort_order !== undefined && item.sort_order !== null && typeof item.sort_order !== 'number') {
+      itemErrors.push('sort_order must be a number');
+    }
+
+    const problem = validateTemplate(item.prompt_template ?? '') ||
+      validateProviderSelection(item.provider as string | null, item.provider_model as string | null) ||
+      validateShotTypeParams(item.provider as string | null, item.generation_params);
+    if (problem) itemErrors.push(problem);
+
+    if (itemErrors.length > 0) {
+      errors.push(...itemErrors.map((e) => `shot_types[${i}]: ${e}`));
+      return;
+    }
+
+    presets.push(toPreset({
+      name: (item.name as string).trim(),
+      prompt_template: item.prompt_template as string,
+      hotkey: (item.hotkey as string).trim(),
+      sort_order: item.sort_order as number | undefined,
+      provider: item.provider as string | null | undefined,
+      provider_model: item.provider_model as string | null | undefined,
+      generation_params: item.generation_params as GenerationParams | undefined,
+    }));
+  });
+
+  return { presets, errors };
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+  for (let n = 2; ; n++) {
+    const candidate = `${name} (${n})`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+}
+
+// Decides, without writing anything, what importing presets into existing shot types does.
+// Names are matched case-insensitively; a clashing or reserved hotkey is moved to the next free one.
+export function planShotTypeImport(
+  existing: ExistingShotType[],
+  presets: ShotTypePreset[],
+  strategy: ConflictStrategy
+): ImportPlanItem[] {
+  const byName = new Map(existing.map((shotType) => [shotType.name.toLowerCase(), shotType]));
+  const names = new Set(existing.map((shotType) => shotType.name.toLowerCase()));
+  // Hotkeys held after the import, keyed to the shot type (existing id or new name) holding them
+  const hotkeys = new Map(existing.map((shotType) => [shotType.hotkey.toLowerCase(), shotType.id]));
+  const claimedNames = new Set<string>();
+
+  return presets.map((preset) => {
+    let name = preset.name;
+    const match = byName.get(name.toLowerCase());
+    let targetId: string | undefined;
+
+    if (claimedNames.has(name.toLowerCase())) {
+      return { action: 'skip', name, hotkey: preset.hotkey, reason: 'Duplicate name in the import', preset };
+    }
+
+    if (match) {
+      if (strategy === 'skip') {
+        return { action: 'skip', name, hotkey: preset.hotkey, targetId: match.id, reason: 'A shot type with this name exists', preset };
+      }
+      if (strategy === 'overwrite') {
+        targetId = match.id;
+      } else {
+        name = uniqueName(name, names);
+      }
+    }
+
+    const holder = targetId ?? `new:${name.toLowerCase()}`;
+    let hotkey = preset.hotkey;
+    const hotkeyHolder = hotkeys.get(hotkey.toLowerCase());
+    if (RESERVED_HOTKEYS.includes(hotkey.toLowerCase()) || (hotkeyHolder !== undefined && hotkeyHolder !== holder)) {
+      const free = HOTKEY_POOL.find((key) => !hotkeys.has(key));
+      if (!free) {
+        return { action: 'skip', name, hotkey, reason: 'No free hotkey left', preset };
+      }
+      hotkey = free;
+    }
+
+    // An overwritten shot type gives up its old hotkey
+    if (targetId) {
+      const previous = [...hotkeys.entries()].find(([, id]) => id === targetId);
+      if (previous) hotkeys.delete(previous[0]);
+    }
+    hotkeys.set(hotkey.toLowerCase(), holder);
+    names.add(name.toLowerCase());
+    claimedNames.add(name.toLowerCase());
+
+    return {
+      action: targetId ? 'update' : 'create',
+      name,
+      hotkey,
+      ...(name !== preset.name ? { originalName: preset.name } : {}),
+      ...(hotkey !== preset.hotkey ? { originalHotkey: preset.hotkey } : {}),
+      ...(targetId ? { targetId } : {}),
+      preset,
+    };
+  });
+}
+
+// Loads the user's shot types, plans the import and (unless dryRun) writes it.
+// Updates run before inserts so overwritten rows free their hotkeys first.
+export async function importShotTypes(
+  supabase: SupabaseClient,
+  userId: string,
+  presets: ShotTypePreset[],
+  options: { strategy: ConflictStrategy; dryRun?: boolean }
+): Promise<{ plan: ImportPlanItem[]; failed: { name: string; error: string }[] }> {
+  const { data: existing, error: listError } = await supabase
+    .from('shot_types')
+    .select('id, name, prompt_template, hotkey, sort_order, provider, provider_model, generation_params')
+    .eq('owner_id', userId);
+
+  if (listError) throw new Error(`Failed to load shot types: ${listError.message}`);
+
+  const plan = planShotTypeImport((existing || []) as ExistingShotType[], presets, options.strategy);
+  const failed: { name: string; error: string }[] = [];
+  if (options.dryRun) return { plan, failed };
+
+  const fields = (item: ImportPlanItem) => ({
+    name: item.name,
+    prompt_template: item.preset.prompt_template,
+    hotkey: item.hotkey,
+    sort_order: item.preset.sort_order ?? 0,
+    provider: item.preset.provider ?? null,
+    provider_model: item.preset.provider_model ?? null,
+    generation_params: item.preset.generation_params ?? {},
+  });
+
+  for (const item of plan.filter((i) => i.action === 'update')) {
+    const { error } = await supabase
+      .from('shot_types')
+      .update(fields(item))
+      .eq('id', item.targetId!)
+      .eq('owner_id', userId);
+    if (error) failed.push({ name: item.name, error: error.message });
+  }
+
+  const inserts = plan.filter((i) => i.action === 'create');
+  if (inserts.length > 0) {
+    const { error } = await supabase
+      .from('shot_types')
+      .insert(inserts.map((item) => ({ owner_id: userId, ...fields(item) })));
+    if (error) failed.push(...inserts.map((item) => ({ name: item.name, error: error.message })));
+  }
+
+  return { plan, failed };
+}
+
+export function isConflictStrategy(value: unknown): value is ConflictStrategy {
+  return value === 'skip' || value === 'overwrite' || value === 'rename';
+}
+
+// Seeded for every newly approved account (see admin-action); hotkeys match the README shortcuts
+const DEFAULT_SHOT_TYPES: ShotTypePreset[] = [
+  { name: "Wide Shot", hotkey: "1", sort_order: 1, prompt_template: "Wide establishing shot showing the full scene and its surroundings, slow steady camera movement" },
+  { name: "Medium Shot", hotkey: "2", sort_order: 2, prompt_template: "Medium shot framing the subject from the waist up, natural camera movement" },
+  { name: "Close-up", hotkey: "3", sort_order: 3, prompt_template: "Close-up shot on the subject's face or key detail, shallow depth of field, subtle camera drift" },
+  { name: "Extreme Close-up", hotkey: "4", sort_order: 4, prompt_template: "Extreme close-up on a small detail, macro framing, very slow push in" },
+  { name: "Over Shoulder", hotkey: "5", sort_order: 5, prompt_template: "Over-the-shoulder shot looking past the foreground figure toward the subject, gentle parallax" },
+  { name: "Point of View", hotkey: "6", sort_order: 6, prompt_template: "First-person point of view shot, handheld camera moving through the scene" },
+].map(toPreset);
+
+function loadDefaultShotTypes(): ShotTypePreset[] {
+  const override = Deno.env.get("DEFAULT_SHOT_TYPES_JSON");
+  if (!override) return DEFAULT_SHOT_TYPES;
+  try {
+    const { presets, errors } = parseShotTypePresets(JSON.parse(override));
+    if (errors.length > 0) throw new Error(errors.join("; "));
+    return presets;
+  } catch (error) {
+    console.error("Invalid DEFAULT_SHOT_TYPES_JSON, using default shot types:", error);
+    return DEFAULT_SHOT_TYPES;
+  }
+}
+
+// Gives a new account the default shot types. Names the user already has are left alone, so
+// running it twice is harmless. Never throws: approval must not fail because seeding did.
+export async function seedDefaultShotTypes(supabase: SupabaseClient, userId: string): Promise<number> {
+  try {
+    const { plan, failed } = await importShotTypes(supabase, userId, loadDefaultShotTypes(), { strategy: "skip" });
+    if (failed.length > 0) {
+      console.error(`Failed to seed shot types for ${userId}:`, failed);
+    }
+    return plan.filter((item) => item.action === "create").length - failed.length;
+  } catch (error) {
+    console.error(`Failed to seed shot types for ${userId}:`, error);
+    return 0;
+  }
+}
@@ -0,0 +1,232 @@
+// Timelines for rebuilding an exported project in editing software: a CMX3600 EDL, Final Cut
+// XML (FCPXML 1.9) and OpenTimelineIO JSON. Each places the exported clips back to back in
+// ordinal order, with the shot type name and prompt as clip notes. Clips reference the files
+// by their name in the export, so the timelines resolve when opened from the unzipped folder.
+
+export interface TimelineClip {
+  sceneId: string;
+  ordinal: number;
+  version: number;
+  fileName: string;
+  durationSeconds: number;
+  shotTypeName: string | null;
+  prompt: string | null;
+}
+
+export interface TimelineFormat {
+  fps: number;
+  width: number;
+  height: number;
+}
+
+export interface TimelineFile {
+  name: string;
+  content: string;
+}
+
+const RESOLUTION_HEIGHTS: Record<string, number> = {
+  "540p": 540,
+  "720p": 720,
+  "1080p": 1080,
+  "4k": 2160,
+};
+
+// Frame size for a provider resolution ("720p") and aspect ratio ("16:9"); unknown values
+// fall back to 1080p 16:9
+export function timelineFrameSize(resolution: string | null | undefined, aspectRatio: string | null | undefined) {
+  const [w, h] = (aspectRatio ?? "16:9").split(":").map(Number);
+  const ratio = w > 0 && h > 0 ? w / h : 16 / 9;
+  const short = RESOLUTION_HEIGHTS[resolution ?? ""] ?? 1080;
+  const even = (n: number) => Math.round(n / 2) * 2;
+  // The resolution names the short side, so portrait frames are tall rather than narrow
+  return ratio >= 1
+    ? { width: even(short * ratio), height: short }
+    : { width: short, height: even(short / ratio) };
+}
+
+function clipFrames(clip: TimelineClip, fps: number) {
+  return Math.max(1, Math.round(clip.durationSeconds * fps));
+}
+
+function clipTitle(clip: TimelineClip) {
+  return clip.shotTypeName ? `Scene ${clip.ordinal} - ${clip.shotTypeName}` : `Scene ${clip.ordinal}`;
+}
+
+function clipNotes(clip: TimelineClip) {
+  return [clip.shotTypeName && `Shot type: ${clip.shotTypeName}`, clip.prompt && `Prompt: ${clip.prompt}`]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function singleLine(text: string) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function timecode(frames: number, fps: number) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const ff = frames % fps;
+  const totalSeconds = Math.floor(frames / fps);
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}:${pad(ff)}`;
+}
+
+// CMX3600 allows 8-character reel names and plain ASCII; the file name goes in the clip name comment
+export function buildEdl(title: string, clips: TimelineClip[], format: TimelineFormat): string {
+  const fps = format.fps;
+  const recordStart = 3600 * fps; // Sequences conventionally start at 01:00:00:00
+  const lines = [`TITLE: ${singleLine(title).slice(0, 70)}`, "FCM: NON-DROP FRAME", ""];
+
+  let record = recordStart;
+  clips.forEach((clip, index) => {
+    const frames = clipFrames(clip, fps);
+    const event = String(index + 1).padStart(3, "0");
+    const reel = `S${String(clip.ordinal).padStart(3, "0")}`.padEnd(8);
+    lines.push(
+      `${event}  ${reel} V     C        ${timecode(0, fps)} ${timecode(frames, fps)} ${timecode(record, fps)} ${timecode(record + frames, fps)}`
+    );
+    lines.push(`* FROM CLIP NAME: ${clip.fileName}`);
+    if (clip.shotTypeName) lines.push(`* COMMENT: SHOT TYPE: ${singleLine(clip.shotTypeName)}`);
+    if (clip.prompt) lines.push(`* COMMENT: PROMPT: ${singleLine(clip.prompt)}`);
+    lines.push("");
+    record += frames;
+  });
+
+  return lines.join("\n");
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function rationalTime(frames: number, fps: number) {
+  return frames === 0 ? "0s" : `${frames}/${fps}s`;
+}
+
+export function buildFcpxml(title: string, clips: TimelineClip[], format: TimelineFormat): string {
+  const { fps, width, height } = format;
+  const name = escapeXml(title);
+
+  const assets: string[] = [];
+  const spine: string[] = [];
+  let offset = 0;
+  clips.forEach((clip, index) => {
+    const frames = clipFrames(clip, fps);
+    const assetId = `r${index + 2}`;
+    const duration = rationalTime(frames, fps);
+    assets.push(
+      `    <asset id="${assetId}" name="${escapeXml(clip.fileName)}" start="0s" duration="${duration}" hasVideo="1" format="r1">\n` +
+      `      <media-rep kind="original-media" src="./${encodeURI(clip.fileName)}"/>\n` +
+      `    </asset>`
+    );
+    const note = clipNotes(clip);
+    spine.push(
+      `            <asset-clip ref="${assetId}" name="${escapeXml(clipTitle(clip))}" offset="${rationalTime(offset, fps)}" duration="${duration}" start="0s" format="r1">` +
+      (note ? `\n              <note>${escapeXml(note)}</note>\n            </asset-clip>` : `</asset-clip>`)
+    );
+    offset += frames;
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<!DOCTYPE fcpxml>`,
+    `<fcpxml version="1.9">`,
+    `  <resources>`,
+    `    <format id="r1" frameDuration="1/${fps}s" width="${width}" height="${height}"/>`,
+    ...assets,
+    `  </resources>`,
+    `  <library>`,
+    `    <event name="${name}">`,
+    `      <project name="${name}">`,
+    `        <sequence format="r1" duration="${rationalTime(offset, fps)}" tcStart="0s" tcFormat="NDF">`,
+    `          <spine>`,
+    ...spine,
+    `          </spine>`,
+    `        </sequence>`,
+    `      </project>`,
+    `    </event>`,
+    `  </library>`,
+    `</fcpxml>`,
+    ``,
+  ].join("\n");
+}
+
+function otioTime(frames: number, fps: number) {
+  return { OTIO_SCHEMA: "RationalTime.1", rate: fps, value: frames };
+}
+
+function otioRange(frames: number, fps: number) {
+  return { OTIO_SCHEMA: "TimeRange.1", start_time: otioTime(0, fps), duration: otioTime(frames, fps) };
+}
+
+export function buildOtio(title: string, clips: TimelineClip[], format: TimelineFormat): string {
+  const { fps } = format;
+
+  const children = clips.map((clip) => {
+    const frames = clipFrames(clip, fps);
+    return {
+      OTIO_SCHEMA: "Clip.1",
+      name: clipTitle(clip),
+      source_range: otioRange(frames, fps),
+      media_reference: {
+        OTIO_SCHEMA: "ExternalReference.1",
+        target_url: clip.fileName,
+        available_range: otioRange(frames, fps),
+        metadata: {},
+      },
+      effects: [],
+      markers: [],
+      metadata: {
+        notes: clipNotes(clip),
+        scene: {
+          id: clip.sceneId,
+          ordinal: clip.ordinal,
+          version: clip.version,
+          shot_type: clip.shotTypeName,
+          prompt: clip.prompt,
+        },
+      },
+    };
+  });
+
+  const timeline = {
+    OTIO_SCHEMA: "Timeline.1",
+    name: title,
+    global_start_time: null,
+    metadata: {},
+    tracks: {
+      OTIO_SCHEMA: "Stack.1",
+      name: "tracks",
+      source_range: null,
+      effects: [],
+      markers: [],
+      metadata: {},
+      children: [
+        {
+          OTIO_SCHEMA: "Track.1",
+          name: "V1",
+          kind: "Video",
+          source_range: null,
+          effects: [],
+          markers: [],
+          metadata: {},
+          children,
+        },
+      ],
+    },
+  };
+
+  return JSON.stringify(timeline, null, 2);
+}
+
+// All three timelines, named as they appear in the export
+export function buildTimelineFiles(title: string, clips: TimelineClip[], format: TimelineFormat): TimelineFile[] {
+  return [
+    { name: "timeline.edl", content: buildEdl(title, clips, format) },
+    { name: "timeline.fcpxml", content: buildFcpxml(title, clips, format) },
+    { name: "timeline.otio", content: buildOtio(title, clips, format) },
+  ];
+}
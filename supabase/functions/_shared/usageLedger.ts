@@ -0,0 +1,233 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import type { GenerationParams } from "./generationParams.ts";
+
+// Spend tracking: every generation the queue submits is written to usage_ledger with an
+// estimated cost, and every function that queues renders checks the monthly budgets first.
+
+// Estimated USD per second of video by provider, model and resolution.
+// Override with GENERATION_PRICING_JSON when the provider's prices change.
+type PricingTable = Record<string, Record<string, Record<string, number>>>;
+
+const DEFAULT_PRICING: PricingTable = {
+  luma: {
+    "ray-2": { "540p": 0.08, "720p": 0.14, "1080p": 0.32, "4k": 1.28 },
+    "ray-flash-2": { "540p": 0.03, "720p": 0.05, "1080p": 0.11, "4k": 0.44 },
+    "ray-1-6": { "540p": 0.06, "720p": 0.10, "1080p": 0.22, "4k": 0.88 },
+  },
+};
+
+function loadPricing(): PricingTable {
+  const override = Deno.env.get("GENERATION_PRICING_JSON");
+  if (!override) return DEFAULT_PRICING;
+  try {
+    return JSON.parse(override) as PricingTable;
+  } catch (error) {
+    console.error("Invalid GENERATION_PRICING_JSON, using default pricing:", error);
+    return DEFAULT_PRICING;
+  }
+}
+
+const PRICING = loadPricing();
+
+// Used for provider/model/resolution combinations missing from the pricing table
+const FALLBACK_COST_PER_SECOND_USD = Number(Deno.env.get("FALLBACK_COST_PER_SECOND_USD") || 0.32);
+
+// Applies to users without profiles.monthly_budget_usd; unset means no limit
+export const DEFAULT_USER_MONTHLY_BUDGET_USD = Deno.env.get("DEFAULT_USER_MONTHLY_BUDGET_USD")
+  ? Number(Deno.env.get("DEFAULT_USER_MONTHLY_BUDGET_USD"))
+  : null;
+
+export interface CostEstimate {
+  model: string | null;
+  resolution: string | null;
+  durationSeconds: number;
+  costUsd: number;
+}
+
+export interface BudgetStatus {
+  scope: 'user' | 'project';
+  budgetUsd: number;
+  spentUsd: number;
+}
+
+export type BudgetCheck =
+  | { ok: true }
+  | { ok: false; exceeded: BudgetStatus; estimateUsd: number };
+
+// Durations are stored as provider strings such as "5s"
+export function parseDurationSeconds(duration: string | null | undefined): number {
+  const seconds = parseFloat(duration ?? "");
+  return Number.isFinite(seconds) ? seconds : 0;
+}
+
+function roundUsd(amount: number): number {
+  return Math.round(amount * 10000) / 10000;
+}
+
+export function estimateGenerationCost(providerId: string, params: GenerationParams | null | undefined): CostEstimate {
+  const model = params?.model ?? null;
+  const resolution = params?.resolution ?? null;
+  const durationSeconds = parseDurationSeconds(params?.duration);
+
+  const rate = model && resolution ? PRICING[providerId]?.[model]?.[resolution] : undefined;
+  if (rate === undefined) {
+    console.warn(`No pricing for ${providerId}/${model}/${resolution}; using fallback rate`);
+  }
+
+  return {
+    model,
+    resolution,
+    durationSeconds,
+    costUsd: roundUsd(durationSeconds * (rate ?? FALLBACK_COST_PER_SECOND_USD)),
+  };
+}
+
+// Estimate for several renders queued together, such as the scenes of a storyboard
+export function estimateGenerationsCost(
+  generations: { provider: string; params: GenerationParams | null | undefined }[]
+): number {
+  return roundUsd(generations.reduce((sum, g) => sum + estimateGenerationCost(g.provider, g.params).costUsd, 0));
+}
+
+// The reason given with a 402 BUDGET_EXCEEDED response; `subject` names what was refused, e.g. "this scene"
+export function budgetExceededMessage(check: Extract<BudgetCheck, { ok: false }>, subject: string): string {
+  const { scope, budgetUsd, spentUsd } = check.exceeded;
+  return `Monthly ${scope} budget of $${budgetUsd.toFixed(2)} reached ($${spentUsd.toFixed(2)} spent, ${subject} ~$${check.estimateUsd.toFixed(2)})`;
+}
+
+// Start of the current calendar month in UTC; budgets reset then
+export function monthStart(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+// Ledger spend since the start of the month, for a user or (when projectId is given) one of their projects
+async function ledgerSpend(supabase: SupabaseClient, userId: string, projectId?: string): Promise<number> {
+  let query = supabase
+    .from('usage_ledger')
+    .select('estimated_cost_usd')
+    .eq('user_id', userId)
+    .gte('created_at', monthStart().toISOString());
+
+  if (projectId) {
+    query = query.eq('project_id', projectId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to read usage ledger: ${error.message}`);
+
+  return (data || []).reduce((sum, row) => sum + Number(row.estimated_cost_usd), 0);
+}
+
+// Estimated cost of the user's renders that are queued but not yet submitted (and so not in the ledger)
+async function committedSpend(supabase: SupabaseClient, userId: string, projectId?: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .select('scene:scenes(project_id, provider, generation_params)')
+    .eq('user_id', userId)
+    .in('status', ['queued', 'submitting']);
+
+  if (error) throw new Error(`Failed to read queued generations: ${error.message}`);
+
+  let total = 0;
+  for (const job of data || []) {
+    const scene = job.scene as unknown as { project_id: string | null; provider: string; generation_params: GenerationParams | null } | null;
+    if (!scene || (projectId && scene.project_id !== projectId)) continue;
+    total += estimateGenerationCost(scene.provider, scene.generation_params).costUsd;
+  }
+  return total;
+}
+
+// Checks that adding estimateUsd keeps the user and the project within their monthly budgets.
+// Scenes created before projects existed have no project, so only the user's budget applies to them.
+export async function checkBudgets(
+  supabase: SupabaseClient,
+  params: { userId: string; projectId: string | null; estimateUsd: number }
+): Promise<BudgetCheck> {
+  const [{ data: profile }, { data: project }] = await Promise.all([
+    supabase.from('profiles').select('monthly_budget_usd').eq('id', params.userId).maybeSingle(),
+    params.projectId
+      ? supabase.from('projects').select('monthly_budget_usd').eq('id', params.projectId).maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  const userBudget = profile?.monthly_budget_usd ?? DEFAULT_USER_MONTHLY_BUDGET_USD;
+  const projectBudget = project?.monthly_budget_usd ?? null;
+
+  const limits: { scope: BudgetStatus['scope']; budgetUsd: number | null; projectId?: string }[] = [
+    { scope: 'user', budgetUsd: userBudget === null ? null : Number(userBudget) },
+    { scope: 'project', budgetUsd: projectBudget === null ? null : Number(projectBudget), projectId: params.projectId ?? undefined },
+  ];
+
+  for (const limit of limits) {
+    if (limit.budgetUsd === null) continue;
+
+    const spentUsd = roundUsd(
+      await ledgerSpend(supabase, params.userId, limit.projectId) +
+      await committedSpend(supabase, params.userId, limit.projectId)
+    );
+
+    if (spentUsd + params.estimateUsd > limit.budgetUsd) {
+      return {
+        ok: false,
+        exceeded: { scope: limit.scope, budgetUsd: limit.budgetUsd, spentUsd },
+        estimateUsd: params.estimateUsd,
+      };
+    }
+  }
+
+  return { ok: true };
+}
+
+// Records a generation the provider accepted. Never throws: losing a ledger row must not fail the render.
+export async function recordUsage(
+  supabase: SupabaseClient,
+  entry: {
+    userId: string;
+    projectId: string | null;
+    sceneId: string;
+    sceneVersion: number;
+    shotTypeId: string | null;
+    // Snapshot from the scene, kept even if the shot type has since been deleted
+    shotTypeName: string | null;
+    provider: string;
+    params: GenerationParams | null;
+    providerJobId: string;
+    correlationId: string;
+  }
+): Promise<void> {
+  try {
+    const estimate = estimateGenerationCost(entry.provider, entry.params);
+
+    let shotTypeId = entry.shotTypeId;
+    if (shotTypeId) {
+      const { data: shotType } = await supabase
+        .from('shot_types')
+        .select('id')
+        .eq('id', shotTypeId)
+        .maybeSingle();
+      shotTypeId = shotType?.id ?? null;
+    }
+
+    const { error } = await supabase
+      .from('usage_ledger')
+      .insert({
+        user_id: entry.userId,
+        project_id: entry.projectId,
+        scene_id: entry.sceneId,
+        scene_version: entry.sceneVersion,
+        shot_type_id: shotTypeId,
+        shot_type_name: entry.shotTypeName,
+        provider: entry.provider,
+        model: estimate.model,
+        resolution: estimate.resolution,
+        duration_seconds: estimate.durationSeconds,
+        estimated_cost_usd: estimate.costUsd,
+        provider_job_id: entry.providerJobId,
+        correlation_id: entry.correlationId,
+      });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error(`[${entry.correlationId}] Failed to record usage for scene ${entry.sceneId}:`, error);
+  }
+}
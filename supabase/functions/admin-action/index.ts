@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { seedDefaultShotTypes } from "../_shared/shotTypePresets.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -74,6 +75,11 @@ serve(async (req) => {
       return new Response("Error updating user status", { status: 500 });
     }
 
+    // New accounts start with the default shot types instead of an empty manager
+    if (action === "approve") {
+      await seedDefaultShotTypes(supabase, approvalData.user_id);
+    }
+
     // Success page
     const statusColor = action === "approve" ? "#10b981" : "#ef4444";
     const statusText = action === "approve" ? "Approved" : "Rejected";
@@ -0,0 +1,296 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { Zip, ZipPassThrough } from "https://esm.sh/fflate@0.8.2";
+import { buildTimelineFiles, timelineFrameSize, type TimelineFile } from "../_shared/timelineManifests.ts";
+import {
+  buildManifest,
+  collectExportEntries,
+  EXPORT_VERSION_COLUMNS,
+  type ExportEntry,
+  type ExportScene,
+  type ExportVersion,
+  toTimelineClip,
+} from "../_shared/projectExport.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const signedUrlTtl = parseInt(Deno.env.get("SIGNED_URL_TTL_SECONDS") || "3600");
+const exportMaxMb = parseInt(Deno.env.get("EXPORT_MAX_MB") || "500");
+const timelineFps = parseInt(Deno.env.get("EXPORT_TIMELINE_FPS") || "24");
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const BYTES_PER_MB = 1024 * 1024;
+
+function generateCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+function errorResponse(code: string, message: string, status: number, correlationId: string, headers: Record<string, string>, detail?: Record<string, unknown>) {
+  return new Response(
+    JSON.stringify({
+      error: {
+        code,
+        message,
+        correlationId,
+        ...(detail ? { detail } : {})
+      },
+      ok: false
+    }),
+    { status, headers }
+  );
+}
+
+function toMb(bytes: number) {
+  return Math.round((bytes / BYTES_PER_MB) * 10) / 10;
+}
+
+// Sizes of the videos stored under users/{uid}/Scenes/{folder}/, keyed by storage path
+async function listSceneFileSizes(scenesPrefix: string): Promise<Map<string, number>> {
+  const sizes = new Map<string, number>();
+  const pageSize = 1000;
+
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error } = await supabase.storage
+      .from('media')
+      .list(scenesPrefix, { limit: pageSize, offset });
+
+    if (error) throw error;
+
+    for (const file of data || []) {
+      if (file.metadata?.size != null) {
+        sizes.set(`${scenesPrefix}/${file.name}`, file.metadata.size);
+      }
+    }
+
+    if (!data || data.length < pageSize) return sizes;
+  }
+}
+
+// Yields the ZIP as it is built. The text files go first, then each video is fetched and passed
+// through (MP4s are already compressed) one chunk at a time, so the archive is never held in memory
+async function* zipChunks(textFiles: TimelineFile[], entries: ExportEntry[]): AsyncGenerator<Uint8Array> {
+  const pending: Uint8Array[] = [];
+  let failure: Error | null = null;
+
+  const zip = new Zip((err, chunk) => {
+    if (err) failure = err;
+    else pending.push(chunk);
+  });
+
+  for (const textFile of textFiles) {
+    const file = new ZipPassThrough(textFile.name);
+    zip.add(file);
+    file.push(new TextEncoder().encode(textFile.content), true);
+  }
+  yield* pending.splice(0);
+
+  for (const entry of entries) {
+    const { data: signed, error: signError } = await supabase.storage
+      .from('media')
+      .createSignedUrl(entry.videoKey, signedUrlTtl);
+    if (signError) throw signError;
+
+    const response = await fetch(signed.signedUrl);
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to download ${entry.videoKey}: ${response.status}`);
+    }
+
+    const file = new ZipPassThrough(entry.fileName);
+    zip.add(file);
+
+    const reader = response.body.getReader();
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      file.push(value);
+      if (failure) throw failure;
+      yield* pending.splice(0);
+    }
+    file.push(new Uint8Array(0), true);
+    yield* pending.splice(0);
+  }
+
+  zip.end();
+  if (failure) throw failure;
+  yield* pending.splice(0);
+}
+
+function toStream(chunks: AsyncGenerator<Uint8Array>): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (err) {
+        controller.error(err);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    }
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const correlationId = generateCorrelationId();
+  const responseHeaders = { ...corsHeaders, "Content-Type": "application/json", "x-correlation-id": correlationId };
+
+  try {
+    if (req.method !== 'POST') {
+      return errorResponse('METHOD_NOT_ALLOWED', `Method ${req.method} not allowed`, 405, correlationId, responseHeaders);
+    }
+
+    // Authenticate user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return errorResponse('UNAUTHORIZED', 'Missing or invalid authorization header', 401, correlationId, responseHeaders);
+    }
+
+    const token = authHeader.split(" ")[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return errorResponse('AUTH_ERROR', 'Authentication failed', 401, correlationId, responseHeaders);
+    }
+
+    let body: { folder?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse('INVALID_JSON', 'Invalid JSON in request body', 400, correlationId, responseHeaders);
+    }
+
+    if (typeof body.folder !== 'string' || !body.folder.trim()) {
+      return errorResponse('VALIDATION_ERROR', 'folder is required and must be a string', 400, correlationId, responseHeaders);
+    }
+    const folder = body.folder.trim();
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('name', folder)
+      .eq('owner_id', user.id)
+      .maybeSingle();
+
+    if (!project) {
+      return errorResponse('PROJECT_NOT_FOUND', 'Project not found', 404, correlationId, responseHeaders);
+    }
+
+    const { data: scenes, error: scenesError } = await supabase
+      .from('scenes')
+      .select('id, ordinal, active_version')
+      .eq('user_id', user.id)
+      .eq('folder', folder)
+      .is('deleted_at', null)
+      .eq('excluded_from_timeline', false)
+      .not('active_version', 'is', null)
+      .not('ordinal', 'is', null)
+      .order('ordinal', { ascending: true });
+
+    if (scenesError) {
+      console.error(`[${correlationId}] Failed to list scenes for export:`, scenesError);
+      return errorResponse('LIST_ERROR', 'Failed to fetch scenes', 500, correlationId, responseHeaders);
+    }
+
+    const exportScenes = (scenes || []) as ExportScene[];
+    if (exportScenes.length === 0) {
+      return errorResponse('NOTHING_TO_EXPORT', 'This project has no finished scenes to export', 400, correlationId, responseHeaders);
+    }
+
+    const { data: versions, error: versionsError } = await supabase
+      .from('scene_versions')
+      .select(EXPORT_VERSION_COLUMNS)
+      .in('scene_id', exportScenes.map((scene) => scene.id));
+
+    if (versionsError) {
+      console.error(`[${correlationId}] Failed to list scene versions for export:`, versionsError);
+      return errorResponse('LIST_ERROR', 'Failed to fetch scene versions', 500, correlationId, responseHeaders);
+    }
+
+    const scenesPrefix = `users/${user.id}/Scenes/${folder}`;
+    const sizes = await listSceneFileSizes(scenesPrefix);
+
+    const { entries, skipped } = collectExportEntries(exportScenes, (versions || []) as ExportVersion[], sizes);
+
+    if (entries.length === 0) {
+      return errorResponse('NOTHING_TO_EXPORT', 'None of this project\'s scene videos were found in storage', 400, correlationId, responseHeaders);
+    }
+
+    const totalBytes = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+    if (totalBytes > exportMaxMb * BYTES_PER_MB) {
+      return errorResponse(
+        'EXPORT_TOO_LARGE',
+        `Export is ${toMb(totalBytes)}MB, over the ${exportMaxMb}MB limit`,
+        413,
+        correlationId,
+        responseHeaders,
+        { totalMb: toMb(totalBytes), limitMb: exportMaxMb, sceneCount: entries.length }
+      );
+    }
+
+    const manifest = buildManifest(folder, entries, skipped);
+    // Timelines use the first clip's frame size; scenes in a project are normally rendered alike
+    const firstParams = entries[0].version.render_meta?.generation_params;
+    const timelines = buildTimelineFiles(folder, entries.map(toTimelineClip), {
+      fps: timelineFps,
+      ...timelineFrameSize(firstParams?.resolution, firstParams?.aspect_ratio)
+    });
+    const fileName = `${folder}-${manifest.exportedAt.replace(/[:.]/g, '-')}.zip`;
+    const exportKey = `users/${user.id}/Exports/${fileName}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('media')
+      .upload(exportKey, toStream(zipChunks([{ name: 'manifest.json', content: JSON.stringify(manifest, null, 2) }, ...timelines], entries)), {
+        contentType: 'application/zip',
+        duplex: 'half',
+        upsert: true
+      });
+
+    if (uploadError) {
+      console.error(`[${correlationId}] Failed to upload export ${exportKey}:`, uploadError);
+      return errorResponse('EXPORT_FAILED', 'Failed to build export', 500, correlationId, responseHeaders);
+    }
+
+    const { data: signed, error: signError } = await supabase.storage
+      .from('media')
+      .createSignedUrl(exportKey, signedUrlTtl, { download: fileName });
+
+    if (signError) {
+      console.error(`[${correlationId}] Failed to sign export ${exportKey}:`, signError);
+      return errorResponse('EXPORT_FAILED', 'Failed to create download link', 500, correlationId, responseHeaders);
+    }
+
+    console.log(`[${correlationId}] Exported ${entries.length} scenes (${toMb(totalBytes)}MB) to ${exportKey}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          url: signed.signedUrl,
+          fileName,
+          sceneCount: entries.length,
+          skippedCount: skipped.length,
+          totalMb: toMb(totalBytes),
+          expiresAt: new Date(Date.now() + signedUrlTtl * 1000).toISOString()
+        },
+        ok: true
+      }),
+      { headers: responseHeaders }
+    );
+
+  } catch (error) {
+    console.error(`[${correlationId}] Unexpected error:`, error);
+    return errorResponse('INTERNAL_ERROR', 'Internal server error', 500, correlationId, responseHeaders);
+  }
+});
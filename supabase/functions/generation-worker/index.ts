@@ -0,0 +1,118 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import {
+  MAX_CONCURRENT_SCENES_GLOBAL,
+  MAX_CONCURRENT_SCENES_PER_USER,
+  runGenerationQueue,
+} from "../_shared/generationQueue.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+// Shares the reconciler's cron credential
+const workerSecret = Deno.env.get("RECONCILER_SECRET");
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+function generateCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+async function logError(params: {
+  route: string;
+  method: string;
+  status: number;
+  code: string;
+  message: string;
+  correlationId: string;
+  safeContext?: Record<string, unknown>;
+}) {
+  try {
+    await supabase.from("error_events").insert({
+      route: params.route,
+      method: params.method,
+      status: params.status,
+      code: params.code,
+      message: params.message,
+      correlation_id: params.correlationId,
+      safe_context: params.safeContext || {},
+    });
+  } catch (logErr) {
+    console.error("Failed to log error:", logErr);
+  }
+  console.error(`[${params.correlationId}] ${params.method} ${params.route} - ${params.status} ${params.code}: ${params.message}`, params.safeContext);
+}
+
+function isAuthorized(req: Request): boolean {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer /, "");
+  if (!token) return false;
+  return token === supabaseServiceKey || (!!workerSecret && token === workerSecret);
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const correlationId = generateCorrelationId();
+  const responseHeaders = { ...corsHeaders, "Content-Type": "application/json", "x-correlation-id": correlationId };
+
+  if (!isAuthorized(req)) {
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Worker requires the service role key or RECONCILER_SECRET',
+          correlationId
+        },
+        ok: false
+      }),
+      { status: 401, headers: responseHeaders }
+    );
+  }
+
+  try {
+    const result = await runGenerationQueue(supabase, correlationId);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          ...result,
+          limits: {
+            perUser: MAX_CONCURRENT_SCENES_PER_USER,
+            global: MAX_CONCURRENT_SCENES_GLOBAL
+          }
+        },
+        ok: true
+      }),
+      { headers: responseHeaders }
+    );
+
+  } catch (error) {
+    await logError({
+      route: '/generation-worker',
+      method: req.method,
+      status: 500,
+      code: 'INTERNAL_ERROR',
+      message: error.message,
+      correlationId,
+    });
+
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error',
+          correlationId
+        },
+        ok: false
+      }),
+      { status: 500, headers: responseHeaders }
+    );
+  }
+});
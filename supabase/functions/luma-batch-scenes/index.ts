@@ -0,0 +1,512 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { getProvider } from "../_shared/providers/index.ts";
+import {
+  resolveGenerationParams,
+  validateGenerationParams,
+  type ResolvedGenerationParams,
+} from "../_shared/generationParams.ts";
+import { validatePromptOverride, validatePromptVars, type ScenePromptVars } from "../_shared/promptTemplate.ts";
+import {
+  enqueueGeneration,
+  MAX_CONCURRENT_SCENES_PER_USER,
+  runGenerationQueue,
+} from "../_shared/generationQueue.ts";
+import { summarizeBatch } from "../_shared/batchProgress.ts";
+import { budgetExceededMessage, checkBudgets, estimateGenerationsCost } from "../_shared/usageLedger.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const batchMaxItems = Number(Deno.env.get("BATCH_MAX_ITEMS") || 50);
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+interface BatchItem {
+  start_key: string;
+  end_key?: string | null;
+  shot_type_id: string;
+  generation_params?: Record<string, unknown> | null;
+  prompt_vars?: ScenePromptVars | null;
+  prompt_override?: string | null;
+  prompt_override_mode?: 'append' | 'replace' | null;
+}
+
+// Scene row created for each storyboard item
+interface BatchSceneInsert {
+  user_id: string;
+  project_id: string;
+  folder: string;
+  batch_id: string;
+  start_key: string;
+  end_key: string | null;
+  shot_type_id: string;
+  shot_type_name: string;
+  shot_type_prompt: string;
+  ordinal: number;
+  version: number;
+  luma_status: string;
+  status: string;
+  provider: string;
+  provider_model: string;
+  generation_params: ResolvedGenerationParams;
+  prompt_vars: ScenePromptVars;
+  prompt_override: string | null;
+  prompt_override_mode: 'append' | 'replace';
+}
+
+interface BatchScene {
+  id: string;
+  ordinal: number | null;
+  status: string | null;
+  luma_status: string | null;
+  luma_error: string | null;
+  shot_type_id: string | null;
+  shot_type_name: string | null;
+  start_key: string;
+  end_key: string | null;
+}
+
+function generateCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+async function logError(params: {
+  route: string;
+  method: string;
+  status: number;
+  code: string;
+  message: string;
+  correlationId: string;
+  userId?: string;
+  safeContext?: Record<string, unknown>;
+}) {
+  try {
+    await supabase.from("error_events").insert({
+      route: params.route,
+      method: params.method,
+      status: params.status,
+      code: params.code,
+      message: params.message,
+      correlation_id: params.correlationId,
+      user_id: params.userId,
+      safe_context: params.safeContext,
+    });
+  } catch (logErr) {
+    console.error("Failed to log error:", logErr);
+  }
+  console.error(`[${params.correlationId}] ${params.method} ${params.route} - ${params.status} ${params.code}: ${params.message}`, params.safeContext);
+}
+
+function errorResponse(code: string, message: string, status: number, correlationId: string, headers: Record<string, string>, detail?: unknown) {
+  return new Response(
+    JSON.stringify({
+      error: {
+        code,
+        message,
+        ...(detail ? { detail } : {}),
+        correlationId
+      },
+      ok: false
+    }),
+    { status, headers }
+  );
+}
+
+function extractStoragePath(cdnUrl: string): string {
+  const match = cdnUrl.match(/\/storage\/v1\/object\/(?:sign|public)\/media\/(.+?)(?:\?|$)/);
+  return match ? match[1] : cdnUrl;
+}
+
+function validateBatchRequest(body: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  if (!body.folder || typeof body.folder !== 'string') {
+    errors.push('folder is required and must be a string');
+  }
+
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    errors.push('items must be a non-empty array');
+    return errors;
+  }
+
+  if (body.items.length > batchMaxItems) {
+    errors.push(`items may contain at most ${batchMaxItems} entries`);
+    return errors;
+  }
+
+  body.items.forEach((entry: unknown, i: number) => {
+    if (!entry || typeof entry !== 'object') {
+      errors.push(`items[${i}]: must be an object`);
+      return;
+    }
+    const item = entry as Record<string, unknown>;
+    if (!item.start_key || typeof item.start_key !== 'string') {
+      errors.push(`items[${i}]: start_key is required and must be a string`);
+    }
+    if (item.end_key && typeof item.end_key !== 'string') {
+      errors.push(`items[${i}]: end_key must be a string if provided`);
+    }
+    if (!item.shot_type_id || typeof item.shot_type_id !== 'string') {
+      errors.push(`items[${i}]: shot_type_id is required and must be a string`);
+    }
+    if (item.generation_params !== undefined && item.generation_params !== null &&
+        (typeof item.generation_params !== 'object' || Array.isArray(item.generation_params))) {
+      errors.push(`items[${i}]: generation_params must be an object if provided`);
+    }
+    errors.push(...validatePromptVars(item.prompt_vars).map((e) => `items[${i}]: ${e}`));
+    errors.push(...validatePromptOverride(item.prompt_override, item.prompt_override_mode).map((e) => `items[${i}]: ${e}`));
+  });
+
+  return errors;
+}
+
+function toBatchSceneView(scene: BatchScene) {
+  return {
+    id: scene.id,
+    ordinal: scene.ordinal,
+    status: scene.status,
+    lumaStatus: scene.luma_status,
+    lumaError: scene.luma_error,
+    shotTypeId: scene.shot_type_id,
+    shotTypeName: scene.shot_type_name,
+    startKey: scene.start_key,
+    endKey: scene.end_key,
+  };
+}
+
+const BATCH_SCENE_COLUMNS = 'id, batch_id, ordinal, status, luma_status, luma_error, shot_type_id, shot_type_name, start_key, end_key';
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const correlationId = generateCorrelationId();
+  const responseHeaders = { ...corsHeaders, "Content-Type": "application/json", "x-correlation-id": correlationId };
+
+  try {
+    // Authenticate user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return errorResponse('UNAUTHORIZED', 'Missing or invalid authorization header', 401, correlationId, responseHeaders);
+    }
+
+    const token = authHeader.split(" ")[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return errorResponse('AUTH_ERROR', 'Authentication failed', 401, correlationId, responseHeaders);
+    }
+
+    if (req.method === 'GET') {
+      // Batch progress: one batch by id, or the most recent batches of a folder
+      const url = new URL(req.url);
+      const batchId = url.searchParams.get('batch_id');
+      const folder = url.searchParams.get('folder');
+
+      if (!batchId && !folder) {
+        return errorResponse('VALIDATION_ERROR', 'batch_id or folder query parameter is required', 400, correlationId, responseHeaders);
+      }
+
+      let batchQuery = supabase
+        .from('scene_batches')
+        .select('id, folder, total, created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      batchQuery = batchId ? batchQuery.eq('id', batchId) : batchQuery.eq('folder', folder).limit(10);
+
+      const { data: batches, error: batchesError } = await batchQuery;
+      if (batchesError) {
+        console.error(`[${correlationId}] Failed to list batches:`, batchesError);
+        return errorResponse('LIST_ERROR', 'Failed to fetch batches', 500, correlationId, responseHeaders);
+      }
+
+      if (batchId && !batches?.length) {
+        return errorResponse('BATCH_NOT_FOUND', 'Batch not found', 404, correlationId, responseHeaders);
+      }
+
+      const { data: scenes, error: scenesError } = await supabase
+        .from('scenes')
+        .select(BATCH_SCENE_COLUMNS)
+        .in('batch_id', (batches || []).map((b) => b.id))
+        .is('deleted_at', null)
+        .order('ordinal', { ascending: true });
+
+      if (scenesError) {
+        console.error(`[${correlationId}] Failed to list batch scenes:`, scenesError);
+        return errorResponse('LIST_ERROR', 'Failed to fetch batch scenes', 500, correlationId, responseHeaders);
+      }
+
+      const data = (batches || []).map((batch) => {
+        const batchScenes = ((scenes || []) as (BatchScene & { batch_id: string })[]).filter((s) => s.batch_id === batch.id);
+        return {
+          batchId: batch.id,
+          folder: batch.folder,
+          createdAt: batch.created_at,
+          progress: summarizeBatch(batchScenes),
+          scenes: batchScenes.map(toBatchSceneView),
+        };
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: batchId ? data[0] : { batches: data },
+          ok: true
+        }),
+        { headers: responseHeaders }
+      );
+    }
+
+    if (req.method !== 'POST') {
+      return errorResponse('METHOD_NOT_ALLOWED', `Method ${req.method} not allowed`, 405, correlationId, responseHeaders);
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse('INVALID_JSON', 'Invalid JSON in request body', 400, correlationId, responseHeaders);
+    }
+
+    const validationErrors = validateBatchRequest(body);
+    if (validationErrors.length > 0) {
+      await logError({
+        route: '/luma-batch-scenes',
+        method: 'POST',
+        status: 400,
+        code: 'VALIDATION_ERROR',
+        message: validationErrors.join(', '),
+        correlationId,
+        userId: user.id,
+        safeContext: { validationErrors }
+      });
+
+      return errorResponse('VALIDATION_ERROR', 'Request validation failed', 400, correlationId, responseHeaders, validationErrors);
+    }
+
+    // Check user profile status
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('status')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || profile?.status !== 'approved') {
+      return errorResponse('PROFILE_NOT_APPROVED', 'Your profile must be approved to generate scenes', 403, correlationId, responseHeaders);
+    }
+
+    const folder = body.folder as string;
+    const items = body.items as BatchItem[];
+    const shotTypeIds = [...new Set(items.map((item) => item.shot_type_id))];
+
+    const { data: shotTypes, error: shotTypesError } = await supabase
+      .from('shot_types')
+      .select('id, name, prompt_template, provider, provider_model, generation_params')
+      .in('id', shotTypeIds)
+      .eq('owner_id', user.id);
+
+    if (shotTypesError) {
+      console.error(`[${correlationId}] Failed to load shot types:`, shotTypesError);
+      return errorResponse('DB_ERROR', 'Failed to load shot types', 500, correlationId, responseHeaders);
+    }
+
+    // Validate every item before creating anything, so a bad entry doesn't leave half a storyboard
+    const itemErrors: string[] = [];
+    const resolved: {
+      item: BatchItem;
+      shotType: { name: string; prompt_template: string };
+      provider: string;
+      params: ResolvedGenerationParams;
+    }[] = [];
+
+    items.forEach((item, i) => {
+      const shotType = shotTypes?.find((s) => s.id === item.shot_type_id);
+      if (!shotType) {
+        itemErrors.push(`items[${i}]: shot type not found`);
+        return;
+      }
+
+      const provider = getProvider(shotType.provider);
+      if (!provider) {
+        itemErrors.push(`items[${i}]: shot type uses an unknown video provider`);
+        return;
+      }
+
+      const paramErrors = [
+        ...validateGenerationParams(provider, shotType.generation_params).map((e) => `shot type: ${e}`),
+        ...(shotType.provider_model ? validateGenerationParams(provider, { model: shotType.provider_model }).map((e) => `shot type: ${e}`) : []),
+        ...validateGenerationParams(provider, item.generation_params),
+      ];
+
+      if (paramErrors.length > 0) {
+        itemErrors.push(...paramErrors.map((e) => `items[${i}]: ${e}`));
+        return;
+      }
+
+      resolved.push({
+        item,
+        shotType,
+        provider: provider.id,
+        params: resolveGenerationParams(
+          provider,
+          shotType.generation_params,
+          { model: shotType.provider_model || undefined },
+          item.generation_params
+        ),
+      });
+    });
+
+    if (itemErrors.length > 0) {
+      await logError({
+        route: '/luma-batch-scenes',
+        method: 'POST',
+        status: 400,
+        code: 'VALIDATION_ERROR',
+        message: itemErrors.join(', '),
+        correlationId,
+        userId: user.id,
+        safeContext: { validationErrors: itemErrors }
+      });
+
+      return errorResponse('VALIDATION_ERROR', 'Storyboard validation failed', 400, correlationId, responseHeaders, itemErrors);
+    }
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('name', folder)
+      .eq('owner_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return errorResponse('PROJECT_NOT_FOUND', 'Project not found', 404, correlationId, responseHeaders);
+    }
+
+    // Same budget check as luma-create-scene, for the whole storyboard at once so it is never
+    // left half created
+    const estimateUsd = estimateGenerationsCost(resolved.map(({ provider, params }) => ({ provider, params })));
+    const budgetCheck = await checkBudgets(supabase, { userId: user.id, projectId: project.id, estimateUsd });
+
+    if (!budgetCheck.ok) {
+      const { scope, budgetUsd, spentUsd } = budgetCheck.exceeded;
+      const message = budgetExceededMessage(budgetCheck, 'this storyboard');
+
+      await logError({
+        route: '/luma-batch-scenes',
+        method: 'POST',
+        status: 402,
+        code: 'BUDGET_EXCEEDED',
+        message,
+        correlationId,
+        userId: user.id,
+        safeContext: { scope, budgetUsd, spentUsd, estimateUsd, projectId: project.id, items: resolved.length }
+      });
+
+      return errorResponse('BUDGET_EXCEEDED', message, 402, correlationId, responseHeaders, { scope, budgetUsd, spentUsd, estimateUsd });
+    }
+
+    const { data: batch, error: batchError } = await supabase
+      .from('scene_batches')
+      .insert({
+        user_id: user.id,
+        project_id: project.id,
+        folder,
+        total: resolved.length
+      })
+      .select()
+      .single();
+
+    if (batchError || !batch) {
+      console.error(`[${correlationId}] Failed to create batch:`, batchError);
+      return errorResponse('DB_ERROR', 'Failed to create batch', 500, correlationId, responseHeaders);
+    }
+
+    // Scenes are created and queued in storyboard order so ordinals and render order follow it
+    const sceneIds: string[] = [];
+    for (const { item, shotType, provider, params } of resolved) {
+      const { data: ordinal, error: ordinalError } = await supabase
+        .rpc('next_scene_ordinal', { p_project_id: project.id });
+
+      if (ordinalError) {
+        console.error(`[${correlationId}] Failed to get next ordinal:`, ordinalError);
+        return errorResponse('DB_ERROR', 'Failed to get next ordinal', 500, correlationId, responseHeaders);
+      }
+
+      const row: BatchSceneInsert = {
+        user_id: user.id,
+        project_id: project.id,
+        folder,
+        batch_id: batch.id,
+        start_key: extractStoragePath(item.start_key),
+        end_key: item.end_key ? extractStoragePath(item.end_key) : null,
+        shot_type_id: item.shot_type_id,
+        shot_type_name: shotType.name,
+        shot_type_prompt: shotType.prompt_template,
+        ordinal,
+        version: 1,
+        luma_status: 'pending',
+        status: 'queued',
+        provider,
+        provider_model: params.model,
+        generation_params: params,
+        // Rendered into the shot type template when the queue submits the scene
+        prompt_vars: item.prompt_vars || {},
+        prompt_override: item.prompt_override?.trim() || null,
+        prompt_override_mode: item.prompt_override_mode || 'append'
+      };
+
+      const { data: scene, error: sceneError } = await supabase
+        .from('scenes')
+        .insert(row)
+        .select('id')
+        .single();
+
+      if (sceneError || !scene) {
+        console.error(`[${correlationId}] Failed to create batch scene:`, sceneError);
+        return errorResponse('DB_ERROR', 'Failed to create scene record', 500, correlationId, responseHeaders);
+      }
+
+      await enqueueGeneration(supabase, { sceneId: scene.id, userId: user.id, version: 1 });
+      sceneIds.push(scene.id);
+    }
+
+    const queueRun = await runGenerationQueue(supabase, correlationId);
+    const started = queueRun.started.filter((id) => sceneIds.includes(id)).length;
+
+    console.log(`[${correlationId}] Batch ${batch.id} created with ${sceneIds.length} scenes, ${started} started`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          batchId: batch.id,
+          total: sceneIds.length,
+          sceneIds,
+          started,
+          maxConcurrent: MAX_CONCURRENT_SCENES_PER_USER
+        },
+        ok: true
+      }),
+      { headers: responseHeaders }
+    );
+
+  } catch (error) {
+    await logError({
+      route: '/luma-batch-scenes',
+      method: req.method,
+      status: 500,
+      code: 'INTERNAL_ERROR',
+      message: error.message,
+      correlationId,
+    });
+
+    return errorResponse('INTERNAL_ERROR', 'Internal server error', 500, correlationId, responseHeaders);
+  }
+});
@@ -0,0 +1,313 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { getProvider } from "../_shared/providers/index.ts";
+import { verifyBodySignature, verifySceneCallback } from "../_shared/callbackSignature.ts";
+import {
+  applyGenerationStatus,
+  isSceneTerminal,
+  SCENE_COMPLETION_COLUMNS,
+  terminalOutcome,
+} from "../_shared/sceneCompletion.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-hub-signature-256",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const callbackSecret = Deno.env.get("LUMA_CALLBACK_SECRET");
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+function generateCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+async function logError(params: {
+  route: string;
+  method: string;
+  status: number;
+  code: string;
+  message: string;
+  correlationId: string;
+  userId?: string;
+  safeContext?: Record<string, unknown>;
+}) {
+  try {
+    await supabase.from("error_events").insert({
+      route: params.route,
+      method: params.method,
+      status: params.status,
+      code: params.code,
+      message: params.message,
+      correlation_id: params.correlationId,
+      user_id: params.userId,
+      safe_context: params.safeContext || {},
+    });
+  } catch (logErr) {
+    console.error("Failed to log error:", logErr);
+  }
+  console.error(`[${params.correlationId}] ${params.method} ${params.route} - ${params.status} ${params.code}: ${params.message}`, params.safeContext);
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const correlationId = generateCorrelationId();
+  const responseHeaders = { ...corsHeaders, "Content-Type": "application/json", "x-correlation-id": correlationId };
+
+  if (req.method !== "POST") {
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'METHOD_NOT_ALLOWED',
+          message: `Method ${req.method} not allowed`,
+          correlationId
+        },
+        ok: false
+      }),
+      { status: 405, headers: responseHeaders }
+    );
+  }
+
+  try {
+    if (!callbackSecret) {
+      await logError({
+        route: '/luma-callback',
+        method: 'POST',
+        status: 503,
+        code: 'CALLBACKS_DISABLED',
+        message: 'LUMA_CALLBACK_SECRET is not configured',
+        correlationId,
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'CALLBACKS_DISABLED',
+            message: 'Callbacks are not configured',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 503, headers: responseHeaders }
+      );
+    }
+
+    const url = new URL(req.url);
+    const sceneId = url.searchParams.get("scene");
+    const rawBody = await req.text();
+
+    if (!sceneId) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'MISSING_SCENE_ID',
+            message: 'scene query parameter is required',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 400, headers: responseHeaders }
+      );
+    }
+
+    // Either the per-scene URL signature or a signed body authenticates the caller
+    const signatureValid =
+      await verifySceneCallback(callbackSecret, sceneId, url.searchParams.get("sig")) ||
+      await verifyBodySignature(callbackSecret, rawBody, req.headers.get("x-hub-signature-256"));
+
+    if (!signatureValid) {
+      await logError({
+        route: '/luma-callback',
+        method: 'POST',
+        status: 401,
+        code: 'INVALID_SIGNATURE',
+        message: 'Callback signature verification failed',
+        correlationId,
+        safeContext: { sceneId }
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'INVALID_SIGNATURE',
+            message: 'Invalid callback signature',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 401, headers: responseHeaders }
+      );
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'INVALID_JSON',
+            message: 'Invalid JSON in request body',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 400, headers: responseHeaders }
+      );
+    }
+
+    const { data: scene, error: sceneError } = await supabase
+      .from('scenes')
+      .select(SCENE_COMPLETION_COLUMNS)
+      .eq('id', sceneId)
+      .single();
+
+    if (sceneError || !scene) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'SCENE_NOT_FOUND',
+            message: 'Scene not found',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 404, headers: responseHeaders }
+      );
+    }
+
+    const provider = getProvider(scene.provider);
+    const generation = provider?.parseCallback(payload);
+
+    if (!provider || !generation) {
+      await logError({
+        route: '/luma-callback',
+        method: 'POST',
+        status: 400,
+        code: 'INVALID_PAYLOAD',
+        message: 'Callback body is not a recognized generation payload',
+        correlationId,
+        userId: scene.user_id,
+        safeContext: { sceneId, provider: scene.provider }
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'INVALID_PAYLOAD',
+            message: 'Unrecognized callback payload',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 400, headers: responseHeaders }
+      );
+    }
+
+    // The signature only covers the scene id, so the body must name the job the scene is waiting on.
+    // A callback that beats the job id write is refused; polling and the reconciler still pick it up.
+    if (!scene.luma_job_id || scene.luma_job_id !== generation.id) {
+      await logError({
+        route: '/luma-callback',
+        method: 'POST',
+        status: 409,
+        code: 'JOB_MISMATCH',
+        message: `Callback job ${generation.id} does not match scene job ${scene.luma_job_id}`,
+        correlationId,
+        userId: scene.user_id,
+        safeContext: { sceneId }
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'JOB_MISMATCH',
+            message: 'Callback does not belong to the current generation',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 409, headers: responseHeaders }
+      );
+    }
+
+    // Duplicate or late callbacks after finalization are acknowledged without changes
+    if (isSceneTerminal(scene)) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: terminalOutcome(scene),
+          ok: true
+        }),
+        { headers: responseHeaders }
+      );
+    }
+
+    // The callback is only a trigger: the state and video URL applied come from the provider itself
+    console.log(`[${correlationId}] Callback for scene ${sceneId}: ${generation.rawState}`);
+    const providerResult = await provider.status(scene.luma_job_id, correlationId);
+
+    if (!providerResult.success || !providerResult.data) {
+      await logError({
+        route: '/luma-callback',
+        method: 'POST',
+        status: 502,
+        code: 'UPSTREAM_ERROR',
+        message: providerResult.error || 'Provider status check failed',
+        correlationId,
+        userId: scene.user_id,
+        safeContext: { sceneId, upstreamStatus: providerResult.upstreamStatus }
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UPSTREAM_ERROR',
+            message: 'Failed to confirm generation status with the provider',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 502, headers: responseHeaders }
+      );
+    }
+
+    const outcome = await applyGenerationStatus(supabase, scene, providerResult.data);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: outcome,
+        ok: true
+      }),
+      { headers: responseHeaders }
+    );
+
+  } catch (error) {
+    await logError({
+      route: '/luma-callback',
+      method: 'POST',
+      status: 500,
+      code: 'INTERNAL_ERROR',
+      message: error.message,
+      correlationId,
+    });
+
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error',
+          correlationId
+        },
+        ok: false
+      }),
+      { status: 500, headers: responseHeaders }
+    );
+  }
+});
@@ -0,0 +1,202 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { getProvider } from "../_shared/providers/index.ts";
+import { isSceneTerminal } from "../_shared/sceneCompletion.ts";
+import { finishGenerationJob, runGenerationQueue } from "../_shared/generationQueue.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+function generateCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+async function logError(params: {
+  route: string;
+  method: string;
+  status: number;
+  code: string;
+  message: string;
+  correlationId: string;
+  userId?: string;
+  safeContext?: Record<string, unknown>;
+}) {
+  try {
+    await supabase.from("error_events").insert({
+      route: params.route,
+      method: params.method,
+      status: params.status,
+      code: params.code,
+      message: params.message,
+      correlation_id: params.correlationId,
+      user_id: params.userId,
+      safe_context: params.safeContext,
+    });
+  } catch (logErr) {
+    console.error("Failed to log error:", logErr);
+  }
+  console.error(`[${params.correlationId}] ${params.method} ${params.route} - ${params.status} ${params.code}: ${params.message}`, params.safeContext);
+}
+
+function errorResponse(code: string, message: string, status: number, correlationId: string, headers: Record<string, string>) {
+  return new Response(
+    JSON.stringify({
+      error: {
+        code,
+        message,
+        correlationId
+      },
+      ok: false
+    }),
+    { status, headers }
+  );
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const correlationId = generateCorrelationId();
+  const responseHeaders = { ...corsHeaders, "Content-Type": "application/json", "x-correlation-id": correlationId };
+
+  if (req.method !== 'POST') {
+    return errorResponse('METHOD_NOT_ALLOWED', `Method ${req.method} not allowed`, 405, correlationId, responseHeaders);
+  }
+
+  try {
+    // Authenticate user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return errorResponse('UNAUTHORIZED', 'Missing or invalid authorization header', 401, correlationId, responseHeaders);
+    }
+
+    const token = authHeader.split(" ")[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return errorResponse('AUTH_ERROR', 'Authentication failed', 401, correlationId, responseHeaders);
+    }
+
+    let body: { scene_id?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse('INVALID_JSON', 'Invalid JSON in request body', 400, correlationId, responseHeaders);
+    }
+
+    if (!body.scene_id || typeof body.scene_id !== 'string') {
+      return errorResponse('VALIDATION_ERROR', 'scene_id is required and must be a string', 400, correlationId, responseHeaders);
+    }
+
+    const { data: scene, error: sceneError } = await supabase
+      .from('scenes')
+      .select('id, version, luma_job_id, luma_status, provider')
+      .eq('id', body.scene_id)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .single();
+
+    if (sceneError || !scene) {
+      return errorResponse('SCENE_NOT_FOUND', 'Scene not found', 404, correlationId, responseHeaders);
+    }
+
+    if (isSceneTerminal(scene)) {
+      return errorResponse('SCENE_NOT_CANCELLABLE', `Scene already ${scene.luma_status}`, 409, correlationId, responseHeaders);
+    }
+
+    if (scene.luma_job_id) {
+      const provider = getProvider(scene.provider);
+      if (!provider || !provider.capabilities().supportsCancel) {
+        // The render keeps going upstream; we just stop tracking it
+        console.log(`[${correlationId}] ${scene.provider} cannot cancel job ${scene.luma_job_id}; detaching scene ${scene.id}`);
+      } else {
+        const cancelResult = await provider.cancel(scene.luma_job_id, correlationId);
+
+        // 404 means the provider already dropped the generation, which is what we wanted
+        if (!cancelResult.success && cancelResult.upstreamStatus !== 404) {
+          await logError({
+            route: '/luma-cancel-scene',
+            method: 'POST',
+            status: 502,
+            code: 'CANCEL_FAILED',
+            message: cancelResult.error || 'Provider cancel failed',
+            correlationId,
+            userId: user.id,
+            safeContext: { sceneId: scene.id, provider: provider.id, upstreamStatus: cancelResult.upstreamStatus }
+          });
+
+          return errorResponse('CANCEL_FAILED', 'The provider did not cancel the generation; try again', 502, correlationId, responseHeaders);
+        }
+      }
+    }
+
+    // Closing the job frees its slot; a job mid-submission is cancelled upstream by the worker
+    await finishGenerationJob(supabase, scene.id, 'cancelled', 'Cancelled by user');
+
+    // Guarded on version and a non-terminal status so a render that just finished isn't overwritten
+    const { data: cancelled, error: updateError } = await supabase
+      .from('scenes')
+      .update({
+        luma_status: 'cancelled',
+        status: 'cancelled',
+        luma_error: 'Cancelled by user',
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', scene.id)
+      .eq('version', scene.version)
+      .in('luma_status', ['pending', 'queued', 'processing'])
+      .select('id')
+      .maybeSingle();
+
+    if (updateError) {
+      console.error(`[${correlationId}] Failed to mark scene cancelled:`, updateError);
+      return errorResponse('UPDATE_ERROR', 'Failed to cancel scene', 500, correlationId, responseHeaders);
+    }
+
+    if (!cancelled) {
+      return errorResponse('SCENE_NOT_CANCELLABLE', 'Scene finished before it could be cancelled', 409, correlationId, responseHeaders);
+    }
+
+    // The freed slot goes to the next queued scene
+    try {
+      await runGenerationQueue(supabase, correlationId);
+    } catch (queueError) {
+      console.error(`[${correlationId}] Failed to run generation queue:`, queueError);
+    }
+
+    console.log(`[${correlationId}] Scene ${scene.id} cancelled`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          sceneId: scene.id,
+          status: 'cancelled',
+          lumaStatus: 'cancelled'
+        },
+        ok: true
+      }),
+      { headers: responseHeaders }
+    );
+
+  } catch (error) {
+    await logError({
+      route: '/luma-cancel-scene',
+      method: req.method,
+      status: 500,
+      code: 'INTERNAL_ERROR',
+      message: error.message,
+      correlationId,
+    });
+
+    return errorResponse('INTERNAL_ERROR', 'Internal server error', 500, correlationId, responseHeaders);
+  }
+});
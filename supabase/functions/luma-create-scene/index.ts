@@ -1,6 +1,20 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
 import { v4 as uuidv4 } from "https://esm.sh/uuid@9.0.0";
+import { getProvider } from "../_shared/providers/index.ts";
+import { resolveParentGeneration, type ParentScene } from "../_shared/sceneExtension.ts";
+import {
+  resolveGenerationParams,
+  validateGenerationParams,
+} from "../_shared/generationParams.ts";
+import { enqueueGeneration, queuePosition, runGenerationQueue } from "../_shared/generationQueue.ts";
+import { budgetExceededMessage, checkBudgets, estimateGenerationCost } from "../_shared/usageLedger.ts";
+import {
+  buildScenePrompt,
+  validatePromptOverride,
+  validatePromptVars,
+  type ScenePromptVars,
+} from "../_shared/promptTemplate.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,8 +23,6 @@ const corsHeaders = {
 
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-const lumaApiKey = Deno.env.get("LUMA_API_KEY")!;
-const lumaApiBase = Deno.env.get("LUMA_API_BASE") || "https://api.lumalabs.ai/dream-machine/v1";
 const signedUrlTtl = parseInt(Deno.env.get("SIGNED_URL_TTL_SECONDS") || "3600");
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
@@ -49,11 +61,16 @@ async function logError(params: {
 function validateSceneRequest(body: any) {
   const errors: string[] = [];
   
-  if (!body.folder || typeof body.folder !== 'string') {
+  // Extensions inherit the folder and start frame from the parent scene
+  if (body.parent_scene_id !== undefined && typeof body.parent_scene_id !== 'string') {
+    errors.push('parent_scene_id must be a string if provided');
+  }
+
+  if (!body.parent_scene_id && (!body.folder || typeof body.folder !== 'string')) {
     errors.push('folder is required and must be a string');
   }
   
-  if (!body.start_key || typeof body.start_key !== 'string') {
+  if (!body.parent_scene_id && (!body.start_key || typeof body.start_key !== 'string')) {
     errors.push('start_key is required and must be a string');
   }
   
@@ -64,6 +81,14 @@ function validateSceneRequest(body: any) {
   if (!body.shot_type_id || typeof body.shot_type_id !== 'string') {
     errors.push('shot_type_id is required and must be a string');
   }
+
+  if (body.generation_params !== undefined && body.generation_params !== null &&
+      (typeof body.generation_params !== 'object' || Array.isArray(body.generation_params))) {
+    errors.push('generation_params must be an object if provided');
+  }
+
+  errors.push(...validatePromptVars(body.prompt_vars));
+  errors.push(...validatePromptOverride(body.prompt_override, body.prompt_override_mode));
   
   return errors;
 }
@@ -87,42 +112,6 @@ function extractStoragePath(cdnUrl: string): string {
   return match ? match[1] : cdnUrl;
 }
 
-async function callLumaAPI(payload: any, correlationId: string): Promise<{ success: boolean; data?: any; error?: string }> {
-  try {
-    console.log(`[${correlationId}] Calling Luma Dream Machine v1 API with payload:`, JSON.stringify(payload, null, 2));
-    
-    const response = await fetch(`${lumaApiBase}/generations`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${lumaApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload)
-    });
-    
-    const responseText = await response.text();
-    console.log(`[${correlationId}] Luma API response status: ${response.status}`);
-    console.log(`[${correlationId}] Luma API response body: ${responseText}`);
-    
-    if (!response.ok) {
-      return {
-        success: false,
-        error: `Luma API returned ${response.status}: ${responseText}`
-      };
-    }
-    
-    const data = JSON.parse(responseText);
-    return { success: true, data };
-    
-  } catch (error) {
-    console.error(`[${correlationId}] Luma API call failed:`, error);
-    return {
-      success: false,
-      error: `Luma API call failed: ${error.message}`
-    };
-  }
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -261,7 +250,7 @@ serve(async (req) => {
     // Get shot type details
     const { data: shotType, error: shotTypeError } = await supabase
       .from('shot_types')
-      .select('name, prompt_template')
+      .select('name, prompt_template, provider, provider_model, generation_params')
       .eq('id', body.shot_type_id)
       .eq('owner_id', user.id)
       .single();
@@ -290,11 +279,134 @@ serve(async (req) => {
       );
     }
 
+    // Extending continues the parent's provider generation, so both must use the same provider
+    let parent: ParentScene | null = null;
+    let parentGenerationId: string | null = null;
+    if (body.parent_scene_id) {
+      const parentResult = await resolveParentGeneration(supabase, body.parent_scene_id, user.id);
+      const providerMismatch = parentResult.ok && shotType.provider && shotType.provider !== parentResult.parent.provider;
+
+      if (!parentResult.ok || providerMismatch) {
+        const failure = parentResult.ok
+          ? { status: 400, code: 'PROVIDER_MISMATCH', message: 'Shot type uses a different provider than the parent scene' }
+          : parentResult;
+
+        await logError({
+          route: '/luma-create-scene',
+          method: 'POST',
+          status: failure.status,
+          code: failure.code,
+          message: failure.message,
+          correlationId,
+          userId: user.id,
+          safeContext: { parentSceneId: body.parent_scene_id }
+        });
+
+        return new Response(
+          JSON.stringify({ 
+            error: { 
+              code: failure.code, 
+              message: failure.message,
+              correlationId 
+            },
+            ok: false 
+          }),
+          { status: failure.status, headers: responseHeaders }
+        );
+      }
+
+      parent = parentResult.parent;
+      parentGenerationId = parentResult.generationId;
+    }
+
+    const folder: string = parent ? parent.folder : body.folder;
+
+    // Resolve the video provider for this shot type
+    const provider = getProvider(parent ? parent.provider : shotType.provider);
+    if (!provider) {
+      await logError({
+        route: '/luma-create-scene',
+        method: 'POST',
+        status: 400,
+        code: 'UNKNOWN_PROVIDER',
+        message: `Unknown video provider: ${shotType.provider}`,
+        correlationId,
+        userId: user.id,
+      });
+
+      return new Response(
+        JSON.stringify({ 
+          error: { 
+            code: 'UNKNOWN_PROVIDER', 
+            message: 'Shot type uses an unknown video provider',
+            correlationId 
+          },
+          ok: false 
+        }),
+        { status: 400, headers: responseHeaders }
+      );
+    }
+
+    if (parent && !provider.capabilities().supportsExtend) {
+      return new Response(
+        JSON.stringify({ 
+          error: { 
+            code: 'EXTEND_NOT_SUPPORTED', 
+            message: `${provider.id} cannot extend an existing scene`,
+            correlationId 
+          },
+          ok: false 
+        }),
+        { status: 400, headers: responseHeaders }
+      );
+    }
+
+    // Request params override the shot type's, which override the provider defaults
+    const paramErrors = [
+      ...validateGenerationParams(provider, shotType.generation_params).map((e) => `shot type: ${e}`),
+      ...(shotType.provider_model ? validateGenerationParams(provider, { model: shotType.provider_model }).map((e) => `shot type: ${e}`) : []),
+      ...validateGenerationParams(provider, body.generation_params),
+    ];
+
+    if (paramErrors.length > 0) {
+      await logError({
+        route: '/luma-create-scene',
+        method: 'POST',
+        status: 400,
+        code: 'VALIDATION_ERROR',
+        message: paramErrors.join(', '),
+        correlationId,
+        userId: user.id,
+        safeContext: { validationErrors: paramErrors, provider: provider.id }
+      });
+
+      return new Response(
+        JSON.stringify({ 
+          error: { 
+            code: 'VALIDATION_ERROR', 
+            message: 'Invalid generation parameters',
+            detail: paramErrors,
+            correlationId 
+          },
+          ok: false 
+        }),
+        { status: 400, headers: responseHeaders }
+      );
+    }
+
+    const generationParams = resolveGenerationParams(
+      provider,
+      shotType.generation_params,
+      { model: shotType.provider_model || undefined },
+      body.generation_params
+    );
+    const providerModel = generationParams.model;
+
     // Get project info for ordinal calculation
     const { data: project, error: projectError } = await supabase
       .from('projects')
       .select('id')
-      .eq('name', body.folder)
+      .eq('name', folder)
       .eq('owner_id', user.id)
       .single();
 
@@ -322,6 +434,43 @@ serve(async (req) => {
       );
     }
 
+    // Refuse renders that would take the user or project past its monthly budget
+    const costEstimate = estimateGenerationCost(provider.id, generationParams);
+    const budgetCheck = await checkBudgets(supabase, {
+      userId: user.id,
+      projectId: project.id,
+      estimateUsd: costEstimate.costUsd
+    });
+
+    if (!budgetCheck.ok) {
+      const { scope, budgetUsd, spentUsd } = budgetCheck.exceeded;
+      const message = budgetExceededMessage(budgetCheck, 'this scene');
+
+      await logError({
+        route: '/luma-create-scene',
+        method: 'POST',
+        status: 402,
+        code: 'BUDGET_EXCEEDED',
+        message,
+        correlationId,
+        userId: user.id,
+        safeContext: { scope, budgetUsd, spentUsd, estimateUsd: costEstimate.costUsd, projectId: project.id }
+      });
+
+      return new Response(
+        JSON.stringify({ 
+          error: { 
+            code: 'BUDGET_EXCEEDED', 
+            message,
+            detail: { scope, budgetUsd, spentUsd, estimateUsd: costEstimate.costUsd },
+            correlationId 
+          },
+          ok: false 
+        }),
+        { status: 402, headers: responseHeaders }
+      );
+    }
+
     // Get next ordinal for this project
     const { data: ordinalResult, error: ordinalError } = await supabase
       .rpc('next_scene_ordinal', { p_project_id: project.id });
@@ -343,8 +492,35 @@ serve(async (req) => {
 
     const nextOrdinal = ordinalResult;
 
-    // Generate signed URLs for the images
-    const startFrameStoragePath = extractStoragePath(body.start_key);
+    // The template is rendered now, while the project and ordinal it refers to are known
+    const promptVars: ScenePromptVars = body.prompt_vars || {};
+    const promptOverride: string | null = body.prompt_override?.trim() || null;
+    const promptOverrideMode = body.prompt_override_mode || 'append';
+    const prompt = buildScenePrompt(
+      shotType.prompt_template,
+      { text: promptOverride, mode: promptOverrideMode },
+      { project: folder, scene_ordinal: nextOrdinal, ...promptVars }
+    );
+
+    if (!prompt) {
+      return new Response(
+        JSON.stringify({ 
+          error: { 
+            code: 'VALIDATION_ERROR', 
+            message: 'Rendered prompt is empty; fill in the template variables or add a prompt',
+            correlationId 
+          },
+          ok: false 
+        }),
+        { status: 400, headers: responseHeaders }
+      );
+    }
+
+    // Generate signed URLs for the images. An extension starts where its parent ends, so its
+    // parent's end (or start) frame stands in as the thumbnail; the provider gets the generation itself.
+    const startFrameStoragePath = parent
+      ? (parent.end_key || parent.start_key)
+      : extractStoragePath(body.start_key);
     const endFrameStoragePath = body.end_key ? extractStoragePath(body.end_key) : null;
     
     const startFrameSignedUrl = await generateSignedUrl(startFrameStoragePath);
@@ -362,17 +538,26 @@ serve(async (req) => {
       .insert({
         user_id: user.id,
         project_id: project.id,
-        folder: body.folder,
+        folder,
+        parent_scene_id: parent?.id ?? null,
         start_key: startFrameStoragePath,
         end_key: endFrameStoragePath,
-        shot_type: body.shot_type_id,
+        shot_type_id: body.shot_type_id,
+        shot_type_name: shotType.name,
+        shot_type_prompt: shotType.prompt_template,
         ordinal: nextOrdinal,
         version: 1,
         start_frame_signed_url: startFrameSignedUrl,
         end_frame_signed_url: endFrameSignedUrl,
         signed_url_expires_at: new Date(Date.now() + 10 * 60 * 1000), // 10 minutes
         luma_status: 'pending',
-        status: 'queued'
+        status: 'queued',
+        provider: provider.id,
+        provider_model: providerModel,
+        generation_params: generationParams,
+        prompt_vars: promptVars,
+        prompt_override: promptOverride,
+        prompt_override_mode: promptOverrideMode
       })
       .select()
       .single();
@@ -394,36 +579,62 @@ serve(async (req) => {
 
     console.log('Created scene record:', scene.id);
 
-    // Prepare Luma Dream Machine v1 API payload
-    const lumaPayload = {
-      prompt: shotType.prompt_template,
-      resolution: "1080p",
-      model: "ray-flash-2",
-      loop: false
-    };
-
-    // Call Luma API
-    const lumaResult = await callLumaAPI(lumaPayload, correlationId);
-    
-    if (!lumaResult.success) {
-      // Update scene with error
+    // Queue the render; the worker submits it once the user and deployment have a free slot
+    try {
+      await enqueueGeneration(supabase, {
+        sceneId: scene.id,
+        userId: user.id,
+        version: 1,
+        prompt,
+        startGenerationId: parentGenerationId
+      });
+    } catch (queueError) {
       await supabase
         .from('scenes')
         .update({ 
           status: 'error',
           luma_status: 'failed',
-          luma_error: lumaResult.error
+          luma_error: queueError.message
         })
         .eq('id', scene.id);
 
+      await logError({
+        route: '/luma-create-scene',
+        method: 'POST',
+        status: 500,
+        code: 'QUEUE_ERROR',
+        message: queueError.message,
+        correlationId,
+        userId: user.id,
+        safeContext: { sceneId: scene.id }
+      });
+
+      return new Response(
+        JSON.stringify({ 
+          error: { 
+            code: 'QUEUE_ERROR', 
+            message: 'Failed to queue scene generation',
+            correlationId 
+          },
+          ok: false 
+        }),
+        { status: 500, headers: responseHeaders }
+      );
+    }
+
+    const queueRun = await runGenerationQueue(supabase, correlationId);
+    const submitFailure = queueRun.failed.find((f) => f.sceneId === scene.id);
+
+    if (submitFailure) {
       await logError({
         route: '/luma-create-scene',
         method: 'POST',
         status: 502,
         code: 'LUMA_API_ERROR',
-        message: lumaResult.error || 'Luma API call failed',
+        message: submitFailure.error,
         correlationId,
         userId: user.id,
+        safeContext: { provider: provider.id, sceneId: scene.id }
       });
       
       return new Response(
@@ -439,29 +650,30 @@ serve(async (req) => {
       );
     }
 
-    // Update scene with Luma job ID
-    const { error: updateError } = await supabase
+    // Another worker run may have started it, so read the state back rather than trusting queueRun
+    const { data: queuedScene } = await supabase
       .from('scenes')
-      .update({ 
-        luma_job_id: lumaResult.data.id,
-        status: 'processing',
-        luma_status: 'processing'
-      })
-      .eq('id', scene.id);
-
-    if (updateError) {
-      console.error(`[${correlationId}] Failed to update scene with Luma job ID:`, updateError);
-    }
+      .select('luma_job_id')
+      .eq('id', scene.id)
+      .single();
+    const started = !!queuedScene?.luma_job_id;
 
-    console.log(`[${correlationId}] Scene created successfully: ${scene.id}, Luma job: ${lumaResult.data.id}`);
+    console.log(`[${correlationId}] Scene created successfully: ${scene.id}, ${started ? `${provider.id} job: ${queuedScene?.luma_job_id}` : 'queued'}`);
 
     return new Response(
       JSON.stringify({ 
         success: true,
         data: {
           sceneId: scene.id,
-          lumaJobId: lumaResult.data.id,
-          status: 'processing'
+          lumaJobId: queuedScene?.luma_job_id ?? null,
+          provider: provider.id,
+          model: providerModel,
+          generationParams,
+          estimatedCostUsd: costEstimate.costUsd,
+          prompt,
+          parentSceneId: parent?.id ?? null,
+          status: started ? 'processing' : 'queued',
+          queuePosition: started ? null : await queuePosition(supabase, scene.id)
         },
         ok: true 
       }),
@@ -0,0 +1,535 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { v4 as uuidv4 } from "https://esm.sh/uuid@9.0.0";
+import { getProvider } from "../_shared/providers/index.ts";
+import {
+  resolveGenerationParams,
+  validateGenerationParams,
+  type GenerationParams,
+} from "../_shared/generationParams.ts";
+import { isSceneTerminal } from "../_shared/sceneCompletion.ts";
+import { resolveParentGeneration } from "../_shared/sceneExtension.ts";
+import { enqueueGeneration, queuePosition, runGenerationQueue } from "../_shared/generationQueue.ts";
+import { buildScenePrompt, validatePromptVars, type ScenePromptVars } from "../_shared/promptTemplate.ts";
+import { budgetExceededMessage, checkBudgets, estimateGenerationCost } from "../_shared/usageLedger.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const signedUrlTtl = parseInt(Deno.env.get("SIGNED_URL_TTL_SECONDS") || "3600");
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+function generateCorrelationId(): string {
+  return uuidv4();
+}
+
+async function logError(params: {
+  route: string;
+  method: string;
+  status: number;
+  code: string;
+  message: string;
+  correlationId: string;
+  userId?: string;
+  safeContext?: Record<string, unknown>;
+}) {
+  try {
+    await supabase.from("error_events").insert({
+      route: params.route,
+      method: params.method,
+      status: params.status,
+      code: params.code,
+      message: params.message,
+      correlation_id: params.correlationId,
+      user_id: params.userId,
+      safe_context: params.safeContext,
+    });
+  } catch (logErr) {
+    console.error("Failed to log error:", logErr);
+  }
+  console.error(`[${params.correlationId}] ${params.method} ${params.route} - ${params.status} ${params.code}: ${params.message}`, params.safeContext);
+}
+
+interface RegenerateRequest {
+  scene_id?: unknown;
+  shot_type_id?: unknown;
+  prompt?: unknown;
+  prompt_vars?: unknown;
+  generation_params?: unknown;
+}
+
+function validateRegenerateRequest(body: RegenerateRequest) {
+  const errors: string[] = [];
+
+  if (!body.scene_id || typeof body.scene_id !== 'string') {
+    errors.push('scene_id is required and must be a string');
+  }
+
+  if (body.shot_type_id !== undefined && typeof body.shot_type_id !== 'string') {
+    errors.push('shot_type_id must be a string if provided');
+  }
+
+  if (body.prompt !== undefined && (typeof body.prompt !== 'string' || !body.prompt.trim())) {
+    errors.push('prompt must be a non-empty string if provided');
+  }
+
+  errors.push(...validatePromptVars(body.prompt_vars));
+
+  return errors;
+}
+
+async function generateSignedUrl(storagePath: string): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.storage
+      .from('media')
+      .createSignedUrl(storagePath, signedUrlTtl);
+
+    if (error) throw error;
+    return data.signedUrl;
+  } catch (error) {
+    console.error('Failed to generate signed URL:', error);
+    return null;
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const correlationId = generateCorrelationId();
+  const responseHeaders = { ...corsHeaders, "Content-Type": "application/json" };
+
+  try {
+    let body: RegenerateRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'INVALID_JSON',
+            message: 'Invalid JSON in request body',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 400, headers: responseHeaders }
+      );
+    }
+
+    const validationErrors = validateRegenerateRequest(body);
+    if (validationErrors.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Request validation failed',
+            detail: validationErrors,
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 400, headers: responseHeaders }
+      );
+    }
+
+    // Authenticate user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Missing or invalid authorization header',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 401, headers: responseHeaders }
+      );
+    }
+
+    const token = authHeader.split(" ")[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'AUTH_ERROR',
+            message: 'Authentication failed',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 401, headers: responseHeaders }
+      );
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('status')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || profile?.status !== 'approved') {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'PROFILE_NOT_APPROVED',
+            message: 'Your profile must be approved to generate scenes',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 403, headers: responseHeaders }
+      );
+    }
+
+    const { data: scene, error: sceneError } = await supabase
+      .from('scenes')
+      .select('id, user_id, project_id, folder, ordinal, version, start_key, end_key, shot_type_id, shot_type_name, shot_type_prompt, parent_scene_id, luma_status, provider, provider_model, generation_params, prompt_vars, prompt_override, prompt_override_mode')
+      .eq('id', body.scene_id)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .single();
+
+    if (sceneError || !scene) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'SCENE_NOT_FOUND',
+            message: 'Scene not found',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 404, headers: responseHeaders }
+      );
+    }
+
+    // A running generation would finish into the bumped version, so wait for it
+    if (!isSceneTerminal(scene)) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'SCENE_IN_PROGRESS',
+            message: 'Scene is still generating; wait for it to finish before regenerating',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 409, headers: responseHeaders }
+      );
+    }
+
+    // Reuse the scene's shot type unless the caller picks another one. If the scene's shot type
+    // has been deleted, the template snapshotted at its last render is used instead.
+    const shotTypeId = (body.shot_type_id as string | undefined) || scene.shot_type_id;
+    const { data: shotType } = shotTypeId
+      ? await supabase
+        .from('shot_types')
+        .select('id, name, prompt_template')
+        .eq('id', shotTypeId)
+        .eq('owner_id', user.id)
+        .maybeSingle()
+      : { data: null };
+    const template: string | null = shotType?.prompt_template ?? (body.shot_type_id ? null : scene.shot_type_prompt);
+
+    // An explicit prompt is sent verbatim; otherwise the template is rendered with the scene's
+    // override and variables, updated by any the caller passes
+    const promptVars: ScenePromptVars = {
+      ...((scene.prompt_vars || {}) as ScenePromptVars),
+      ...((body.prompt_vars || {}) as ScenePromptVars)
+    };
+    const prompt = (body.prompt as string | undefined)?.trim() || (template && buildScenePrompt(
+      template,
+      { text: scene.prompt_override, mode: scene.prompt_override_mode },
+      { project: scene.folder, scene_ordinal: scene.ordinal, ...promptVars }
+    ));
+    if (!prompt) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'SHOT_TYPE_NOT_FOUND',
+            message: 'Shot type not found; pass a prompt to regenerate without one',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 400, headers: responseHeaders }
+      );
+    }
+
+    const provider = getProvider(scene.provider);
+    if (!provider) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNKNOWN_PROVIDER',
+            message: 'Scene uses an unknown video provider',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 400, headers: responseHeaders }
+      );
+    }
+
+    const paramErrors = validateGenerationParams(provider, body.generation_params);
+    if (paramErrors.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid generation parameters',
+            detail: paramErrors,
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 400, headers: responseHeaders }
+      );
+    }
+
+    // Stored settings reproduce the original render; scenes from before they were stored only have a model
+    const generationParams = resolveGenerationParams(
+      provider,
+      scene.generation_params || { model: scene.provider_model || undefined },
+      body.generation_params as GenerationParams | undefined
+    );
+
+    // Same budget check as luma-create-scene, made before the version is bumped
+    const costEstimate = estimateGenerationCost(provider.id, generationParams);
+    const budgetCheck = await checkBudgets(supabase, {
+      userId: user.id,
+      projectId: scene.project_id,
+      estimateUsd: costEstimate.costUsd
+    });
+
+    if (!budgetCheck.ok) {
+      const { scope, budgetUsd, spentUsd } = budgetCheck.exceeded;
+      const message = budgetExceededMessage(budgetCheck, 'this render');
+
+      await logError({
+        route: '/luma-regenerate-scene',
+        method: 'POST',
+        status: 402,
+        code: 'BUDGET_EXCEEDED',
+        message,
+        correlationId,
+        userId: user.id,
+        safeContext: { scope, budgetUsd, spentUsd, estimateUsd: costEstimate.costUsd, sceneId: scene.id, projectId: scene.project_id }
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'BUDGET_EXCEEDED',
+            message,
+            detail: { scope, budgetUsd, spentUsd, estimateUsd: costEstimate.costUsd },
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 402, headers: responseHeaders }
+      );
+    }
+
+    // Extensions keep continuing from the parent's currently active render
+    let parentGenerationId: string | null = null;
+    if (scene.parent_scene_id) {
+      const parentResult = await resolveParentGeneration(supabase, scene.parent_scene_id, user.id);
+      if (!parentResult.ok) {
+        return new Response(
+          JSON.stringify({
+            error: {
+              code: parentResult.code,
+              message: parentResult.message,
+              correlationId
+            },
+            ok: false
+          }),
+          { status: parentResult.status, headers: responseHeaders }
+        );
+      }
+      parentGenerationId = parentResult.generationId;
+    }
+
+    const startFrameSignedUrl = await generateSignedUrl(scene.start_key);
+    const endFrameSignedUrl = scene.end_key ? await generateSignedUrl(scene.end_key) : null;
+    const nextVersion = scene.version + 1;
+
+    // Guarded on the current version so two concurrent regenerations can't claim the same one
+    const { data: bumped, error: bumpError } = await supabase
+      .from('scenes')
+      .update({
+        version: nextVersion,
+        shot_type_id: shotType?.id ?? scene.shot_type_id,
+        shot_type_name: shotType?.name ?? scene.shot_type_name,
+        shot_type_prompt: template ?? scene.shot_type_prompt,
+        start_frame_signed_url: startFrameSignedUrl,
+        end_frame_signed_url: endFrameSignedUrl,
+        signed_url_expires_at: new Date(Date.now() + 10 * 60 * 1000),
+        luma_job_id: null,
+        luma_status: 'pending',
+        luma_error: null,
+        // Retry budget is per render
+        attempts: 0,
+        attempt_log: [],
+        next_retry_at: null,
+        status: 'queued',
+        provider_model: generationParams.model,
+        generation_params: generationParams,
+        prompt_vars: promptVars,
+        // Set again when the queue submits the new render
+        prompt: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', scene.id)
+      .eq('version', scene.version)
+      .select('id')
+      .maybeSingle();
+
+    if (bumpError || !bumped) {
+      if (bumpError) console.error(`[${correlationId}] Failed to bump scene version:`, bumpError);
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VERSION_CONFLICT',
+            message: 'Scene was regenerated concurrently; refresh and try again',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 409, headers: responseHeaders }
+      );
+    }
+
+    // Queued like any new scene so regenerations count against the in-flight limits
+    try {
+      await enqueueGeneration(supabase, {
+        sceneId: scene.id,
+        userId: user.id,
+        version: nextVersion,
+        prompt,
+        startGenerationId: parentGenerationId
+      });
+    } catch (queueError) {
+      await supabase
+        .from('scenes')
+        .update({
+          status: 'error',
+          luma_status: 'failed',
+          luma_error: queueError.message
+        })
+        .eq('id', scene.id);
+
+      await logError({
+        route: '/luma-regenerate-scene',
+        method: 'POST',
+        status: 500,
+        code: 'QUEUE_ERROR',
+        message: queueError.message,
+        correlationId,
+        userId: user.id,
+        safeContext: { sceneId: scene.id, version: nextVersion }
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'QUEUE_ERROR',
+            message: 'Failed to queue scene regeneration',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 500, headers: responseHeaders }
+      );
+    }
+
+    const queueRun = await runGenerationQueue(supabase, correlationId);
+    const submitFailure = queueRun.failed.find((f) => f.sceneId === scene.id);
+
+    if (submitFailure) {
+      await logError({
+        route: '/luma-regenerate-scene',
+        method: 'POST',
+        status: 502,
+        code: 'LUMA_API_ERROR',
+        message: submitFailure.error,
+        correlationId,
+        userId: user.id,
+        safeContext: { sceneId: scene.id, version: nextVersion, provider: provider.id }
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'LUMA_API_ERROR',
+            message: 'Scene regeneration failed',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 502, headers: responseHeaders }
+      );
+    }
+
+    const { data: queuedScene } = await supabase
+      .from('scenes')
+      .select('luma_job_id')
+      .eq('id', scene.id)
+      .single();
+    const started = !!queuedScene?.luma_job_id;
+
+    console.log(`[${correlationId}] Scene ${scene.id} regenerating as v${nextVersion}, ${started ? `${provider.id} job: ${queuedScene?.luma_job_id}` : 'queued'}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          sceneId: scene.id,
+          version: nextVersion,
+          lumaJobId: queuedScene?.luma_job_id ?? null,
+          provider: provider.id,
+          model: generationParams.model,
+          generationParams,
+          status: started ? 'processing' : 'queued',
+          queuePosition: started ? null : await queuePosition(supabase, scene.id)
+        },
+        ok: true
+      }),
+      { headers: responseHeaders }
+    );
+
+  } catch (error) {
+    await logError({
+      route: '/luma-regenerate-scene',
+      method: 'POST',
+      status: 500,
+      code: 'INTERNAL_ERROR',
+      message: error.message,
+      correlationId,
+    });
+
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error',
+          correlationId
+        },
+        ok: false
+      }),
+      { status: 500, headers: responseHeaders }
+    );
+  }
+});
@@ -0,0 +1,299 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { getProvider } from "../_shared/providers/index.ts";
+import {
+  applyGenerationStatus,
+  markSceneFailed,
+  SCENE_COMPLETION_COLUMNS,
+  type SceneForCompletion,
+} from "../_shared/sceneCompletion.ts";
+import { runGenerationQueue } from "../_shared/generationQueue.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const reconcilerSecret = Deno.env.get("RECONCILER_SECRET");
+const batchSize = Number(Deno.env.get("RECONCILE_BATCH_SIZE") || 50);
+const maxAgeHours = Number(Deno.env.get("SCENE_MAX_AGE_HOURS") || 24);
+// Scenes whose render was queued, submitted or changed state more recently than this are left
+// to client polling and callbacks
+const minAgeMinutes = Number(Deno.env.get("RECONCILE_MIN_AGE_MINUTES") || 5);
+// A job claimed by the worker longer ago than this without a provider id never got submitted
+const submitTimeoutMinutes = Number(Deno.env.get("QUEUE_SUBMIT_TIMEOUT_MINUTES") || 10);
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const NON_TERMINAL_LUMA_STATUSES = ["pending", "queued", "processing"];
+
+// updated_at moves when the current render is queued, submitted, retried or changes state, so a
+// regenerated scene's age starts over with its new job
+type SceneRow = SceneForCompletion & { updated_at: string };
+
+interface ReconcileReport {
+  scanned: number;
+  completed: string[];
+  failed: string[];
+  expired: string[];
+  stillProcessing: string[];
+  queued: string[];
+  started: string[];
+  errors: { sceneId: string; error: string }[];
+  dryRun: boolean;
+}
+
+function generateCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+async function logError(params: {
+  route: string;
+  method: string;
+  status: number;
+  code: string;
+  message: string;
+  correlationId: string;
+  safeContext?: Record<string, unknown>;
+}) {
+  try {
+    await supabase.from("error_events").insert({
+      route: params.route,
+      method: params.method,
+      status: params.status,
+      code: params.code,
+      message: params.message,
+      correlation_id: params.correlationId,
+      safe_context: params.safeContext || {},
+    });
+  } catch (logErr) {
+    console.error("Failed to log error:", logErr);
+  }
+  console.error(`[${params.correlationId}] ${params.method} ${params.route} - ${params.status} ${params.code}: ${params.message}`, params.safeContext);
+}
+
+function isAuthorized(req: Request): boolean {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer /, "");
+  if (!token) return false;
+  return token === supabaseServiceKey || (!!reconcilerSecret && token === reconcilerSecret);
+}
+
+async function reconcileScene(scene: SceneRow, report: ReconcileReport, now: number, correlationId: string) {
+  const ageHours = (now - new Date(scene.updated_at).getTime()) / 3_600_000;
+  const expired = ageHours >= maxAgeHours;
+
+  if (!scene.luma_job_id) {
+    const { data: job } = await supabase
+      .from('generation_jobs')
+      .select('status, started_at')
+      .eq('scene_id', scene.id)
+      .in('status', ['queued', 'submitting'])
+      .maybeSingle();
+
+    const submitStalled = job?.status === 'submitting' && job.started_at &&
+      now - new Date(job.started_at).getTime() >= submitTimeoutMinutes * 60_000;
+
+    if (job && !submitStalled && !expired) {
+      // Waiting in the generation queue, or being submitted right now
+      report.queued.push(scene.id);
+      return;
+    }
+
+    if (job && expired) {
+      if (!report.dryRun) {
+        await markSceneFailed(supabase, scene, `Expired after ${maxAgeHours}h waiting in the generation queue`);
+      }
+      report.expired.push(scene.id);
+      return;
+    }
+
+    // Never submitted to the provider (create crashed between insert and submit)
+    if (!report.dryRun) {
+      await markSceneFailed(supabase, scene, 'Generation was never submitted to the provider');
+    }
+    report.failed.push(scene.id);
+    return;
+  }
+
+  const provider = getProvider(scene.provider);
+  if (!provider) {
+    report.errors.push({ sceneId: scene.id, error: `Unknown provider: ${scene.provider}` });
+    return;
+  }
+
+  const result = await provider.status(scene.luma_job_id, correlationId);
+
+  if (!result.success) {
+    if (result.upstreamStatus === 404) {
+      if (!report.dryRun) {
+        await markSceneFailed(supabase, scene, 'Generation no longer exists at the provider');
+      }
+      report.failed.push(scene.id);
+    } else if (expired) {
+      if (!report.dryRun) {
+        await markSceneFailed(supabase, scene, `Expired after ${maxAgeHours}h; provider unreachable: ${result.error}`);
+      }
+      report.expired.push(scene.id);
+    } else {
+      report.errors.push({ sceneId: scene.id, error: result.error || 'Provider status failed' });
+    }
+    return;
+  }
+
+  const generation = result.data!;
+
+  if (generation.state !== 'completed' && generation.state !== 'failed' && expired) {
+    if (!report.dryRun) {
+      await markSceneFailed(supabase, scene, `Expired after ${maxAgeHours}h still ${generation.rawState || generation.state} at the provider`);
+    }
+    report.expired.push(scene.id);
+    return;
+  }
+
+  if (report.dryRun) {
+    const bucket = generation.state === 'completed' ? report.completed
+      : generation.state === 'failed' ? report.failed
+      : report.stillProcessing;
+    bucket.push(scene.id);
+    return;
+  }
+
+  const outcome = await applyGenerationStatus(supabase, scene, generation);
+  if (outcome.status === 'ready') {
+    report.completed.push(scene.id);
+  } else if (outcome.isTerminal) {
+    report.failed.push(scene.id);
+  } else {
+    report.stillProcessing.push(scene.id);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const correlationId = generateCorrelationId();
+  const responseHeaders = { ...corsHeaders, "Content-Type": "application/json", "x-correlation-id": correlationId };
+
+  if (!isAuthorized(req)) {
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Reconciler requires the service role key or RECONCILER_SECRET',
+          correlationId
+        },
+        ok: false
+      }),
+      { status: 401, headers: responseHeaders }
+    );
+  }
+
+  try {
+    const url = new URL(req.url);
+    const now = Date.now();
+    const report: ReconcileReport = {
+      scanned: 0,
+      completed: [],
+      failed: [],
+      expired: [],
+      stillProcessing: [],
+      queued: [],
+      started: [],
+      errors: [],
+      dryRun: url.searchParams.get("dryRun") === "true",
+    };
+
+    const { data: scenes, error: listError } = await supabase
+      .from('scenes')
+      .select(`${SCENE_COMPLETION_COLUMNS}, updated_at`)
+      .in('luma_status', NON_TERMINAL_LUMA_STATUSES)
+      .is('deleted_at', null)
+      .lt('updated_at', new Date(now - minAgeMinutes * 60_000).toISOString())
+      .order('updated_at', { ascending: true })
+      .limit(batchSize);
+
+    if (listError) {
+      await logError({
+        route: '/scene-reconciler',
+        method: req.method,
+        status: 500,
+        code: 'DB_ERROR',
+        message: listError.message,
+        correlationId,
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'DB_ERROR',
+            message: 'Failed to list non-terminal scenes',
+            correlationId
+          },
+          ok: false
+        }),
+        { status: 500, headers: responseHeaders }
+      );
+    }
+
+    for (const scene of (scenes || []) as SceneRow[]) {
+      report.scanned++;
+      try {
+        await reconcileScene(scene, report, now, correlationId);
+      } catch (error) {
+        report.errors.push({ sceneId: scene.id, error: error.message });
+      }
+    }
+
+    // Slots freed by this sweep go to queued scenes straight away
+    if (!report.dryRun) {
+      try {
+        const queueRun = await runGenerationQueue(supabase, correlationId);
+        report.started.push(...queueRun.started);
+      } catch (error) {
+        console.error(`[${correlationId}] Failed to run generation queue:`, error);
+      }
+    }
+
+    console.log(
+      `[${correlationId}] Reconciled ${report.scanned} scenes: ${report.completed.length} completed, ${report.failed.length} failed, ` +
+      `${report.expired.length} expired, ${report.stillProcessing.length} processing, ${report.queued.length} queued ` +
+      `(${report.started.length} started), ${report.errors.length} errors` +
+      (report.dryRun ? ' (dry run)' : '')
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: report,
+        ok: true
+      }),
+      { headers: responseHeaders }
+    );
+
+  } catch (error) {
+    await logError({
+      route: '/scene-reconciler',
+      method: req.method,
+      status: 500,
+      code: 'INTERNAL_ERROR',
+      message: error.message,
+      correlationId,
+    });
+
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error',
+          correlationId
+        },
+        ok: false
+      }),
+      { status: 500, headers: responseHeaders }
+    );
+  }
+});
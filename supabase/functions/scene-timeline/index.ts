@@ -0,0 +1,182 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { renameSceneFiles, restoreScene } from "../_shared/sceneTimeline.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, PUT, OPTIONS",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+function generateCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+function errorResponse(code: string, message: string, status: number, correlationId: string, headers: Record<string, string>) {
+  return new Response(
+    JSON.stringify({
+      error: {
+        code,
+        message,
+        correlationId
+      },
+      ok: false
+    }),
+    { status, headers }
+  );
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const correlationId = generateCorrelationId();
+  const responseHeaders = { ...corsHeaders, "Content-Type": "application/json", "x-correlation-id": correlationId };
+
+  try {
+    const url = new URL(req.url);
+    const isRestore = req.method === 'POST' && url.pathname.split('/').pop() === 'restore';
+
+    if (req.method !== 'PUT' && !isRestore) {
+      return errorResponse('METHOD_NOT_ALLOWED', `Method ${req.method} not allowed`, 405, correlationId, responseHeaders);
+    }
+
+    // Authenticate user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return errorResponse('UNAUTHORIZED', 'Missing or invalid authorization header', 401, correlationId, responseHeaders);
+    }
+
+    const token = authHeader.split(" ")[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return errorResponse('AUTH_ERROR', 'Authentication failed', 401, correlationId, responseHeaders);
+    }
+
+    let body: { folder?: unknown; ids?: unknown; excluded?: unknown; scene_id?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse('INVALID_JSON', 'Invalid JSON in request body', 400, correlationId, responseHeaders);
+    }
+
+    // POST scene-timeline/restore: { scene_id } undoes a delete
+    if (isRestore) {
+      if (typeof body.scene_id !== 'string' || !body.scene_id) {
+        return errorResponse('VALIDATION_ERROR', 'scene_id is required and must be a string', 400, correlationId, responseHeaders);
+      }
+
+      let restored: Awaited<ReturnType<typeof restoreScene>>;
+      try {
+        restored = await restoreScene(supabase, user.id, body.scene_id);
+      } catch (error) {
+        console.error(`[${correlationId}] Failed to restore scene ${body.scene_id}:`, error);
+        return errorResponse('UPDATE_ERROR', 'Failed to restore scene', 500, correlationId, responseHeaders);
+      }
+
+      if (!restored) {
+        return errorResponse('SCENE_NOT_FOUND', 'Scene not found', 404, correlationId, responseHeaders);
+      }
+      if (restored.failed > 0) {
+        console.error(`[${correlationId}] ${restored.failed} files of restored scene ${body.scene_id} could not be renamed`);
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: {
+            scene: { id: body.scene_id, ordinal: restored.ordinal },
+            renamedFiles: restored.renamed,
+            failedRenames: restored.failed
+          },
+          ok: true
+        }),
+        { headers: responseHeaders }
+      );
+    }
+
+    if (typeof body.folder !== 'string' || !body.folder.trim()) {
+      return errorResponse('VALIDATION_ERROR', 'folder is required and must be a string', 400, correlationId, responseHeaders);
+    }
+    const folder = body.folder.trim();
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('name', folder)
+      .eq('owner_id', user.id)
+      .maybeSingle();
+
+    if (!project) {
+      return errorResponse('PROJECT_NOT_FOUND', 'Project not found', 404, correlationId, responseHeaders);
+    }
+
+    const { data: scenes } = await supabase
+      .from('scenes')
+      .select('id')
+      .eq('project_id', project.id)
+      .eq('user_id', user.id)
+      .is('deleted_at', null);
+    const projectIds = new Set((scenes || []).map((scene) => scene.id));
+
+    const ids = body.ids;
+    if (
+      !Array.isArray(ids) ||
+      ids.length !== projectIds.size ||
+      new Set(ids).size !== ids.length ||
+      !ids.every((id) => typeof id === 'string' && projectIds.has(id))
+    ) {
+      return errorResponse('VALIDATION_ERROR', 'ids must list each of the project\'s scenes exactly once', 400, correlationId, responseHeaders);
+    }
+
+    const excluded = body.excluded ?? [];
+    if (!Array.isArray(excluded) || !excluded.every((id) => typeof id === 'string' && ids.includes(id))) {
+      return errorResponse('VALIDATION_ERROR', 'excluded may only list scenes in ids', 400, correlationId, responseHeaders);
+    }
+
+    const { data: reordered, error: reorderError } = await supabase
+      .rpc('reorder_scenes', { p_user_id: user.id, p_project_id: project.id, p_ids: ids, p_excluded: excluded });
+
+    if (reorderError) {
+      // 22023: the project's scenes changed between the check above and the update
+      if (reorderError.code === '22023') {
+        return errorResponse('TIMELINE_CHANGED', 'Scenes were added or removed meanwhile; reload and try again', 409, correlationId, responseHeaders);
+      }
+      console.error(`[${correlationId}] Failed to reorder scenes:`, reorderError);
+      return errorResponse('UPDATE_ERROR', 'Failed to reorder scenes', 500, correlationId, responseHeaders);
+    }
+
+    const ordinals = new Map<string, number>(
+      ((reordered || []) as { scene_id: string; ordinal: number }[]).map((row) => [row.scene_id, row.ordinal])
+    );
+    const { renamed, failed } = await renameSceneFiles(supabase, user.id, folder, ordinals);
+
+    if (failed > 0) {
+      console.error(`[${correlationId}] ${failed} scene files could not be renamed in ${folder}`);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          scenes: ids.map((id) => ({ id, ordinal: ordinals.get(id), excluded: excluded.includes(id) })),
+          renamedFiles: renamed,
+          failedRenames: failed
+        },
+        ok: true
+      }),
+      { headers: responseHeaders }
+    );
+
+  } catch (error) {
+    console.error(`[${correlationId}] Unexpected error:`, error);
+    return errorResponse('INTERNAL_ERROR', 'Internal server error', 500, correlationId, responseHeaders);
+  }
+});
@@ -0,0 +1,195 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const signedUrlTtl = parseInt(Deno.env.get("SIGNED_URL_TTL_SECONDS") || "3600");
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+function generateCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+function errorResponse(code: string, message: string, status: number, correlationId: string, headers: Record<string, string>) {
+  return new Response(
+    JSON.stringify({
+      error: {
+        code,
+        message,
+        correlationId
+      },
+      ok: false
+    }),
+    { status, headers }
+  );
+}
+
+async function loadOwnedScene(sceneId: string, userId: string) {
+  const { data, error } = await supabase
+    .from('scenes')
+    .select('id, version, active_version')
+    .eq('id', sceneId)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .single();
+
+  return error ? null : data;
+}
+
+async function signVideo(videoKey: string | null): Promise<string | null> {
+  if (!videoKey) return null;
+
+  const { data, error } = await supabase.storage
+    .from('media')
+    .createSignedUrl(videoKey, signedUrlTtl);
+
+  if (error) {
+    console.error(`Failed to sign video ${videoKey}:`, error);
+    return null;
+  }
+  return data.signedUrl;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const correlationId = generateCorrelationId();
+  const responseHeaders = { ...corsHeaders, "Content-Type": "application/json", "x-correlation-id": correlationId };
+
+  try {
+    // Authenticate user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return errorResponse('UNAUTHORIZED', 'Missing or invalid authorization header', 401, correlationId, responseHeaders);
+    }
+
+    const token = authHeader.split(" ")[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return errorResponse('AUTH_ERROR', 'Authentication failed', 401, correlationId, responseHeaders);
+    }
+
+    if (req.method === 'GET') {
+      // List every rendered version of a scene with playable URLs
+      const sceneId = new URL(req.url).searchParams.get('scene_id');
+      if (!sceneId) {
+        return errorResponse('MISSING_SCENE_ID', 'scene_id query parameter is required', 400, correlationId, responseHeaders);
+      }
+
+      const scene = await loadOwnedScene(sceneId, user.id);
+      if (!scene) {
+        return errorResponse('SCENE_NOT_FOUND', 'Scene not found', 404, correlationId, responseHeaders);
+      }
+
+      const { data: versions, error: versionsError } = await supabase
+        .from('scene_versions')
+        .select('version, video_url, poster_url, preview_url, render_meta, provider, provider_model, created_at')
+        .eq('scene_id', sceneId)
+        .order('version', { ascending: false });
+
+      if (versionsError) {
+        console.error(`[${correlationId}] Failed to list scene versions:`, versionsError);
+        return errorResponse('LIST_ERROR', 'Failed to fetch scene versions', 500, correlationId, responseHeaders);
+      }
+
+      const activeVersion = scene.active_version ?? versions?.[0]?.version ?? null;
+      const data = await Promise.all((versions || []).map(async (version) => ({
+        version: version.version,
+        videoKey: version.video_url,
+        videoUrl: await signVideo(version.video_url),
+        posterUrl: await signVideo(version.poster_url),
+        previewUrl: await signVideo(version.preview_url),
+        renderMeta: version.render_meta || {},
+        provider: version.provider,
+        providerModel: version.provider_model,
+        createdAt: version.created_at,
+        isActive: version.version === activeVersion,
+      })));
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: {
+            sceneId,
+            currentVersion: scene.version,
+            activeVersion,
+            versions: data
+          },
+          ok: true
+        }),
+        { headers: responseHeaders }
+      );
+    }
+
+    if (req.method === 'POST') {
+      // Pin a rendered version as the one exports and scene cards use
+      let body: { scene_id?: unknown; version?: unknown };
+      try {
+        body = await req.json();
+      } catch {
+        return errorResponse('INVALID_JSON', 'Invalid JSON in request body', 400, correlationId, responseHeaders);
+      }
+
+      if (typeof body.scene_id !== 'string' || !Number.isInteger(body.version)) {
+        return errorResponse('VALIDATION_ERROR', 'scene_id (string) and version (integer) are required', 400, correlationId, responseHeaders);
+      }
+
+      const scene = await loadOwnedScene(body.scene_id, user.id);
+      if (!scene) {
+        return errorResponse('SCENE_NOT_FOUND', 'Scene not found', 404, correlationId, responseHeaders);
+      }
+
+      const { data: version } = await supabase
+        .from('scene_versions')
+        .select('version, video_url')
+        .eq('scene_id', body.scene_id)
+        .eq('version', body.version)
+        .maybeSingle();
+
+      if (!version?.video_url) {
+        return errorResponse('VERSION_NOT_FOUND', `Version ${body.version} has no rendered video`, 404, correlationId, responseHeaders);
+      }
+
+      const { error: updateError } = await supabase
+        .from('scenes')
+        .update({
+          active_version: version.version,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', body.scene_id)
+        .eq('user_id', user.id);
+
+      if (updateError) {
+        console.error(`[${correlationId}] Failed to pin scene version:`, updateError);
+        return errorResponse('UPDATE_ERROR', 'Failed to set active version', 500, correlationId, responseHeaders);
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: {
+            sceneId: body.scene_id,
+            activeVersion: version.version
+          },
+          ok: true
+        }),
+        { headers: responseHeaders }
+      );
+    }
+
+    return errorResponse('METHOD_NOT_ALLOWED', `Method ${req.method} not allowed`, 405, correlationId, responseHeaders);
+
+  } catch (error) {
+    console.error(`[${correlationId}] Unexpected error:`, error);
+    return errorResponse('INTERNAL_ERROR', 'Internal server error', 500, correlationId, responseHeaders);
+  }
+});
@@ -0,0 +1,266 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import {
+  expireStaleRenders,
+  handleSequenceCallback,
+  RENDER_COLUMNS,
+  startSequenceRender,
+  type SequenceRender,
+  type SequenceRendererConfig
+} from "../_shared/sequenceRender.ts";
+import { parseDurationSeconds } from "../_shared/usageLedger.ts";
+import { timelineFrameSize } from "../_shared/timelineManifests.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const signedUrlTtl = parseInt(Deno.env.get("SIGNED_URL_TTL_SECONDS") || "3600");
+const renderUrl = Deno.env.get("SEQUENCE_RENDER_URL");
+const renderToken = Deno.env.get("SEQUENCE_RENDER_TOKEN");
+const callbackSecret = Deno.env.get("SEQUENCE_RENDER_SECRET");
+const callbackBaseUrl = Deno.env.get("CALLBACK_BASE_URL") || `${supabaseUrl}/functions/v1`;
+const renderTimeoutMinutes = parseInt(Deno.env.get("SEQUENCE_RENDER_TIMEOUT_MINUTES") || "30");
+const renderFps = parseInt(Deno.env.get("SEQUENCE_RENDER_FPS") || "24");
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const MAX_CROSSFADE_SECONDS = 2;
+// Fallback for scenes rendered before durations were stored
+const DEFAULT_CLIP_SECONDS = 5;
+
+function generateCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+function errorResponse(code: string, message: string, status: number, correlationId: string, headers: Record<string, string>) {
+  return new Response(
+    JSON.stringify({
+      error: {
+        code,
+        message,
+        correlationId
+      },
+      ok: false
+    }),
+    { status, headers }
+  );
+}
+
+async function signVideo(videoKey: string | null): Promise<string | null> {
+  if (!videoKey) return null;
+
+  const { data, error } = await supabase.storage
+    .from('media')
+    .createSignedUrl(videoKey, signedUrlTtl);
+
+  if (error) {
+    console.error(`Failed to sign video ${videoKey}:`, error);
+    return null;
+  }
+  return data.signedUrl;
+}
+
+async function toResponseRender(render: SequenceRender) {
+  return {
+    id: render.id,
+    status: render.status,
+    crossfadeSeconds: Number(render.crossfade_seconds),
+    sceneCount: render.clips.length,
+    durationSeconds: render.duration_seconds,
+    videoUrl: render.status === 'ready' ? await signVideo(render.video_url) : null,
+    error: render.error,
+    startedAt: render.started_at,
+    finishedAt: render.finished_at,
+    createdAt: render.created_at
+  };
+}
+
+async function handleCallback(req: Request, correlationId: string, responseHeaders: Record<string, string>) {
+  if (!callbackSecret) {
+    return errorResponse('CALLBACKS_DISABLED', 'Sequence render callbacks are not configured', 503, correlationId, responseHeaders);
+  }
+
+  const result = await handleSequenceCallback(supabase, callbackSecret, req);
+  if (!result.ok) {
+    return errorResponse(result.code, result.message, result.status, correlationId, responseHeaders);
+  }
+  return new Response(JSON.stringify({ success: true, data: result.render, ok: true }), { headers: responseHeaders });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const correlationId = generateCorrelationId();
+  const responseHeaders = { ...corsHeaders, "Content-Type": "application/json", "x-correlation-id": correlationId };
+  const url = new URL(req.url);
+
+  try {
+    // Renderer callback: POST ?render={id}&sig={hmac}
+    if (req.method === 'POST' && url.searchParams.has('render')) {
+      return await handleCallback(req, correlationId, responseHeaders);
+    }
+
+    // Authenticate user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return errorResponse('UNAUTHORIZED', 'Missing or invalid authorization header', 401, correlationId, responseHeaders);
+    }
+
+    const token = authHeader.split(" ")[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return errorResponse('AUTH_ERROR', 'Authentication failed', 401, correlationId, responseHeaders);
+    }
+
+    let folder: string | null;
+    let crossfade: unknown = 0;
+    if (req.method === 'GET') {
+      folder = url.searchParams.get('folder');
+    } else if (req.method === 'POST') {
+      let body: { folder?: unknown; crossfade_seconds?: unknown };
+      try {
+        body = await req.json();
+      } catch {
+        return errorResponse('INVALID_JSON', 'Invalid JSON in request body', 400, correlationId, responseHeaders);
+      }
+      folder = typeof body.folder === 'string' ? body.folder : null;
+      crossfade = body.crossfade_seconds ?? 0;
+    } else {
+      return errorResponse('METHOD_NOT_ALLOWED', `Method ${req.method} not allowed`, 405, correlationId, responseHeaders);
+    }
+
+    if (!folder?.trim()) {
+      return errorResponse('VALIDATION_ERROR', 'folder is required and must be a string', 400, correlationId, responseHeaders);
+    }
+    folder = folder.trim();
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('name', folder)
+      .eq('owner_id', user.id)
+      .maybeSingle();
+
+    if (!project) {
+      return errorResponse('PROJECT_NOT_FOUND', 'Project not found', 404, correlationId, responseHeaders);
+    }
+
+    await expireStaleRenders(supabase, project.id, renderTimeoutMinutes);
+
+    if (req.method === 'GET') {
+      // The project's latest render, whatever its status
+      const { data: latest, error: latestError } = await supabase
+        .from('sequence_renders')
+        .select(RENDER_COLUMNS)
+        .eq('project_id', project.id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latestError) {
+        console.error(`[${correlationId}] Failed to load sequence render:`, latestError);
+        return errorResponse('LIST_ERROR', 'Failed to fetch sequence render', 500, correlationId, responseHeaders);
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { render: latest ? await toResponseRender(latest as SequenceRender) : null },
+          ok: true
+        }),
+        { headers: responseHeaders }
+      );
+    }
+
+    // POST: start a render of the project's current timeline
+    if (!renderUrl || !callbackSecret) {
+      return errorResponse('SEQUENCE_RENDER_NOT_CONFIGURED', 'Sequence rendering is not configured on this deployment', 503, correlationId, responseHeaders);
+    }
+
+    if (typeof crossfade !== 'number' || !Number.isFinite(crossfade) || crossfade < 0 || crossfade > MAX_CROSSFADE_SECONDS) {
+      return errorResponse('VALIDATION_ERROR', `crossfade_seconds must be between 0 and ${MAX_CROSSFADE_SECONDS}`, 400, correlationId, responseHeaders);
+    }
+
+    const { data: scenes, error: scenesError } = await supabase
+      .from('scenes')
+      .select('id, ordinal, active_version')
+      .eq('user_id', user.id)
+      .eq('project_id', project.id)
+      .is('deleted_at', null)
+      .eq('excluded_from_timeline', false)
+      .not('active_version', 'is', null)
+      .not('ordinal', 'is', null)
+      .order('ordinal', { ascending: true });
+
+    if (scenesError) {
+      console.error(`[${correlationId}] Failed to list scenes for sequence render:`, scenesError);
+      return errorResponse('LIST_ERROR', 'Failed to fetch scenes', 500, correlationId, responseHeaders);
+    }
+
+    const { data: versions } = await supabase
+      .from('scene_versions')
+      .select('scene_id, version, video_url, render_meta')
+      .in('scene_id', (scenes || []).map((scene) => scene.id))
+      .not('video_url', 'is', null);
+
+    // Durations and frame size come from the active version's render, which may be an older pinned one
+    const timeline = (scenes || []).flatMap((scene) => {
+      const version = versions?.find((v) => v.scene_id === scene.id && v.version === scene.active_version);
+      const videoKey = version?.video_url;
+      const params = (version?.render_meta?.generation_params || {}) as { duration?: string; resolution?: string; aspect_ratio?: string };
+      return videoKey
+        ? [{ scene, videoKey, params, durationSeconds: parseDurationSeconds(params.duration) || DEFAULT_CLIP_SECONDS }]
+        : [];
+    });
+
+    if (timeline.length === 0) {
+      return errorResponse('NOTHING_TO_RENDER', 'This project has no finished scenes in its timeline', 400, correlationId, responseHeaders);
+    }
+
+    if (timeline.length > 1 && crossfade >= Math.min(...timeline.map((clip) => clip.durationSeconds))) {
+      return errorResponse('VALIDATION_ERROR', 'crossfade_seconds must be shorter than every scene', 400, correlationId, responseHeaders);
+    }
+
+    const renderer: SequenceRendererConfig = {
+      url: renderUrl,
+      token: renderToken,
+      callbackSecret,
+      callbackBaseUrl,
+      fps: renderFps,
+      signedUrlTtl
+    };
+    const firstParams = timeline[0].params;
+    const started = await startSequenceRender(supabase, renderer, {
+      userId: user.id,
+      projectId: project.id,
+      folder,
+      crossfadeSeconds: crossfade,
+      clips: timeline,
+      output: timelineFrameSize(firstParams.resolution, firstParams.aspect_ratio)
+    });
+
+    if (!started.ok) {
+      return errorResponse(started.code, started.message, started.status, correlationId, responseHeaders);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: { render: await toResponseRender(started.render) },
+        ok: true
+      }),
+      { status: 202, headers: responseHeaders }
+    );
+
+  } catch (error) {
+    console.error(`[${correlationId}] Unexpected error:`, error);
+    return errorResponse('INTERNAL_ERROR', 'Internal server error', 500, correlationId, responseHeaders);
+  }
+});
@@ -0,0 +1,428 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import {
+  importShotTypes,
+  isConflictStrategy,
+  parseShotTypePresets,
+  toPreset,
+  type ShotTypePreset,
+} from "../_shared/shotTypePresets.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+type LibraryAction = 'create_team' | 'add_member' | 'remove_member' | 'publish' | 'import' | 'delete_library';
+
+const LIBRARY_ACTIONS: LibraryAction[] = ['create_team', 'add_member', 'remove_member', 'publish', 'import', 'delete_library'];
+
+type RequestBody = Record<string, unknown>;
+
+class LibraryError extends Error {
+  constructor(public code: string, message: string, public status: number, public detail?: string[]) {
+    super(message);
+  }
+}
+
+function generateCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+async function logError(params: {
+  route: string;
+  method: string;
+  status: number;
+  code: string;
+  message: string;
+  correlationId: string;
+  userId?: string;
+  safeContext?: Record<string, unknown>;
+}) {
+  try {
+    await supabase.from("error_events").insert({
+      route: params.route,
+      method: params.method,
+      status: params.status,
+      code: params.code,
+      message: params.message,
+      correlation_id: params.correlationId,
+      user_id: params.userId,
+      safe_context: params.safeContext,
+    });
+  } catch (logErr) {
+    console.error("Failed to log error:", logErr);
+  }
+  console.error(`[${params.correlationId}] ${params.method} ${params.route} - ${params.status} ${params.code}: ${params.message}`, params.safeContext);
+}
+
+function errorResponse(code: string, message: string, status: number, correlationId: string, headers: Record<string, string>, detail?: string[]) {
+  return new Response(
+    JSON.stringify({
+      error: {
+        code,
+        message,
+        ...(detail ? { detail } : {}),
+        correlationId
+      },
+      ok: false
+    }),
+    { status, headers }
+  );
+}
+
+async function teamRole(teamId: string, userId: string): Promise<'owner' | 'member' | null> {
+  const { data } = await supabase
+    .from('team_members')
+    .select('role')
+    .eq('team_id', teamId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  return (data?.role as 'owner' | 'member' | undefined) ?? null;
+}
+
+function requiredString(body: RequestBody, field: string): string {
+  const value = body[field];
+  if (!value || typeof value !== 'string' || !value.trim()) {
+    throw new LibraryError('VALIDATION_ERROR', `${field} is required and must be a string`, 400);
+  }
+  return value;
+}
+
+async function requireMember(teamId: string, userId: string, ownerOnly = false) {
+  const role = await teamRole(teamId, userId);
+  if (!role) {
+    throw new LibraryError('TEAM_NOT_FOUND', 'Team not found', 404);
+  }
+  if (ownerOnly && role !== 'owner') {
+    throw new LibraryError('FORBIDDEN', 'Only team owners can do this', 403);
+  }
+  return role;
+}
+
+async function listTeamsAndLibraries(userId: string) {
+  const { data: memberships, error } = await supabase
+    .from('team_members')
+    .select('team_id, role, team:teams(id, name)')
+    .eq('user_id', userId);
+
+  if (error) throw new LibraryError('DB_ERROR', 'Failed to load teams', 500);
+
+  const teamIds = (memberships || []).map((m) => m.team_id);
+  if (teamIds.length === 0) return { teams: [], libraries: [] };
+
+  const [{ data: members }, { data: libraries }] = await Promise.all([
+    supabase.from('team_members').select('team_id, user_id, role').in('team_id', teamIds),
+    supabase
+      .from('shot_type_libraries')
+      .select('id, team_id, name, description, shot_types, created_by, updated_at')
+      .in('team_id', teamIds)
+      .order('name', { ascending: true }),
+  ]);
+
+  const memberIds = [...new Set((members || []).map((m) => m.user_id))];
+  const { data: profiles } = memberIds.length
+    ? await supabase.from('profiles').select('id, email').in('id', memberIds)
+    : { data: [] };
+  const emails = new Map((profiles || []).map((p) => [p.id, p.email]));
+
+  const teams = (memberships || []).map((m) => {
+    const team = m.team as unknown as { id: string; name: string };
+    return {
+      id: team.id,
+      name: team.name,
+      role: m.role,
+      members: (members || [])
+        .filter((member) => member.team_id === team.id)
+        .map((member) => ({ userId: member.user_id, email: emails.get(member.user_id) ?? null, role: member.role }))
+    };
+  });
+  const teamNames = new Map(teams.map((t) => [t.id, t.name]));
+
+  return {
+    teams,
+    libraries: (libraries || []).map((library) => ({
+      id: library.id,
+      teamId: library.team_id,
+      teamName: teamNames.get(library.team_id) ?? null,
+      name: library.name,
+      description: library.description,
+      shotTypes: library.shot_types as ShotTypePreset[],
+      createdBy: emails.get(library.created_by) ?? null,
+      updatedAt: library.updated_at
+    }))
+  };
+}
+
+async function runAction(action: LibraryAction, body: RequestBody, userId: string) {
+  switch (action) {
+    case 'create_team': {
+      const name = requiredString(body, 'name').trim();
+
+      const { data: team, error } = await supabase
+        .from('teams')
+        .insert({ name, created_by: userId })
+        .select('id, name')
+        .single();
+      if (error || !team) throw new LibraryError('CREATE_ERROR', 'Failed to create team', 500);
+
+      const { error: memberError } = await supabase
+        .from('team_members')
+        .insert({ team_id: team.id, user_id: userId, role: 'owner' });
+      if (memberError) {
+        await supabase.from('teams').delete().eq('id', team.id);
+        throw new LibraryError('CREATE_ERROR', 'Failed to create team', 500);
+      }
+
+      return { teamId: team.id, name: team.name };
+    }
+
+    case 'add_member': {
+      const teamId = requiredString(body, 'team_id');
+      await requireMember(teamId, userId, true);
+      // Auth stores emails lower-cased, so an exact match is case-insensitive
+      const email = requiredString(body, 'email').trim().toLowerCase();
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('id, status')
+        .eq('email', email)
+        .maybeSingle();
+      if (!profile || profile.status !== 'approved') {
+        throw new LibraryError('USER_NOT_FOUND', 'No approved user with that email', 404);
+      }
+
+      const { error } = await supabase
+        .from('team_members')
+        .upsert({ team_id: teamId, user_id: profile.id, role: 'member' }, { onConflict: 'team_id,user_id', ignoreDuplicates: true });
+      if (error) throw new LibraryError('UPDATE_ERROR', 'Failed to add member', 500);
+
+      return { teamId, userId: profile.id };
+    }
+
+    case 'remove_member': {
+      // Owners remove anyone; members can leave
+      const teamId = requiredString(body, 'team_id');
+      const role = await requireMember(teamId, userId);
+      const memberId = requiredString(body, 'user_id');
+      if (memberId !== userId && role !== 'owner') {
+        throw new LibraryError('FORBIDDEN', 'Only team owners can remove other members', 403);
+      }
+
+      const { count: owners } = await supabase
+        .from('team_members')
+        .select('user_id', { count: 'exact', head: true })
+        .eq('team_id', teamId)
+        .eq('role', 'owner');
+      if (await teamRole(teamId, memberId) === 'owner' && (owners || 0) <= 1) {
+        throw new LibraryError('LAST_OWNER', 'A team needs at least one owner', 409);
+      }
+
+      const { error } = await supabase
+        .from('team_members')
+        .delete()
+        .eq('team_id', teamId)
+        .eq('user_id', memberId);
+      if (error) throw new LibraryError('UPDATE_ERROR', 'Failed to remove member', 500);
+
+      return { teamId, userId: memberId };
+    }
+
+    case 'publish': {
+      // Snapshots the caller's shot types (all, or shot_type_ids) into a team library.
+      // Publishing under an existing name replaces that library.
+      const teamId = requiredString(body, 'team_id');
+      const role = await requireMember(teamId, userId);
+      const name = requiredString(body, 'name').trim();
+
+      const { data: existing } = await supabase
+        .from('shot_type_libraries')
+        .select('created_by')
+        .eq('team_id', teamId)
+        .eq('name', name)
+        .maybeSingle();
+      if (existing && existing.created_by !== userId && role !== 'owner') {
+        throw new LibraryError('FORBIDDEN', 'Another member published a library with this name', 403);
+      }
+      const shotTypeIds = body.shot_type_ids;
+      if (shotTypeIds !== undefined && (!Array.isArray(shotTypeIds) || !shotTypeIds.every((id) => typeof id === 'string'))) {
+        throw new LibraryError('VALIDATION_ERROR', 'shot_type_ids must be an array of strings if provided', 400);
+      }
+
+      let query = supabase
+        .from('shot_types')
+        .select('name, prompt_template, hotkey, sort_order, provider, provider_model, generation_params')
+        .eq('owner_id', userId)
+        .order('sort_order', { ascending: true });
+      if (shotTypeIds) query = query.in('id', shotTypeIds);
+
+      const { data: shotTypes, error } = await query;
+      if (error) throw new LibraryError('DB_ERROR', 'Failed to load shot types', 500);
+      if (!shotTypes || shotTypes.length === 0) {
+        throw new LibraryError('VALIDATION_ERROR', 'No shot types to publish', 400);
+      }
+
+      const { data: library, error: upsertError } = await supabase
+        .from('shot_type_libraries')
+        .upsert({
+          team_id: teamId,
+          name,
+          description: typeof body.description === 'string' ? body.description.trim() || null : null,
+          shot_types: (shotTypes as ShotTypePreset[]).map(toPreset),
+          created_by: userId
+        }, { onConflict: 'team_id,name' })
+        .select('id, name')
+        .single();
+      if (upsertError || !library) throw new LibraryError('UPDATE_ERROR', 'Failed to publish library', 500);
+
+      return { libraryId: library.id, name: library.name, count: shotTypes.length };
+    }
+
+    case 'import': {
+      const libraryId = requiredString(body, 'library_id');
+      const strategy = body.strategy ?? 'skip';
+      if (!isConflictStrategy(strategy)) {
+        throw new LibraryError('VALIDATION_ERROR', 'strategy must be skip, overwrite or rename', 400);
+      }
+
+      const { data: library } = await supabase
+        .from('shot_type_libraries')
+        .select('id, team_id, shot_types')
+        .eq('id', libraryId)
+        .maybeSingle();
+      if (!library || !(await teamRole(library.team_id, userId))) {
+        throw new LibraryError('LIBRARY_NOT_FOUND', 'Library not found', 404);
+      }
+
+      // Libraries are re-validated in case providers or template variables changed since publishing
+      const { presets, errors } = parseShotTypePresets(library.shot_types);
+      if (errors.length > 0) {
+        throw new LibraryError('VALIDATION_ERROR', 'Library contains invalid shot types', 400, errors);
+      }
+
+      const result = await importShotTypes(supabase, userId, presets, { strategy, dryRun: body.dry_run === true });
+      return { ...result, dryRun: body.dry_run === true };
+    }
+
+    case 'delete_library': {
+      const libraryId = requiredString(body, 'library_id');
+
+      const { data: library } = await supabase
+        .from('shot_type_libraries')
+        .select('id, team_id, created_by')
+        .eq('id', libraryId)
+        .maybeSingle();
+      const role = library ? await teamRole(library.team_id, userId) : null;
+      if (!library || !role) {
+        throw new LibraryError('LIBRARY_NOT_FOUND', 'Library not found', 404);
+      }
+      if (library.created_by !== userId && role !== 'owner') {
+        throw new LibraryError('FORBIDDEN', 'Only the publisher or a team owner can delete a library', 403);
+      }
+
+      const { error } = await supabase.from('shot_type_libraries').delete().eq('id', library.id);
+      if (error) throw new LibraryError('DELETE_ERROR', 'Failed to delete library', 500);
+
+      return { libraryId: library.id };
+    }
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const correlationId = generateCorrelationId();
+  const responseHeaders = { ...corsHeaders, "Content-Type": "application/json", "x-correlation-id": correlationId };
+
+  try {
+    // Authenticate user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return errorResponse('UNAUTHORIZED', 'Missing or invalid authorization header', 401, correlationId, responseHeaders);
+    }
+
+    const token = authHeader.split(" ")[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return errorResponse('AUTH_ERROR', 'Authentication failed', 401, correlationId, responseHeaders);
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('status')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.status !== 'approved') {
+      return errorResponse('PROFILE_NOT_APPROVED', 'Your profile must be approved to use team libraries', 403, correlationId, responseHeaders);
+    }
+
+    try {
+      if (req.method === 'GET') {
+        const data = await listTeamsAndLibraries(user.id);
+        return new Response(
+          JSON.stringify({ success: true, data, ok: true }),
+          { headers: responseHeaders }
+        );
+      }
+
+      if (req.method !== 'POST') {
+        return errorResponse('METHOD_NOT_ALLOWED', `Method ${req.method} not allowed`, 405, correlationId, responseHeaders);
+      }
+
+      let body: RequestBody;
+      try {
+        body = await req.json();
+      } catch {
+        return errorResponse('INVALID_JSON', 'Invalid JSON in request body', 400, correlationId, responseHeaders);
+      }
+
+      const action = body.action as LibraryAction;
+      if (!LIBRARY_ACTIONS.includes(action)) {
+        return errorResponse('VALIDATION_ERROR', `action must be one of ${LIBRARY_ACTIONS.join(', ')}`, 400, correlationId, responseHeaders);
+      }
+
+      const data = await runAction(action, body, user.id);
+      return new Response(
+        JSON.stringify({ success: true, data, ok: true }),
+        { headers: responseHeaders }
+      );
+    } catch (error) {
+      if (error instanceof LibraryError) {
+        if (error.status >= 500) {
+          await logError({
+            route: '/shot-type-libraries',
+            method: req.method,
+            status: error.status,
+            code: error.code,
+            message: error.message,
+            correlationId,
+            userId: user.id,
+          });
+        }
+        return errorResponse(error.code, error.message, error.status, correlationId, responseHeaders, error.detail);
+      }
+      throw error;
+    }
+
+  } catch (error) {
+    await logError({
+      route: '/shot-type-libraries',
+      method: req.method,
+      status: 500,
+      code: 'INTERNAL_ERROR',
+      message: error.message,
+      correlationId,
+    });
+
+    return errorResponse('INTERNAL_ERROR', 'Internal server error', 500, correlationId, responseHeaders);
+  }
+});
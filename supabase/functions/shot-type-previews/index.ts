@@ -0,0 +1,233 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const signedUrlTtl = parseInt(Deno.env.get("SIGNED_URL_TTL_SECONDS") || "3600");
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const DEFAULT_PREVIEW_LIMIT = 8;
+const MAX_PREVIEW_LIMIT = 24;
+
+function generateCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+function errorResponse(code: string, message: string, status: number, correlationId: string, headers: Record<string, string>) {
+  return new Response(
+    JSON.stringify({
+      error: {
+        code,
+        message,
+        correlationId
+      },
+      ok: false
+    }),
+    { status, headers }
+  );
+}
+
+async function loadOwnedShotType(shotTypeId: string, userId: string) {
+  const { data, error } = await supabase
+    .from('shot_types')
+    .select('id, preview_version_id')
+    .eq('id', shotTypeId)
+    .eq('owner_id', userId)
+    .maybeSingle();
+
+  return error ? null : data;
+}
+
+async function signVideo(videoKey: string | null): Promise<string | null> {
+  if (!videoKey) return null;
+
+  const { data, error } = await supabase.storage
+    .from('media')
+    .createSignedUrl(videoKey, signedUrlTtl);
+
+  if (error) {
+    console.error(`Failed to sign video ${videoKey}:`, error);
+    return null;
+  }
+  return data.signedUrl;
+}
+
+const PREVIEW_COLUMNS = 'id, scene_id, version, video_url, render_meta, created_at, scene:scenes!inner(user_id, ordinal, folder, deleted_at)';
+
+interface PreviewRow {
+  id: string;
+  scene_id: string;
+  version: number;
+  video_url: string | null;
+  render_meta: { prompt?: string | null } | null;
+  created_at: string | null;
+  scene: { ordinal: number | null; folder: string };
+}
+
+async function toPreview(row: PreviewRow, pinnedId: string | null) {
+  return {
+    versionId: row.id,
+    sceneId: row.scene_id,
+    version: row.version,
+    folder: row.scene.folder,
+    ordinal: row.scene.ordinal,
+    prompt: row.render_meta?.prompt ?? null,
+    videoUrl: await signVideo(row.video_url),
+    createdAt: row.created_at,
+    pinned: row.id === pinnedId,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const correlationId = generateCorrelationId();
+  const responseHeaders = { ...corsHeaders, "Content-Type": "application/json", "x-correlation-id": correlationId };
+
+  try {
+    // Authenticate user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return errorResponse('UNAUTHORIZED', 'Missing or invalid authorization header', 401, correlationId, responseHeaders);
+    }
+
+    const token = authHeader.split(" ")[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return errorResponse('AUTH_ERROR', 'Authentication failed', 401, correlationId, responseHeaders);
+    }
+
+    if (req.method === 'GET') {
+      // Recent completed renders made with a shot type, pinned example first
+      const params = new URL(req.url).searchParams;
+      const shotTypeId = params.get('shot_type_id');
+      if (!shotTypeId) {
+        return errorResponse('MISSING_SHOT_TYPE_ID', 'shot_type_id query parameter is required', 400, correlationId, responseHeaders);
+      }
+      const limit = Math.min(Math.max(parseInt(params.get('limit') || '') || DEFAULT_PREVIEW_LIMIT, 1), MAX_PREVIEW_LIMIT);
+
+      const shotType = await loadOwnedShotType(shotTypeId, user.id);
+      if (!shotType) {
+        return errorResponse('SHOT_TYPE_NOT_FOUND', 'Shot type not found', 404, correlationId, responseHeaders);
+      }
+
+      const { data: versions, error: versionsError } = await supabase
+        .from('scene_versions')
+        .select(PREVIEW_COLUMNS)
+        .eq('shot_type_id', shotTypeId)
+        .eq('scene.user_id', user.id)
+        .is('scene.deleted_at', null)
+        .not('video_url', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (versionsError) {
+        console.error(`[${correlationId}] Failed to list shot type previews:`, versionsError);
+        return errorResponse('LIST_ERROR', 'Failed to fetch previews', 500, correlationId, responseHeaders);
+      }
+
+      const rows = (versions || []) as unknown as PreviewRow[];
+
+      // The pinned example stays in the gallery even when it's older than the recent renders
+      if (shotType.preview_version_id && !rows.some((row) => row.id === shotType.preview_version_id)) {
+        const { data: pinned } = await supabase
+          .from('scene_versions')
+          .select(PREVIEW_COLUMNS)
+          .eq('id', shotType.preview_version_id)
+          .eq('scene.user_id', user.id)
+          .is('scene.deleted_at', null)
+          .maybeSingle();
+        if (pinned) rows.unshift(pinned as unknown as PreviewRow);
+      }
+      rows.sort((a, b) => Number(b.id === shotType.preview_version_id) - Number(a.id === shotType.preview_version_id));
+
+      const previews = await Promise.all(rows.map((row) => toPreview(row, shotType.preview_version_id)));
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: {
+            shotTypeId,
+            pinnedVersionId: shotType.preview_version_id,
+            previews
+          },
+          ok: true
+        }),
+        { headers: responseHeaders }
+      );
+    }
+
+    if (req.method === 'POST') {
+      // Pin a render as the shot type's example; version_id null unpins
+      let body: { shot_type_id?: unknown; version_id?: unknown };
+      try {
+        body = await req.json();
+      } catch {
+        return errorResponse('INVALID_JSON', 'Invalid JSON in request body', 400, correlationId, responseHeaders);
+      }
+
+      if (typeof body.shot_type_id !== 'string' || (body.version_id !== null && typeof body.version_id !== 'string')) {
+        return errorResponse('VALIDATION_ERROR', 'shot_type_id (string) and version_id (string or null) are required', 400, correlationId, responseHeaders);
+      }
+
+      const shotType = await loadOwnedShotType(body.shot_type_id, user.id);
+      if (!shotType) {
+        return errorResponse('SHOT_TYPE_NOT_FOUND', 'Shot type not found', 404, correlationId, responseHeaders);
+      }
+
+      if (body.version_id) {
+        const { data: version } = await supabase
+          .from('scene_versions')
+          .select('id, shot_type_id, video_url, scene:scenes!inner(user_id)')
+          .eq('id', body.version_id)
+          .eq('scene.user_id', user.id)
+          .maybeSingle();
+
+        if (!version?.video_url) {
+          return errorResponse('VERSION_NOT_FOUND', 'Render not found', 404, correlationId, responseHeaders);
+        }
+        if (version.shot_type_id !== body.shot_type_id) {
+          return errorResponse('VALIDATION_ERROR', 'That render was made with a different shot type', 400, correlationId, responseHeaders);
+        }
+      }
+
+      const { error: updateError } = await supabase
+        .from('shot_types')
+        .update({ preview_version_id: body.version_id })
+        .eq('id', body.shot_type_id)
+        .eq('owner_id', user.id);
+
+      if (updateError) {
+        console.error(`[${correlationId}] Failed to pin shot type preview:`, updateError);
+        return errorResponse('UPDATE_ERROR', 'Failed to pin preview', 500, correlationId, responseHeaders);
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: {
+            shotTypeId: body.shot_type_id,
+            pinnedVersionId: body.version_id
+          },
+          ok: true
+        }),
+        { headers: responseHeaders }
+      );
+    }
+
+    return errorResponse('METHOD_NOT_ALLOWED', `Method ${req.method} not allowed`, 405, correlationId, responseHeaders);
+
+  } catch (error) {
+    console.error(`[${correlationId}] Unexpected error:`, error);
+    return errorResponse('INTERNAL_ERROR', 'Internal server error', 500, correlationId, responseHeaders);
+  }
+});
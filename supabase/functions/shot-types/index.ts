@@ -1,5 +1,17 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import {
+  importShotTypes,
+  isConflictStrategy,
+  parseShotTypePresets,
+  SHOT_TYPE_EXPORT_VERSION,
+  toPreset,
+  validateProviderSelection,
+  validateHotkey,
+  validateShotTypeParams,
+  validateTemplate,
+  type ConflictStrategy,
+} from "../_shared/shotTypePresets.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,6 +23,161 @@ const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+// POST shot-types/import: { shot_types | document, strategy?, dry_run? }
+async function handleImport(req: Request, userId: string, responseHeaders: Record<string, string>) {
+  let body: { shot_types?: unknown; document?: unknown; strategy?: unknown; dry_run?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ 
+        error: { 
+          code: 'INVALID_JSON', 
+          message: 'Invalid JSON in request body' 
+        },
+        ok: false 
+      }),
+      { status: 400, headers: responseHeaders }
+    );
+  }
+
+  const strategy = body.strategy ?? 'skip';
+  const { presets, errors } = parseShotTypePresets(body.document ?? body.shot_types);
+
+  if (!isConflictStrategy(strategy)) {
+    errors.push('strategy must be skip, overwrite or rename');
+  }
+
+  if (errors.length > 0) {
+    return new Response(
+      JSON.stringify({ 
+        error: { 
+          code: 'VALIDATION_ERROR', 
+          message: 'Import validation failed',
+          detail: errors
+        },
+        ok: false 
+      }),
+      { status: 400, headers: responseHeaders }
+    );
+  }
+
+  const result = await importShotTypes(supabase, userId, presets, {
+    strategy: strategy as ConflictStrategy,
+    dryRun: body.dry_run === true
+  });
+
+  return new Response(
+    JSON.stringify({ 
+      success: true,
+      data: { ...result, dryRun: body.dry_run === true },
+      ok: true 
+    }),
+    { headers: responseHeaders }
+  );
+}
+
+// The dashboard matches hotkeys case-insensitively, so "A" clashes with "a".
+// Returns the shot type already using the hotkey, if any.
+async function findHotkeyConflict(userId: string, hotkey: string, excludeId?: string) {
+  const { data: shotTypes } = await supabase
+    .from('shot_types')
+    .select('id, name, hotkey')
+    .eq('owner_id', userId);
+
+  return (shotTypes || []).find((shotType) =>
+    shotType.id !== excludeId && shotType.hotkey.toLowerCase() === hotkey.trim().toLowerCase()
+  ) ?? null;
+}
+
+function hotkeyConflictResponse(hotkey: string, conflictName: string, responseHeaders: Record<string, string>) {
+  return new Response(
+    JSON.stringify({ 
+      error: { 
+        code: 'HOTKEY_CONFLICT', 
+        message: `Hotkey ${hotkey.trim()} is already used by ${conflictName}` 
+      },
+      ok: false 
+    }),
+    { status: 409, headers: responseHeaders }
+  );
+}
+
+// PUT shot-types/reorder: { ids } lists every shot type in the new order
+async function handleReorder(req: Request, userId: string, responseHeaders: Record<string, string>) {
+  let body: { ids?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ 
+        error: { 
+          code: 'INVALID_JSON', 
+          message: 'Invalid JSON in request body' 
+        },
+        ok: false 
+      }),
+      { status: 400, headers: responseHeaders }
+    );
+  }
+
+  const { data: shotTypes } = await supabase
+    .from('shot_types')
+    .select('id')
+    .eq('owner_id', userId);
+  const ownIds = new Set((shotTypes || []).map((shotType) => shotType.id));
+
+  const ids = body.ids;
+  if (
+    !Array.isArray(ids) ||
+    ids.length !== ownIds.size ||
+    new Set(ids).size !== ids.length ||
+    !ids.every((id) => typeof id === 'string' && ownIds.has(id))
+  ) {
+    return new Response(
+      JSON.stringify({ 
+        error: { 
+          code: 'VALIDATION_ERROR', 
+          message: 'ids must list each of your shot types exactly once' 
+        },
+        ok: false 
+      }),
+      { status: 400, headers: responseHeaders }
+    );
+  }
+
+  const { error: reorderError } = await supabase
+    .rpc('reorder_shot_types', { p_owner_id: userId, p_ids: ids });
+
+  if (reorderError) {
+    return new Response(
+      JSON.stringify({ 
+        error: { 
+          code: 'UPDATE_ERROR', 
+          message: 'Failed to reorder shot types' 
+        },
+        ok: false 
+      }),
+      { status: 500, headers: responseHeaders }
+    );
+  }
+
+  const { data: reordered } = await supabase
+    .from('shot_types')
+    .select('*')
+    .eq('owner_id', userId)
+    .order('sort_order', { ascending: true });
+
+  return new Response(
+    JSON.stringify({ 
+      success: true,
+      data: reordered || [],
+      ok: true 
+    }),
+    { headers: responseHeaders }
+  );
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -55,7 +222,7 @@ serve(async (req) => {
     const shotTypeId = url.pathname.split('/').pop();
 
     switch (method) {
-      case 'GET':
+      case 'GET': {
         // List all shot types for the user
         const { data: shotTypes, error: listError } = await supabase
           .from('shot_types')
@@ -76,6 +243,22 @@ serve(async (req) => {
           );
         }
 
+        // ?export=true returns the import/export document instead of the raw rows
+        if (url.searchParams.get('export') === 'true') {
+          return new Response(
+            JSON.stringify({ 
+              success: true,
+              data: {
+                version: SHOT_TYPE_EXPORT_VERSION,
+                exported_at: new Date().toISOString(),
+                shot_types: (shotTypes || []).map(toPreset)
+              },
+              ok: true 
+            }),
+            { headers: responseHeaders }
+          );
+        }
+
         return new Response(
           JSON.stringify({ 
             success: true,
@@ -84,11 +267,16 @@ serve(async (req) => {
           }),
           { headers: responseHeaders }
         );
+      }
+
+      case 'POST': {
+        if (shotTypeId === 'import') {
+          return await handleImport(req, user.id, responseHeaders);
+        }
 
-      case 'POST':
         // Create new shot type
         const createBody = await req.json();
-        const { name, prompt_template, hotkey, sort_order } = createBody;
+        const { name, prompt_template, hotkey, sort_order, provider, provider_model, generation_params } = createBody;
 
         if (!name || !prompt_template || !hotkey) {
           return new Response(
@@ -103,14 +291,39 @@ serve(async (req) => {
           );
         }
 
+        const createProviderError = validateHotkey(hotkey) ||
+          validateTemplate(prompt_template) ||
+          validateProviderSelection(provider, provider_model) ||
+          validateShotTypeParams(provider, generation_params);
+        if (createProviderError) {
+          return new Response(
+            JSON.stringify({ 
+              error: { 
+                code: 'VALIDATION_ERROR', 
+                message: createProviderError 
+              },
+              ok: false 
+            }),
+            { status: 400, headers: responseHeaders }
+          );
+        }
+
+        const createConflict = await findHotkeyConflict(user.id, hotkey);
+        if (createConflict) {
+          return hotkeyConflictResponse(hotkey, createConflict.name, responseHeaders);
+        }
+
         const { data: newShotType, error: createError } = await supabase
           .from('shot_types')
           .insert({
             owner_id: user.id,
             name,
             prompt_template,
-            hotkey,
-            sort_order: sort_order || 0
+            hotkey: hotkey.trim(),
+            sort_order: sort_order || 0,
+            provider: provider || null,
+            provider_model: provider_model || null,
+            generation_params: generation_params || {}
           })
           .select()
           .single();
@@ -149,8 +362,13 @@ serve(async (req) => {
           }),
           { status: 201, headers: responseHeaders }
         );
+      }
+
+      case 'PUT': {
+        if (shotTypeId === 'reorder') {
+          return await handleReorder(req, user.id, responseHeaders);
+        }
 
-      case 'PUT':
         // Update shot type
         if (!shotTypeId || shotTypeId === 'shot-types') {
           return new Response(
@@ -166,15 +384,54 @@ serve(async (req) => {
         }
 
         const updateBody = await req.json();
-        const { name: updateName, prompt_template: updatePrompt, hotkey: updateHotkey, sort_order: updateSort } = updateBody;
+        const { name: updateName, prompt_template: updatePrompt, hotkey: updateHotkey, sort_order: updateSort, provider: updateProvider, provider_model: updateModel, generation_params: updateParams } = updateBody;
+
+        // Params are checked against the provider the shot type will use after this update
+        let paramsProvider = updateProvider;
+        if (updateParams !== undefined && updateProvider === undefined) {
+          const { data: existing } = await supabase
+            .from('shot_types')
+            .select('provider')
+            .eq('id', shotTypeId)
+            .eq('owner_id', user.id)
+            .single();
+          paramsProvider = existing?.provider;
+        }
+
+        const updateProviderError = validateHotkey(updateHotkey) ||
+          validateTemplate(updatePrompt) ||
+          validateProviderSelection(updateProvider, updateModel) ||
+          validateShotTypeParams(paramsProvider, updateParams);
+        if (updateProviderError) {
+          return new Response(
+            JSON.stringify({ 
+              error: { 
+                code: 'VALIDATION_ERROR', 
+                message: updateProviderError 
+              },
+              ok: false 
+            }),
+            { status: 400, headers: responseHeaders }
+          );
+        }
+
+        if (updateHotkey !== undefined) {
+          const updateConflict = await findHotkeyConflict(user.id, updateHotkey, shotTypeId);
+          if (updateConflict) {
+            return hotkeyConflictResponse(updateHotkey, updateConflict.name, responseHeaders);
+          }
+        }
 
         const { data: updatedShotType, error: updateError } = await supabase
           .from('shot_types')
           .update({
             name: updateName,
             prompt_template: updatePrompt,
-            hotkey: updateHotkey,
-            sort_order: updateSort
+            hotkey: updateHotkey?.trim(),
+            sort_order: updateSort,
+            provider: updateProvider,
+            provider_model: updateModel,
+            generation_params: updateParams === null ? {} : updateParams
           })
           .eq('id', shotTypeId)
           .eq('owner_id', user.id)
@@ -215,8 +472,9 @@ serve(async (req) => {
           }),
           { headers: responseHeaders }
         );
+      }
 
-      case 'DELETE':
+      case 'DELETE': {
         // Delete shot type
         if (!shotTypeId || shotTypeId === 'shot-types') {
           return new Response(
@@ -258,6 +516,7 @@ serve(async (req) => {
           }),
           { headers: responseHeaders }
         );
+      }
 
       default:
         return new Response(
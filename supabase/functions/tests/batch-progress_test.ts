@@ -0,0 +1,38 @@
+// Storyboard progress as reported by luma-batch-scenes.
+//
+//   deno test --allow-env supabase/functions/tests/
+
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { summarizeBatch } from "../_shared/batchProgress.ts";
+
+Deno.test("a batch is done once every scene is completed or failed", () => {
+  const progress = summarizeBatch([
+    { status: 'ready', luma_status: 'completed' },
+    { status: 'error', luma_status: 'failed' },
+  ]);
+
+  assertEquals(progress, { total: 2, ready: 1, failed: 1, cancelled: 0, processing: 0, queued: 0, done: true });
+});
+
+Deno.test("a cancelled scene counts as finished, not processing", () => {
+  const progress = summarizeBatch([
+    { status: 'ready', luma_status: 'completed' },
+    { status: 'cancelled', luma_status: 'cancelled' },
+  ]);
+
+  assertEquals(progress.cancelled, 1);
+  assertEquals(progress.processing, 0);
+  assertEquals(progress.done, true);
+});
+
+Deno.test("queued and rendering scenes keep the batch open", () => {
+  const progress = summarizeBatch([
+    { status: 'queued', luma_status: 'pending' },
+    { status: 'processing', luma_status: 'processing' },
+    { status: 'cancelled', luma_status: 'cancelled' },
+  ]);
+
+  assertEquals(progress.queued, 1);
+  assertEquals(progress.processing, 1);
+  assertEquals(progress.done, false);
+});
@@ -0,0 +1,102 @@
+// Monthly budget checks made before luma-create-scene, luma-regenerate-scene and luma-batch-scenes
+// queue renders, run against an in-memory stand-in for the tables they read.
+//
+//   deno test --allow-net --allow-env supabase/functions/tests/
+
+import { assert, assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import {
+  budgetExceededMessage,
+  checkBudgets,
+  estimateGenerationCost,
+  estimateGenerationsCost,
+} from "../_shared/usageLedger.ts";
+
+type Row = Record<string, unknown>;
+
+// Just the query builder calls checkBudgets makes: filters, maybeSingle() and awaiting the list
+function fakeSupabase(tables: Record<string, Row[]>): SupabaseClient {
+  return {
+    from(table: string) {
+      let rows = tables[table] ?? [];
+      const builder = {
+        select: () => builder,
+        eq: (column: string, value: unknown) => {
+          rows = rows.filter((row) => row[column] === value);
+          return builder;
+        },
+        gte: (column: string, value: string) => {
+          rows = rows.filter((row) => String(row[column]) >= value);
+          return builder;
+        },
+        in: (column: string, values: unknown[]) => {
+          rows = rows.filter((row) => values.includes(row[column]));
+          return builder;
+        },
+        maybeSingle: () => Promise.resolve({ data: rows[0] ?? null, error: null }),
+        then: (resolve: (result: { data: Row[]; error: null }) => unknown) => resolve({ data: rows, error: null }),
+      };
+      return builder;
+    },
+  } as unknown as SupabaseClient;
+}
+
+const userId = "user-1";
+const projectId = "project-1";
+const now = new Date().toISOString();
+// 5s of ray-flash-2 at 1080p, $0.55 with the default pricing
+const params = { model: "ray-flash-2", resolution: "1080p", duration: "5s" };
+
+Deno.test("a regeneration is refused when its render would pass the project budget", async () => {
+  const supabase = fakeSupabase({
+    profiles: [{ id: userId, monthly_budget_usd: null }],
+    projects: [{ id: projectId, monthly_budget_usd: 1 }],
+    usage_ledger: [
+      { user_id: userId, project_id: projectId, created_at: now, estimated_cost_usd: 0.3 },
+      { user_id: userId, project_id: "project-2", created_at: now, estimated_cost_usd: 5 },
+    ],
+    generation_jobs: [
+      { user_id: userId, status: "queued", scene: { project_id: projectId, provider: "luma", generation_params: params } },
+    ],
+  });
+
+  const estimateUsd = estimateGenerationCost("luma", params).costUsd;
+  const check = await checkBudgets(supabase, { userId, projectId, estimateUsd });
+
+  assert(!check.ok);
+  assertEquals(check.exceeded, { scope: "project", budgetUsd: 1, spentUsd: 0.85 });
+  assertEquals(budgetExceededMessage(check, "this render"), "Monthly project budget of $1.00 reached ($0.85 spent, this render ~$0.55)");
+});
+
+Deno.test("a regeneration of a scene without a project only checks the user budget", async () => {
+  const supabase = fakeSupabase({
+    profiles: [{ id: userId, monthly_budget_usd: 1 }],
+    projects: [{ id: projectId, monthly_budget_usd: 0 }],
+    usage_ledger: [{ user_id: userId, project_id: projectId, created_at: now, estimated_cost_usd: 0.3 }],
+    generation_jobs: [],
+  });
+
+  const estimateUsd = estimateGenerationCost("luma", params).costUsd;
+  assertEquals(await checkBudgets(supabase, { userId, projectId: null, estimateUsd }), { ok: true });
+});
+
+Deno.test("a storyboard is checked against the budget as a whole", async () => {
+  const supabase = fakeSupabase({
+    profiles: [{ id: userId, monthly_budget_usd: 2 }],
+    projects: [{ id: projectId, monthly_budget_usd: null }],
+    usage_ledger: [{ user_id: userId, project_id: projectId, created_at: now, estimated_cost_usd: 0.5 }],
+    generation_jobs: [],
+  });
+
+  const items = [1, 2, 3].map(() => ({ provider: "luma", params }));
+  const estimateUsd = estimateGenerationsCost(items);
+  assertEquals(estimateUsd, 1.65);
+
+  // Each scene fits on its own; together they don't
+  assertEquals(await checkBudgets(supabase, { userId, projectId, estimateUsd: estimateGenerationsCost(items.slice(0, 1)) }), { ok: true });
+
+  const check = await checkBudgets(supabase, { userId, projectId, estimateUsd });
+  assert(!check.ok);
+  assertEquals(check.exceeded, { scope: "user", budgetUsd: 2, spentUsd: 0.5 });
+  assertEquals(check.estimateUsd, 1.65);
+});
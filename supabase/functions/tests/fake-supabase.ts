@@ -0,0 +1,277 @@
+// In-memory stand-in for the parts of supabase-js the shared modules use: table queries, rpc
+// calls and the storage bucket. Tests seed rows and files, run the code under test, then look at
+// `tables` and `files` directly.
+//
+// Signed URLs point at a small HTTP server over the same files (startStorageServer()), so a
+// worker under test can download a video and PUT its output the way it would against Supabase.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+
+export type Row = Record<string, unknown>;
+
+interface FakeError {
+  code?: string;
+  message: string;
+}
+
+export interface FakeSupabaseOptions {
+  tables?: Record<string, Row[]>;
+  files?: Record<string, Uint8Array>;
+  // Column defaults applied to inserted rows, besides a random id and created_at
+  defaults?: Record<string, Row>;
+  // Database functions, given the rpc arguments and the live tables
+  rpc?: Record<string, (args: Record<string, unknown>, tables: Record<string, Row[]>) => { data?: unknown; error?: FakeError }>;
+  // Unique indexes: an insert fails with 23505 when this returns true for the new row and an existing one
+  unique?: Record<string, (row: Row, existing: Row) => boolean>;
+}
+
+export interface FakeSupabase {
+  client: SupabaseClient;
+  tables: Record<string, Row[]>;
+  files: Map<string, Uint8Array>;
+  startStorageServer(): { url: string; close(): Promise<void> };
+}
+
+type Filter = (row: Row) => boolean;
+
+function compare(a: unknown, b: unknown) {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return (a as number | string) < (b as number | string) ? -1 : 1;
+}
+
+async function toBytes(body: unknown): Promise<Uint8Array> {
+  if (body instanceof Uint8Array) return body;
+  return new Uint8Array(await new Response(body as BodyInit).arrayBuffer());
+}
+
+export function fakeSupabase(options: FakeSupabaseOptions = {}): FakeSupabase {
+  const tables: Record<string, Row[]> = options.tables ?? {};
+  const files = new Map(Object.entries(options.files ?? {}));
+  let storageUrl = "http://storage.invalid";
+
+  function from(table: string) {
+    let operation: "select" | "insert" | "update" | "upsert" | "delete" = "select";
+    let payload: Row | Row[] = {};
+    let conflictColumns: string[] = [];
+    let head = false;
+    const filters: Filter[] = [];
+    const orders: { column: string; ascending: boolean }[] = [];
+    let limit = Infinity;
+
+    const rowsOf = () => (tables[table] ??= []);
+    const matching = () => rowsOf().filter((row) => filters.every((filter) => filter(row)));
+
+    function insertRow(row: Row): FakeError | null {
+      const stored: Row = { id: crypto.randomUUID(), created_at: new Date().toISOString(), ...options.defaults?.[table], ...row };
+      const isUnique = options.unique?.[table];
+      if (isUnique && rowsOf().some((existing) => isUnique(stored, existing))) {
+        return { code: "23505", message: `duplicate key value violates unique constraint on ${table}` };
+      }
+      rowsOf().push(stored);
+      return null;
+    }
+
+    function run(): { data: unknown; error: FakeError | null; count?: number } {
+      if (operation === "insert") {
+        const rows = Array.isArray(payload) ? payload : [payload];
+        const before = rowsOf().length;
+        for (const row of rows) {
+          const error = insertRow(row);
+          if (error) return { data: null, error };
+        }
+        return { data: rowsOf().slice(before).map((row) => ({ ...row })), error: null };
+      }
+
+      if (operation === "upsert") {
+        const rows = Array.isArray(payload) ? payload : [payload];
+        const written: Row[] = [];
+        for (const row of rows) {
+          const existing = rowsOf().find((candidate) => conflictColumns.every((column) => candidate[column] === row[column]));
+          if (existing) {
+            Object.assign(existing, row);
+            written.push(existing);
+            continue;
+          }
+          const error = insertRow(row);
+          if (error) return { data: null, error };
+          written.push(rowsOf()[rowsOf().length - 1]);
+        }
+        return { data: written.map((row) => ({ ...row })), error: null };
+      }
+
+      const rows = matching();
+
+      if (operation === "update") {
+        for (const row of rows) Object.assign(row, payload);
+        return { data: rows.map((row) => ({ ...row })), error: null };
+      }
+
+      if (operation === "delete") {
+        tables[table] = rowsOf().filter((row) => !rows.includes(row));
+        return { data: rows.map((row) => ({ ...row })), error: null };
+      }
+
+      const sorted = [...rows].sort((a, b) => {
+        for (const { column, ascending } of orders) {
+          const order = compare(a[column], b[column]);
+          if (order !== 0) return ascending ? order : -order;
+        }
+        return 0;
+      });
+      return {
+        data: head ? null : sorted.slice(0, limit).map((row) => ({ ...row })),
+        error: null,
+        count: rows.length,
+      };
+    }
+
+    const builder = {
+      select(_columns?: string, selectOptions?: { head?: boolean }) {
+        head = operation === "select" && !!selectOptions?.head;
+        return builder;
+      },
+      insert(rows: Row | Row[]) {
+        operation = "insert";
+        payload = rows;
+        return builder;
+      },
+      update(patch: Row) {
+        operation = "update";
+        payload = patch;
+        return builder;
+      },
+      upsert(rows: Row | Row[], upsertOptions?: { onConflict?: string }) {
+        operation = "upsert";
+        payload = rows;
+        conflictColumns = (upsertOptions?.onConflict ?? "id").split(",").map((column) => column.trim());
+        return builder;
+      },
+      delete() {
+        operation = "delete";
+        return builder;
+      },
+      eq(column: string, value: unknown) {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      neq(column: string, value: unknown) {
+        filters.push((row) => row[column] !== value);
+        return builder;
+      },
+      in(column: string, values: unknown[]) {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      is(column: string, value: null | boolean) {
+        filters.push((row) => (row[column] ?? null) === value);
+        return builder;
+      },
+      not(column: string, operator: string, value: unknown) {
+        if (operator !== "is") throw new Error(`fakeSupabase: not(${operator}) is not supported`);
+        filters.push((row) => (row[column] ?? null) !== value);
+        return builder;
+      },
+      lt(column: string, value: unknown) {
+        filters.push((row) => compare(row[column], value) < 0 && row[column] != null);
+        return builder;
+      },
+      gte(column: string, value: unknown) {
+        filters.push((row) => compare(row[column], value) >= 0 && row[column] != null);
+        return builder;
+      },
+      order(column: string, orderOptions?: { ascending?: boolean }) {
+        orders.push({ column, ascending: orderOptions?.ascending ?? true });
+        return builder;
+      },
+      limit(count: number) {
+        limit = count;
+        return builder;
+      },
+      maybeSingle() {
+        const { data, error } = run();
+        return Promise.resolve({ data: Array.isArray(data) ? data[0] ?? null : null, error });
+      },
+      single() {
+        const { data, error } = run();
+        const row = Array.isArray(data) ? data[0] : undefined;
+        if (error || row) return Promise.resolve({ data: row ?? null, error });
+        return Promise.resolve({ data: null, error: { code: "PGRST116", message: "No rows returned" } });
+      },
+      then<T>(resolve: (result: { data: unknown; error: FakeError | null; count?: number }) => T, reject?: (reason: unknown) => T) {
+        try {
+          return Promise.resolve(resolve(run()));
+        } catch (error) {
+          if (reject) return Promise.resolve(reject(error));
+          throw error;
+        }
+      },
+    };
+    return builder;
+  }
+
+  const bucket = {
+    async upload(key: string, body: unknown, uploadOptions?: { upsert?: boolean }) {
+      if (files.has(key) && !uploadOptions?.upsert) {
+        return { data: null, error: { statusCode: "409", message: "The resource already exists" } };
+      }
+      files.set(key, await toBytes(body));
+      return { data: { path: key }, error: null };
+    },
+    download(key: string) {
+      const bytes = files.get(key);
+      if (!bytes) return Promise.resolve({ data: null, error: { statusCode: "404", message: "Object not found" } });
+      return Promise.resolve({ data: new Blob([bytes]), error: null });
+    },
+    remove(keys: string[]) {
+      const removed = keys.filter((key) => files.delete(key));
+      return Promise.resolve({ data: removed.map((name) => ({ name })), error: null });
+    },
+    move(fromKey: string, toKey: string) {
+      const bytes = files.get(fromKey);
+      if (!bytes) return Promise.resolve({ data: null, error: { statusCode: "404", message: "Object not found" } });
+      if (files.has(toKey)) return Promise.resolve({ data: null, error: { statusCode: "409", message: "The resource already exists" } });
+      files.delete(fromKey);
+      files.set(toKey, bytes);
+      return Promise.resolve({ data: { message: "Successfully moved" }, error: null });
+    },
+    createSignedUrl(key: string, _expiresIn: number) {
+      if (!files.has(key)) return Promise.resolve({ data: null, error: { statusCode: "404", message: "Object not found" } });
+      return Promise.resolve({ data: { signedUrl: `${storageUrl}/object/${key}` }, error: null });
+    },
+    createSignedUploadUrl(key: string) {
+      return Promise.resolve({ data: { signedUrl: `${storageUrl}/upload/${key}`, token: "fake-token", path: key }, error: null });
+    },
+  };
+
+  const client = {
+    from,
+    rpc(name: string, args: Record<string, unknown>) {
+      const handler = options.rpc?.[name];
+      if (!handler) return Promise.resolve({ data: null, error: { code: "PGRST202", message: `Unknown function ${name}` } });
+      const { data = null, error = null } = handler(args, tables);
+      return Promise.resolve({ data, error });
+    },
+    storage: { from: (_bucket: string) => bucket },
+  } as unknown as SupabaseClient;
+
+  function startStorageServer() {
+    const server = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      const path = decodeURIComponent(new URL(req.url).pathname);
+      if (req.method === "GET" && path.startsWith("/object/")) {
+        const bytes = files.get(path.slice("/object/".length));
+        return bytes ? new Response(bytes) : new Response("Not found", { status: 404 });
+      }
+      if (req.method === "PUT" && path.startsWith("/upload/")) {
+        files.set(path.slice("/upload/".length), await toBytes(req.body));
+        return new Response(JSON.stringify({ Key: path }), { status: 200 });
+      }
+      return new Response("Not found", { status: 404 });
+    });
+    storageUrl = `http://localhost:${server.addr.port}`;
+    return { url: storageUrl, close: () => server.shutdown() };
+  }
+
+  return { client, tables, files, startStorageServer };
+}
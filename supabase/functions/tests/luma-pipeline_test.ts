@@ -0,0 +1,172 @@
+// Scene pipeline tests against the mock Luma server.
+//
+//   deno test --allow-net --allow-env supabase/functions/tests/
+//
+// The end-to-end case additionally needs a local stack (`supabase start` + `supabase functions serve`)
+// whose functions use LUMA_API_BASE pointing at a running mock-luma-server, and these variables:
+//   SUPABASE_TEST_URL, SUPABASE_TEST_ANON_KEY, TEST_USER_EMAIL, TEST_USER_PASSWORD,
+//   TEST_PROJECT, TEST_START_KEY
+
+import { assert, assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { PLACEHOLDER_MP4, startMockLumaServer } from "./mock-luma-server.ts";
+import type { VideoProvider } from "../_shared/providers/index.ts";
+
+let now = 0;
+const clock = () => now;
+
+const mock = startMockLumaServer({ clock, queuedMs: 1000, processingMs: 4000 });
+
+// The adapter reads its base URL at import time, so configure the env first
+Deno.env.set("LUMA_API_BASE", mock.apiBase);
+Deno.env.set("LUMA_API_KEY", "test-key");
+const { lumaProvider }: { lumaProvider: VideoProvider } = await import("../_shared/providers/luma.ts");
+
+const correlationId = "test";
+
+// The mock server outlives individual tests, so its sockets can't be attributed to one of them
+function test(name: string, fn: () => Promise<void>) {
+  Deno.test({ name, fn, sanitizeOps: false, sanitizeResources: false });
+}
+
+type LumaPayload = {
+  model: string;
+  keyframes: { frame0: { url: string }; frame1: { url: string } };
+};
+
+test("scene generation moves from queued through processing to completed", async () => {
+  now = 0;
+  const created = await lumaProvider.create({
+    prompt: "A slow dolly across a sunlit kitchen",
+    startFrameUrl: "https://example.com/start.jpg",
+    endFrameUrl: "https://example.com/end.jpg",
+  }, correlationId);
+
+  assert(created.success);
+  assertEquals(created.data!.state, "queued");
+
+  const request = mock.requests.at(-1)!.body as LumaPayload;
+  assertEquals(request.model, "ray-flash-2");
+  assertEquals(request.keyframes.frame0.url, "https://example.com/start.jpg");
+  assertEquals(request.keyframes.frame1.url, "https://example.com/end.jpg");
+
+  now = 3000;
+  const processing = await lumaProvider.status(created.data!.id, correlationId);
+  assertEquals(processing.data!.state, "processing");
+  assertEquals(processing.data!.rawState, "dreaming");
+  assertEquals(processing.data!.progress, 50);
+
+  now = 5000;
+  const completed = await lumaProvider.status(created.data!.id, correlationId);
+  assertEquals(completed.data!.state, "completed");
+  assert(completed.data!.videoUrl);
+
+  const video = await fetch(completed.data!.videoUrl!);
+  assertEquals(video.headers.get("content-type"), "video/mp4");
+  assertEquals(new Uint8Array(await video.arrayBuffer()), PLACEHOLDER_MP4);
+});
+
+test("injected generation failure is reported as failed with a reason", async () => {
+  now = 0;
+  const created = await lumaProvider.create({ prompt: "Broken render [mock:fail]" }, correlationId);
+  assert(created.success);
+
+  now = 10_000;
+  const failed = await lumaProvider.status(created.data!.id, correlationId);
+  assertEquals(failed.data!.state, "failed");
+  assertEquals(failed.data!.error, "Mock generation failed");
+});
+
+test("upstream create errors surface the provider status code", async () => {
+  const result = await lumaProvider.create({ prompt: "Quota exceeded [mock:create-429]" }, correlationId);
+  assertEquals(result.success, false);
+  assertEquals(result.upstreamStatus, 429);
+});
+
+test("cancelled generations are no longer found", async () => {
+  now = 0;
+  const created = await lumaProvider.create({ prompt: "Cancel me" }, correlationId);
+  const cancelled = await lumaProvider.cancel(created.data!.id, correlationId);
+  assert(cancelled.success);
+
+  const status = await lumaProvider.status(created.data!.id, correlationId);
+  assertEquals(status.success, false);
+  assertEquals(status.upstreamStatus, 404);
+});
+
+test("state changes are delivered to the callback URL", async () => {
+  const received: { state: string; id: string }[] = [];
+  const receiver = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+    received.push(await req.json());
+    return new Response(null, { status: 204 });
+  });
+
+  try {
+    now = 0;
+    const created = await lumaProvider.create({
+      prompt: "Callback please",
+      callbackUrl: `http://localhost:${receiver.addr.port}/luma-callback?scene=abc&sig=123`,
+    }, correlationId);
+
+    await mock.flushCallbacks();
+    now = 2000;
+    await mock.flushCallbacks();
+    await mock.flushCallbacks();
+    now = 5000;
+    await mock.flushCallbacks();
+
+    const mine = received.filter((body) => body.id === created.data!.id);
+    assertEquals(mine.map((body) => body.state), ["queued", "dreaming", "completed"]);
+    assertEquals(lumaProvider.parseCallback(mine[2])!.state, "completed");
+  } finally {
+    await receiver.shutdown();
+  }
+});
+
+const e2eUrl = Deno.env.get("SUPABASE_TEST_URL");
+
+Deno.test({
+  name: "luma-create-scene and luma-scene-status drive a scene to ready",
+  ignore: !e2eUrl,
+  sanitizeOps: false,
+  sanitizeResources: false,
+  async fn() {
+    const supabase = createClient(e2eUrl!, Deno.env.get("SUPABASE_TEST_ANON_KEY")!);
+    const { error: signInError } = await supabase.auth.signInWithPassword({
+      email: Deno.env.get("TEST_USER_EMAIL")!,
+      password: Deno.env.get("TEST_USER_PASSWORD")!,
+    });
+    assertEquals(signInError, null);
+
+    const { data: shotTypes } = await supabase.functions.invoke("shot-types", { method: "GET" });
+    assert(shotTypes.data.length > 0, "test user needs at least one shot type");
+
+    const { data: created, error: createError } = await supabase.functions.invoke("luma-create-scene", {
+      body: {
+        folder: Deno.env.get("TEST_PROJECT"),
+        start_key: Deno.env.get("TEST_START_KEY"),
+        end_key: null,
+        shot_type_id: shotTypes.data[0].id,
+      },
+    });
+    assertEquals(createError, null);
+    assert(created.ok);
+
+    const sceneId = created.data.sceneId;
+    let status;
+    for (let attempt = 0; attempt < 60; attempt++) {
+      const { data } = await supabase.functions.invoke(`luma-scene-status/${sceneId}`, { method: "GET" });
+      status = data.data;
+      if (status.isTerminal) break;
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+
+    assertEquals(status.status, "ready");
+    assert(status.videoUrl.endsWith("-v1.mp4"));
+    await supabase.auth.signOut();
+  },
+});
+
+globalThis.addEventListener("unload", () => {
+  mock.close();
+});
@@ -0,0 +1,285 @@
+// Deterministic stand-in for the Luma Dream Machine v1 `/generations` endpoints.
+//
+// Run standalone:
+//   deno run --allow-net --allow-env supabase/functions/tests/mock-luma-server.ts
+// then point the edge functions at it with LUMA_API_BASE=http://localhost:8787/dream-machine/v1
+//
+// Prompt directives let a single request opt into failure paths:
+//   [mock:fail]        generation ends in `failed`
+//   [mock:create-429]  create responds 429 (also: create-500, create-503)
+//   [mock:no-video]    generation completes without a video asset
+//   [mock:no-image]    generation completes without a poster image asset
+//
+// When a create request carries `callback_url`, state changes are POSTed there the way Luma
+// does. Callbacks go out on flushCallbacks() (tests) or every MOCK_LUMA_CALLBACK_INTERVAL_MS.
+
+export interface MockLumaOptions {
+  // Fixed latency added to every response
+  responseDelayMs?: number;
+  // How long a generation stays `queued`, then `dreaming`, before completing
+  queuedMs?: number;
+  processingMs?: number;
+  // Respond to the next N create calls with this HTTP status
+  createFailureStatus?: number;
+  createFailureCount?: number;
+  // Respond to the next N status calls with this HTTP status
+  statusFailureStatus?: number;
+  statusFailureCount?: number;
+  // Injectable clock so tests can advance time without sleeping
+  clock?: () => number;
+  // Path prefix the API is mounted under
+  basePath?: string;
+}
+
+interface MockGeneration {
+  id: string;
+  createdAt: number;
+  request: Record<string, unknown>;
+  fail: boolean;
+  noVideo: boolean;
+  noImage: boolean;
+  origin: string;
+  callbackUrl?: string;
+  lastDeliveredState?: string;
+}
+
+export interface MockLumaServer {
+  url: string;
+  apiBase: string;
+  generations: Map<string, MockGeneration>;
+  requests: { method: string; path: string; body?: unknown }[];
+  flushCallbacks(): Promise<number>;
+  close(): Promise<void>;
+}
+
+// Smallest structurally valid ISO BMFF file: ftyp + free + empty mdat.
+// Good enough for upload/download plumbing; players will not render it.
+export const PLACEHOLDER_MP4 = new Uint8Array([
+  0x00, 0x00, 0x00, 0x18, 0x66, 0x74, 0x79, 0x70, // size 24, 'ftyp'
+  0x69, 0x73, 0x6f, 0x6d, 0x00, 0x00, 0x02, 0x00, // 'isom', minor version
+  0x69, 0x73, 0x6f, 0x6d, 0x6d, 0x70, 0x34, 0x31, // 'isom', 'mp41'
+  0x00, 0x00, 0x00, 0x08, 0x66, 0x72, 0x65, 0x65, // size 8, 'free'
+  0x00, 0x00, 0x00, 0x08, 0x6d, 0x64, 0x61, 0x74, // size 8, 'mdat'
+]);
+
+// Start and end of image markers with nothing between: the poster counterpart of PLACEHOLDER_MP4
+export const PLACEHOLDER_JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+
+const DIRECTIVE_PATTERN = /\[mock:([a-z0-9-]+)\]/g;
+
+function parseDirectives(prompt: unknown): Set<string> {
+  const directives = new Set<string>();
+  if (typeof prompt !== "string") return directives;
+  for (const match of prompt.matchAll(DIRECTIVE_PATTERN)) {
+    directives.add(match[1]);
+  }
+  return directives;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+export function createMockLumaHandler(options: MockLumaOptions = {}) {
+  const {
+    responseDelayMs = 0,
+    queuedMs = 2000,
+    processingMs = 8000,
+    clock = () => Date.now(),
+    basePath = "/dream-machine/v1",
+  } = options;
+
+  let createFailuresLeft = options.createFailureCount ?? (options.createFailureStatus ? Infinity : 0);
+  let statusFailuresLeft = options.statusFailureCount ?? (options.statusFailureStatus ? Infinity : 0);
+  let sequence = 0;
+
+  const generations = new Map<string, MockGeneration>();
+  const requests: { method: string; path: string; body?: unknown }[] = [];
+
+  function serialize(generation: MockGeneration, origin: string) {
+    const elapsed = clock() - generation.createdAt;
+    let state = "queued";
+    let progress = 0;
+
+    if (elapsed >= queuedMs + processingMs) {
+      state = generation.fail ? "failed" : "completed";
+      progress = 100;
+    } else if (elapsed >= queuedMs) {
+      state = "dreaming";
+      progress = Math.floor(((elapsed - queuedMs) / processingMs) * 100);
+    }
+
+    return {
+      id: generation.id,
+      state,
+      progress,
+      failure_reason: state === "failed" ? "Mock generation failed" : null,
+      created_at: new Date(generation.createdAt).toISOString(),
+      assets: state === "completed" && !generation.noVideo
+        ? {
+          video: `${origin}/videos/${generation.id}.mp4`,
+          ...(generation.noImage ? {} : { image: `${origin}/images/${generation.id}.jpg` }),
+        }
+        : null,
+      request: generation.request,
+    };
+  }
+
+  async function handle(req: Request): Promise<Response> {
+    if (responseDelayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, responseDelayMs));
+    }
+
+    const url = new URL(req.url);
+    const origin = url.origin;
+    const path = url.pathname;
+
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await req.json();
+      } catch {
+        return json({ detail: "Invalid JSON" }, 400);
+      }
+    }
+    requests.push({ method: req.method, path, body });
+
+    const videoMatch = path.match(/^\/videos\/([^/]+)\.mp4$/);
+    if (videoMatch && req.method === "GET") {
+      if (!generations.has(videoMatch[1])) return json({ detail: "Not found" }, 404);
+      return new Response(PLACEHOLDER_MP4, { headers: { "Content-Type": "video/mp4" } });
+    }
+
+    const imageMatch = path.match(/^\/images\/([^/]+)\.jpg$/);
+    if (imageMatch && req.method === "GET") {
+      if (!generations.has(imageMatch[1])) return json({ detail: "Not found" }, 404);
+      return new Response(PLACEHOLDER_JPEG, { headers: { "Content-Type": "image/jpeg" } });
+    }
+
+    if (!path.startsWith(`${basePath}/generations`)) {
+      return json({ detail: "Not found" }, 404);
+    }
+
+    if (!req.headers.get("authorization")?.startsWith("Bearer ")) {
+      return json({ detail: "Missing API key" }, 401);
+    }
+
+    const id = path.slice(`${basePath}/generations`.length).replace(/^\//, "");
+
+    if (!id && req.method === "GET") {
+      return json({
+        generations: Array.from(generations.values()).map((g) => serialize(g, origin)),
+        count: generations.size,
+      });
+    }
+
+    if (!id && req.method === "POST") {
+      const payload = (body || {}) as Record<string, unknown>;
+      const directives = parseDirectives(payload.prompt);
+
+      const forced = Array.from(directives).find((d) => d.startsWith("create-"));
+      if (forced) {
+        return json({ detail: `Mock ${forced}` }, Number(forced.slice("create-".length)) || 500);
+      }
+      if (options.createFailureStatus && createFailuresLeft > 0) {
+        createFailuresLeft--;
+        return json({ detail: "Mock create failure" }, options.createFailureStatus);
+      }
+      if (typeof payload.prompt !== "string" || !payload.prompt) {
+        return json({ detail: "prompt is required" }, 400);
+      }
+
+      sequence++;
+      const generation: MockGeneration = {
+        id: `mock-${sequence.toString().padStart(6, "0")}`,
+        createdAt: clock(),
+        request: payload,
+        fail: directives.has("fail"),
+        noVideo: directives.has("no-video"),
+        noImage: directives.has("no-image"),
+        origin,
+        callbackUrl: typeof payload.callback_url === "string" ? payload.callback_url : undefined,
+      };
+      generations.set(generation.id, generation);
+      return json(serialize(generation, origin), 201);
+    }
+
+    const generation = generations.get(id);
+    if (!generation) {
+      return json({ detail: "Generation not found" }, 404);
+    }
+
+    if (req.method === "GET") {
+      if (options.statusFailureStatus && statusFailuresLeft > 0) {
+        statusFailuresLeft--;
+        return json({ detail: "Mock status failure" }, options.statusFailureStatus);
+      }
+      return json(serialize(generation, origin));
+    }
+
+    if (req.method === "DELETE") {
+      generations.delete(id);
+      return new Response(null, { status: 204 });
+    }
+
+    return json({ detail: `Method ${req.method} not allowed` }, 405);
+  }
+
+  // Delivers one callback per generation whose state changed since the last delivery
+  async function flushCallbacks(): Promise<number> {
+    let delivered = 0;
+    for (const generation of generations.values()) {
+      if (!generation.callbackUrl) continue;
+
+      const body = serialize(generation, generation.origin);
+      if (body.state === generation.lastDeliveredState) continue;
+
+      try {
+        const response = await fetch(generation.callbackUrl, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+        await response.body?.cancel();
+        generation.lastDeliveredState = body.state;
+        delivered++;
+      } catch (error) {
+        console.error(`Mock callback to ${generation.callbackUrl} failed:`, error);
+      }
+    }
+    return delivered;
+  }
+
+  return { handle, generations, requests, flushCallbacks };
+}
+
+export function startMockLumaServer(options: MockLumaOptions & { port?: number } = {}): MockLumaServer {
+  const { handle, generations, requests, flushCallbacks } = createMockLumaHandler(options);
+  const server = Deno.serve({ port: options.port ?? 0, onListen: () => {} }, handle);
+  const url = `http://localhost:${server.addr.port}`;
+
+  return {
+    url,
+    apiBase: `${url}${options.basePath ?? "/dream-machine/v1"}`,
+    generations,
+    requests,
+    flushCallbacks,
+    close: () => server.shutdown(),
+  };
+}
+
+if (import.meta.main) {
+  const server = startMockLumaServer({
+    port: Number(Deno.env.get("MOCK_LUMA_PORT") || 8787),
+    responseDelayMs: Number(Deno.env.get("MOCK_LUMA_DELAY_MS") || 0),
+    queuedMs: Number(Deno.env.get("MOCK_LUMA_QUEUED_MS") || 2000),
+    processingMs: Number(Deno.env.get("MOCK_LUMA_PROCESSING_MS") || 8000),
+  });
+  console.log(`Mock Luma listening on ${server.apiBase}`);
+
+  const callbackIntervalMs = Number(Deno.env.get("MOCK_LUMA_CALLBACK_INTERVAL_MS") || 1000);
+  setInterval(() => server.flushCallbacks(), callbackIntervalMs);
+}
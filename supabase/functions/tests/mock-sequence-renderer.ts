@@ -0,0 +1,133 @@
+// Stand-in for the sequence renderer that sequence-render submits to (contract in the README).
+//
+// Run standalone:
+//   deno run --allow-net --allow-env supabase/functions/tests/mock-sequence-renderer.ts
+// then set SEQUENCE_RENDER_URL=http://localhost:8788/render. Standalone, every job completes
+// after MOCK_SEQUENCE_RENDER_MS; tests call complete() or fail() themselves.
+//
+// The "rendered" video is PLACEHOLDER_MP4, served from /renders/{render_id}.mp4.
+
+import { PLACEHOLDER_MP4 } from "./mock-luma-server.ts";
+
+export interface MockSequenceRendererOptions {
+  // Respond to submissions with this HTTP status instead of accepting them
+  submitFailureStatus?: number;
+  // Bearer token submissions must carry
+  token?: string;
+}
+
+export interface MockSequenceJob {
+  render_id: string;
+  clips: { url: string; duration_seconds: number }[];
+  crossfade_seconds: number;
+  output: { fps: number; width: number; height: number };
+  callback_url: string;
+}
+
+export interface MockSequenceRenderer {
+  url: string;
+  jobs: Map<string, MockSequenceJob>;
+  // Posts the completed callback; resolves to the callback's HTTP status
+  complete(renderId: string): Promise<number>;
+  fail(renderId: string, error?: string): Promise<number>;
+  close(): Promise<void>;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+export function createMockSequenceHandler(options: MockSequenceRendererOptions = {}) {
+  const jobs = new Map<string, MockSequenceJob>();
+
+  async function handle(req: Request): Promise<Response> {
+    const url = new URL(req.url);
+
+    const videoMatch = url.pathname.match(/^\/renders\/([^/]+)\.mp4$/);
+    if (videoMatch && req.method === "GET") {
+      if (!jobs.has(videoMatch[1])) return json({ error: "Not found" }, 404);
+      return new Response(PLACEHOLDER_MP4, { headers: { "Content-Type": "video/mp4" } });
+    }
+
+    if (url.pathname !== "/render" || req.method !== "POST") {
+      return json({ error: "Not found" }, 404);
+    }
+    if (options.token && req.headers.get("authorization") !== `Bearer ${options.token}`) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+    if (options.submitFailureStatus) {
+      return json({ error: "Mock submit failure" }, options.submitFailureStatus);
+    }
+
+    const job = await req.json() as MockSequenceJob;
+    if (!job.render_id || !Array.isArray(job.clips) || job.clips.length === 0 || !job.callback_url) {
+      return json({ error: "render_id, clips and callback_url are required" }, 400);
+    }
+    jobs.set(job.render_id, job);
+    return json({ accepted: true }, 202);
+  }
+
+  async function callback(renderId: string, body: Record<string, unknown>): Promise<number> {
+    const job = jobs.get(renderId);
+    if (!job) throw new Error(`No job for render ${renderId}`);
+
+    const response = await fetch(job.callback_url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    await response.body?.cancel();
+    return response.status;
+  }
+
+  function durationOf(job: MockSequenceJob) {
+    const total = job.clips.reduce((sum, clip) => sum + clip.duration_seconds, 0);
+    return total - job.crossfade_seconds * (job.clips.length - 1);
+  }
+
+  return {
+    handle,
+    jobs,
+    complete: (origin: string, renderId: string) => callback(renderId, {
+      status: "completed",
+      video_url: `${origin}/renders/${renderId}.mp4`,
+      duration_seconds: durationOf(jobs.get(renderId)!),
+    }),
+    fail: (renderId: string, error = "Mock render failed") => callback(renderId, { status: "failed", error }),
+  };
+}
+
+export function startMockSequenceRenderer(options: MockSequenceRendererOptions & { port?: number } = {}): MockSequenceRenderer {
+  const { handle, jobs, complete, fail } = createMockSequenceHandler(options);
+  const server = Deno.serve({ port: options.port ?? 0, onListen: () => {} }, handle);
+  const origin = `http://localhost:${server.addr.port}`;
+
+  return {
+    url: `${origin}/render`,
+    jobs,
+    complete: (renderId) => complete(origin, renderId),
+    fail,
+    close: () => server.shutdown(),
+  };
+}
+
+if (import.meta.main) {
+  const renderMs = Number(Deno.env.get("MOCK_SEQUENCE_RENDER_MS") || 5000);
+  const renderer = startMockSequenceRenderer({
+    port: Number(Deno.env.get("MOCK_SEQUENCE_PORT") || 8788),
+    token: Deno.env.get("SEQUENCE_RENDER_TOKEN"),
+  });
+  console.log(`Mock sequence renderer listening on ${renderer.url}`);
+
+  const pending = new Set<string>();
+  setInterval(() => {
+    for (const renderId of renderer.jobs.keys()) {
+      if (pending.has(renderId)) continue;
+      pending.add(renderId);
+      setTimeout(() => renderer.complete(renderId).catch((error) => console.error(error)), renderMs);
+    }
+  }, 500);
+}
@@ -0,0 +1,80 @@
+// Stand-in for the thumbnail worker that scene completion calls (contract in the README).
+//
+// Run standalone:
+//   deno run --allow-net --allow-env supabase/functions/tests/mock-thumbnail-worker.ts
+// then set SCENE_THUMBNAIL_URL=http://localhost:8789/thumbnails
+//
+// It fetches the video like the real worker, then uploads PLACEHOLDER_JPEG and PLACEHOLDER_WEBP.
+// Tests switch `behaviour` to make it fail or never answer.
+
+import { PLACEHOLDER_JPEG } from "./mock-luma-server.ts";
+
+// A RIFF/WEBP header with no image chunks
+export const PLACEHOLDER_WEBP = new Uint8Array([
+  0x52, 0x49, 0x46, 0x46, 0x04, 0x00, 0x00, 0x00, // 'RIFF', size 4
+  0x57, 0x45, 0x42, 0x50, // 'WEBP'
+]);
+
+export type MockThumbnailBehaviour = "upload" | "fail" | "hang";
+
+export interface MockThumbnailWorker {
+  url: string;
+  behaviour: MockThumbnailBehaviour;
+  requests: { video_url: string; poster: { upload_url: string } | null; preview: { upload_url: string; seconds: number; width: number } | null }[];
+  close(): Promise<void>;
+}
+
+async function put(uploadUrl: string, body: Uint8Array, contentType: string) {
+  const response = await fetch(uploadUrl, { method: "PUT", headers: { "Content-Type": contentType }, body });
+  await response.body?.cancel();
+  if (!response.ok) throw new Error(`Upload failed: ${response.status}`);
+}
+
+export function startMockThumbnailWorker(options: { port?: number } = {}): MockThumbnailWorker {
+  // Hung requests are released on close so the server can shut down
+  const hung: (() => void)[] = [];
+
+  const worker: MockThumbnailWorker = {
+    url: "",
+    behaviour: "upload",
+    requests: [],
+    close: async () => {
+      hung.forEach((release) => release());
+      await server.shutdown();
+    },
+  };
+
+  const server = Deno.serve({ port: options.port ?? 0, onListen: () => {} }, async (req) => {
+    if (new URL(req.url).pathname !== "/thumbnails" || req.method !== "POST") {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const job = await req.json() as MockThumbnailWorker["requests"][number];
+    worker.requests.push(job);
+
+    if (worker.behaviour === "hang") {
+      await new Promise<void>((resolve) => hung.push(resolve));
+      return new Response("Too late", { status: 504 });
+    }
+    if (worker.behaviour === "fail") {
+      return new Response(JSON.stringify({ error: "Mock thumbnail failure" }), { status: 500 });
+    }
+
+    const video = await fetch(job.video_url);
+    await video.body?.cancel();
+    if (!video.ok) {
+      return new Response(JSON.stringify({ error: `Video responded ${video.status}` }), { status: 502 });
+    }
+    if (job.poster) await put(job.poster.upload_url, PLACEHOLDER_JPEG, "image/jpeg");
+    if (job.preview) await put(job.preview.upload_url, PLACEHOLDER_WEBP, "image/webp");
+    return new Response(JSON.stringify({ ok: true }));
+  });
+
+  worker.url = `http://localhost:${server.addr.port}/thumbnails`;
+  return worker;
+}
+
+if (import.meta.main) {
+  const worker = startMockThumbnailWorker({ port: Number(Deno.env.get("MOCK_THUMBNAIL_PORT") || 8789) });
+  console.log(`Mock thumbnail worker listening on ${worker.url}`);
+}
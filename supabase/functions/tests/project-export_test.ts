@@ -0,0 +1,100 @@
+// Manifest and timeline contents of export-project archives.
+//
+//   deno test --allow-env supabase/functions/tests/
+
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import {
+  buildManifest,
+  collectExportEntries,
+  toTimelineClip,
+  type ExportEntry,
+  type ExportVersion,
+} from "../_shared/projectExport.ts";
+
+// A scene re-rendered as v3 (a 9s "Orbit") with the user's pin left on the older v2
+const pinnedEntry: ExportEntry = {
+  scene: { id: "scene-1", ordinal: 4, active_version: 2 },
+  version: {
+    scene_id: "scene-1",
+    version: 2,
+    video_url: "users/u/Scenes/harbour/scene-1-v2.mp4",
+    shot_type_name: "Push In",
+    provider: "luma",
+    provider_model: "ray-flash-2",
+    render_meta: {
+      prompt: "slow push in on the red boat",
+      generation_params: { model: "ray-flash-2", resolution: "1080p", aspect_ratio: "16:9", duration: "5s" },
+    },
+  },
+  videoKey: "users/u/Scenes/harbour/scene-1-v2.mp4",
+  fileName: "scene-004.mp4",
+  sizeBytes: 2048,
+};
+
+const latestVersion: ExportVersion = {
+  scene_id: "scene-1",
+  version: 3,
+  video_url: "users/u/Scenes/harbour/scene-1-v3.mp4",
+  shot_type_name: "Orbit",
+  provider: "luma",
+  provider_model: "ray-2",
+  render_meta: {
+    prompt: "orbit around the red boat",
+    generation_params: { model: "ray-2", resolution: "720p", aspect_ratio: "9:16", duration: "9s" },
+  },
+};
+
+Deno.test("each scene is exported from its active version", () => {
+  const { entries, skipped } = collectExportEntries(
+    [pinnedEntry.scene, { id: "scene-2", ordinal: 5, active_version: 1 }],
+    [pinnedEntry.version, latestVersion],
+    new Map([[pinnedEntry.videoKey, 2048], [latestVersion.video_url!, 4096]])
+  );
+
+  assertEquals(entries, [pinnedEntry]);
+  assertEquals(skipped, [{ sceneId: "scene-2", ordinal: 5 }]);
+});
+
+Deno.test("the manifest describes the pinned version, not the latest render", () => {
+  const manifest = buildManifest("harbour", [pinnedEntry], [{ sceneId: "scene-2", ordinal: 5 }]);
+
+  assertEquals(manifest.scenes, [{
+    ordinal: 4,
+    file: "scene-004.mp4",
+    sceneId: "scene-1",
+    version: 2,
+    shotType: "Push In",
+    prompt: "slow push in on the red boat",
+    provider: "luma",
+    model: "ray-flash-2",
+    sizeBytes: 2048,
+  }]);
+  assertEquals(manifest.skipped, [{ sceneId: "scene-2", ordinal: 5 }]);
+});
+
+Deno.test("timeline clips take their duration and notes from the pinned version", () => {
+  assertEquals(toTimelineClip(pinnedEntry), {
+    sceneId: "scene-1",
+    ordinal: 4,
+    version: 2,
+    fileName: "scene-004.mp4",
+    durationSeconds: 5,
+    shotTypeName: "Push In",
+    prompt: "slow push in on the red boat",
+  });
+});
+
+Deno.test("versions from before provider columns fall back to their render snapshot", () => {
+  const entry: ExportEntry = {
+    ...pinnedEntry,
+    version: {
+      ...pinnedEntry.version,
+      provider: null,
+      provider_model: null,
+      render_meta: { provider: "luma", model: "ray-1-6", prompt: null },
+    },
+  };
+
+  const [scene] = buildManifest("harbour", [entry], []).scenes;
+  assertEquals([scene.provider, scene.model, scene.prompt], ["luma", "ray-1-6", null]);
+});
@@ -0,0 +1,30 @@
+// The dashboard previews prompts with its own copy of the template renderer (src/lib/promptTemplate.ts);
+// these cases pin it to what the edge functions actually send.
+//
+//   deno test --allow-env supabase/functions/tests/
+
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import * as server from "../_shared/promptTemplate.ts";
+import * as client from "../../../src/lib/promptTemplate.ts";
+
+const values = { project: "harbour", scene_ordinal: 3, subject: " a red boat ", mood: "" };
+
+const cases: { template: string; override: { text?: string | null; mode?: "append" | "replace" | null } }[] = [
+  { template: "{{subject}} at dawn in {{project}}, shot {{scene_ordinal}}", override: {} },
+  { template: "A wide shot of {{ subject }} , {{mood}} .", override: { text: "slow push in", mode: "append" } },
+  { template: "{{subject}}", override: { text: "{{project}} close-up", mode: "replace" } },
+  { template: "{{unknown}} {{mood}}", override: { text: "   ", mode: "replace" } },
+];
+
+Deno.test("both renderers expose the same variables", () => {
+  assertEquals([...client.SYSTEM_PROMPT_VARIABLES], [...server.SYSTEM_PROMPT_VARIABLES]);
+  assertEquals([...client.SCENE_PROMPT_VARIABLES], [...server.SCENE_PROMPT_VARIABLES]);
+});
+
+Deno.test("the preview renders the same prompt the server sends", () => {
+  for (const { template, override } of cases) {
+    assertEquals(client.templateVariables(template), server.templateVariables(template));
+    assertEquals(client.renderPromptTemplate(template, values), server.renderPromptTemplate(template, values));
+    assertEquals(client.buildScenePrompt(template, override, values), server.buildScenePrompt(template, override, values));
+  }
+});
@@ -0,0 +1,112 @@
+// Scene thumbnails against the mock Luma server (for the provider's poster) and the mock
+// thumbnail worker, with an in-memory stand-in for storage.
+//
+//   deno test --allow-net --allow-env supabase/functions/tests/
+
+import { assert, assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { fakeSupabase } from "./fake-supabase.ts";
+import { PLACEHOLDER_JPEG, PLACEHOLDER_MP4, startMockLumaServer } from "./mock-luma-server.ts";
+import { PLACEHOLDER_WEBP, startMockThumbnailWorker } from "./mock-thumbnail-worker.ts";
+import type { VideoProvider } from "../_shared/providers/index.ts";
+
+let now = 0;
+const luma = startMockLumaServer({ clock: () => now, queuedMs: 0, processingMs: 1000 });
+const worker = startMockThumbnailWorker();
+
+// Both modules read their configuration at import time, so configure the env first
+Deno.env.set("LUMA_API_BASE", luma.apiBase);
+Deno.env.set("LUMA_API_KEY", "test-key");
+Deno.env.set("SCENE_THUMBNAIL_URL", worker.url);
+Deno.env.set("SCENE_THUMBNAIL_TIMEOUT_SECONDS", "1");
+const { lumaProvider }: { lumaProvider: VideoProvider } = await import("../_shared/providers/luma.ts");
+const { createSceneThumbnails } = await import("../_shared/sceneThumbnails.ts");
+
+const keys = {
+  videoKey: "users/user-1/Scenes/harbour/scene-1-v1.mp4",
+  posterKey: "users/user-1/Scenes/harbour/scene-1-v1.jpg",
+  previewKey: "users/user-1/Scenes/harbour/scene-1-v1.webp",
+};
+
+// The mock servers outlive individual tests, so their sockets can't be attributed to one of them
+function test(name: string, fn: () => Promise<void>) {
+  Deno.test({ name, fn, sanitizeOps: false, sanitizeResources: false });
+}
+
+// The poster URL Luma reports for a finished generation of this prompt, if any
+async function providerPoster(prompt: string): Promise<string | undefined> {
+  now = 0;
+  const created = await lumaProvider.create({ prompt }, "test");
+  assert(created.success);
+
+  now = 1000;
+  const completed = await lumaProvider.status(created.data!.id, "test");
+  assertEquals(completed.data!.state, "completed");
+  return completed.data!.posterUrl;
+}
+
+async function withStorage(test: (fake: ReturnType<typeof fakeSupabase>) => Promise<void>) {
+  const fake = fakeSupabase({ files: { [keys.videoKey]: PLACEHOLDER_MP4 } });
+  const storage = fake.startStorageServer();
+  worker.requests.length = 0;
+  try {
+    await test(fake);
+  } finally {
+    worker.behaviour = "upload";
+    await storage.close();
+  }
+}
+
+test("the provider's still becomes the poster and the worker makes the preview", () => withStorage(async (fake) => {
+  const posterUrl = await providerPoster("A lighthouse at dusk");
+  assert(posterUrl);
+
+  const thumbnails = await createSceneThumbnails(fake.client, keys, posterUrl);
+
+  assertEquals(thumbnails, { posterKey: keys.posterKey, previewKey: keys.previewKey });
+  assertEquals(fake.files.get(keys.posterKey), PLACEHOLDER_JPEG);
+  assertEquals(fake.files.get(keys.previewKey), PLACEHOLDER_WEBP);
+  assertEquals(worker.requests.length, 1);
+  assertEquals(worker.requests[0].poster, null);
+  assertEquals(worker.requests[0].preview?.width, 320);
+}));
+
+test("the worker makes the poster too when the provider has no still", () => withStorage(async (fake) => {
+  const posterUrl = await providerPoster("A lighthouse at dusk [mock:no-image]");
+  assertEquals(posterUrl, undefined);
+
+  const thumbnails = await createSceneThumbnails(fake.client, keys, posterUrl);
+
+  assertEquals(thumbnails, { posterKey: keys.posterKey, previewKey: keys.previewKey });
+  assertEquals(fake.files.get(keys.posterKey), PLACEHOLDER_JPEG);
+  assertEquals(fake.files.get(keys.previewKey), PLACEHOLDER_WEBP);
+  assert(worker.requests[0].poster?.upload_url);
+}));
+
+test("a worker that doesn't answer in time leaves only the provider's poster", () => withStorage(async (fake) => {
+  worker.behaviour = "hang";
+  const posterUrl = await providerPoster("A lighthouse at dusk");
+
+  const started = Date.now();
+  const thumbnails = await createSceneThumbnails(fake.client, keys, posterUrl);
+
+  assertEquals(thumbnails, { posterKey: keys.posterKey, previewKey: null });
+  assert(Date.now() - started < 5000);
+  assertEquals(worker.requests.length, 1);
+  assertEquals(fake.files.has(keys.previewKey), false);
+}));
+
+test("a failing worker leaves the scene without thumbnails", () => withStorage(async (fake) => {
+  worker.behaviour = "fail";
+
+  const thumbnails = await createSceneThumbnails(fake.client, keys);
+
+  assertEquals(thumbnails, { posterKey: null, previewKey: null });
+  assertEquals(worker.requests.length, 1);
+  assertEquals(fake.files.has(keys.posterKey), false);
+  assertEquals(fake.files.has(keys.previewKey), false);
+}));
+
+globalThis.addEventListener("unload", () => {
+  luma.close();
+  worker.close();
+});
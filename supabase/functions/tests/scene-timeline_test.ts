@@ -0,0 +1,193 @@
+// File renames behind scene-timeline when a project has deleted scenes, against an in-memory
+// stand-in for the tables and storage. reorder_scenes and restore_scene are modelled on their
+// SQL in the 20250829040000 migration.
+//
+//   deno test --allow-net --allow-env supabase/functions/tests/
+
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { renameSceneFiles, restoreScene } from "../_shared/sceneTimeline.ts";
+import { fakeSupabase, type Row } from "./fake-supabase.ts";
+
+const userId = "user-1";
+const projectId = "project-1";
+const folder = "harbour";
+const key = (name: string) => `users/${userId}/Scenes/${folder}/${name}`;
+
+function reorderScenes(args: Record<string, unknown>, tables: Record<string, Row[]>) {
+  const ids = args.p_ids as string[];
+  const excluded = args.p_excluded as string[];
+  const scenes = tables.scenes.filter((scene) => scene.project_id === args.p_project_id && scene.user_id === args.p_user_id);
+  const byId = (id: string) => scenes.find((scene) => scene.id === id)!;
+
+  const deleted = scenes
+    .filter((scene) => scene.deleted_at)
+    .sort((a, b) => (a.ordinal as number) - (b.ordinal as number));
+  const ordered = [
+    ...ids.filter((id) => !excluded.includes(id)).map(byId),
+    ...ids.filter((id) => excluded.includes(id)).map(byId),
+    ...deleted,
+  ];
+  ordered.forEach((scene, index) => {
+    scene.ordinal = index + 1;
+  });
+  return { data: ordered.map((scene) => ({ scene_id: scene.id, ordinal: scene.ordinal })) };
+}
+
+function restoreSceneRpc(args: Record<string, unknown>, tables: Record<string, Row[]>) {
+  const scene = tables.scenes.find((row) => row.id === args.p_scene_id && row.user_id === args.p_user_id);
+  if (!scene) return { data: [] };
+
+  const others = tables.scenes.filter((row) => row.project_id === scene.project_id && row.id !== scene.id);
+  if (others.some((row) => row.ordinal === scene.ordinal)) {
+    scene.ordinal = Math.max(...tables.scenes.filter((row) => row.project_id === scene.project_id).map((row) => row.ordinal as number)) + 1;
+  }
+  scene.deleted_at = null;
+  return { data: [{ scene_id: scene.id, ordinal: scene.ordinal, folder: scene.folder }] };
+}
+
+// One render per scene, stored under the given file names
+function project(scenes: { id: string; ordinal: number; deleted?: boolean; video: string; poster: string }[]) {
+  const fake = fakeSupabase({
+    tables: {
+      scenes: scenes.map(({ id, ordinal, deleted }) => ({
+        id,
+        user_id: userId,
+        project_id: projectId,
+        folder,
+        ordinal,
+        deleted_at: deleted ? "2025-08-29T10:00:00Z" : null,
+      })),
+      scene_versions: scenes.map(({ id, video, poster }) => ({
+        scene_id: id,
+        version: 1,
+        video_url: key(video),
+        poster_url: key(poster),
+        preview_url: null,
+      })),
+    },
+    files: Object.fromEntries(scenes.flatMap(({ id, video, poster }) => [
+      [key(video), new TextEncoder().encode(`${id} video`)],
+      [key(poster), new TextEncoder().encode(`${id} poster`)],
+    ])),
+    rpc: { reorder_scenes: reorderScenes, restore_scene: restoreSceneRpc },
+  });
+
+  async function saveTimeline(ids: string[], excluded: string[] = []) {
+    const { data } = await fake.client
+      .rpc("reorder_scenes", { p_user_id: userId, p_project_id: projectId, p_ids: ids, p_excluded: excluded });
+    const ordinals = new Map((data as { scene_id: string; ordinal: number }[]).map((row) => [row.scene_id, row.ordinal]));
+    return renameSceneFiles(fake.client, userId, folder, ordinals);
+  }
+
+  // Which scene's video and poster each stored name holds, and what the version rows point at
+  function layout() {
+    return {
+      files: Object.fromEntries([...fake.files].map(([name, bytes]) => [name.slice(key("").length), new TextDecoder().decode(bytes)])),
+      rows: Object.fromEntries(fake.tables.scene_versions.map((row) => [
+        row.scene_id,
+        [row.video_url, row.poster_url].map((name) => (name as string).slice(key("").length)),
+      ])),
+    };
+  }
+
+  return { fake, saveTimeline, layout };
+}
+
+Deno.test("reordering after a delete numbers the deleted scene after the live ones", async () => {
+  const { fake, saveTimeline, layout } = project([
+    { id: "a", ordinal: 1, video: "scene-1-v1.mp4", poster: "scene-1-v1.jpg" },
+    { id: "b", ordinal: 2, deleted: true, video: "scene-2-v1.mp4", poster: "scene-2-v1.jpg" },
+    { id: "c", ordinal: 3, video: "scene-3-v1.mp4", poster: "scene-3-v1.jpg" },
+  ]);
+
+  // c takes ordinal 2, which the deleted b's files still hold
+  assertEquals(await saveTimeline(["a", "c"]), { renamed: 4, failed: 0 });
+
+  assertEquals(fake.tables.scenes.map((scene) => [scene.id, scene.ordinal]), [["a", 1], ["b", 3], ["c", 2]]);
+  assertEquals(layout(), {
+    files: {
+      "scene-1-v1.mp4": "a video",
+      "scene-1-v1.jpg": "a poster",
+      "scene-2-v1.mp4": "c video",
+      "scene-2-v1.jpg": "c poster",
+      "scene-3-v1.mp4": "b video",
+      "scene-3-v1.jpg": "b poster",
+    },
+    rows: {
+      a: ["scene-1-v1.mp4", "scene-1-v1.jpg"],
+      b: ["scene-3-v1.mp4", "scene-3-v1.jpg"],
+      c: ["scene-2-v1.mp4", "scene-2-v1.jpg"],
+    },
+  });
+
+  // Nothing is left to rename on the next save
+  assertEquals(await saveTimeline(["a", "c"]), { renamed: 0, failed: 0 });
+});
+
+Deno.test("undoing a delete after a reorder keeps the scene's number and files", async () => {
+  const { fake, saveTimeline, layout } = project([
+    { id: "a", ordinal: 1, video: "scene-1-v1.mp4", poster: "scene-1-v1.jpg" },
+    { id: "b", ordinal: 2, deleted: true, video: "scene-2-v1.mp4", poster: "scene-2-v1.jpg" },
+    { id: "c", ordinal: 3, video: "scene-3-v1.mp4", poster: "scene-3-v1.jpg" },
+  ]);
+  await saveTimeline(["c", "a"]);
+
+  assertEquals(await restoreScene(fake.client, userId, "b"), { ordinal: 3, renamed: 0, failed: 0 });
+  assertEquals(fake.tables.scenes.map((scene) => [scene.id, scene.ordinal, scene.deleted_at]), [["a", 2, null], ["b", 3, null], ["c", 1, null]]);
+  assertEquals(layout().rows, {
+    a: ["scene-2-v1.mp4", "scene-2-v1.jpg"],
+    b: ["scene-3-v1.mp4", "scene-3-v1.jpg"],
+    c: ["scene-1-v1.mp4", "scene-1-v1.jpg"],
+  });
+
+  // The restored scene can be reordered like any other
+  assertEquals(await saveTimeline(["b", "c", "a"]), { renamed: 6, failed: 0 });
+  assertEquals(layout().files, {
+    "scene-1-v1.mp4": "b video",
+    "scene-1-v1.jpg": "b poster",
+    "scene-2-v1.mp4": "c video",
+    "scene-2-v1.jpg": "c poster",
+    "scene-3-v1.mp4": "a video",
+    "scene-3-v1.jpg": "a poster",
+  });
+});
+
+Deno.test("undoing a delete whose number was taken moves the scene to the end", async () => {
+  // Left by the earlier reorder_scenes: c was renumbered onto the deleted b's ordinal, and its
+  // files stuck at their staging names because b's still held scene-2
+  const { fake, saveTimeline, layout } = project([
+    { id: "a", ordinal: 1, video: "scene-1-v1.mp4", poster: "scene-1-v1.jpg" },
+    { id: "b", ordinal: 2, deleted: true, video: "scene-2-v1.mp4", poster: "scene-2-v1.jpg" },
+    { id: "c", ordinal: 2, video: ".reorder-c-v1.mp4", poster: ".reorder-c-v1.jpg" },
+  ]);
+
+  assertEquals(await restoreScene(fake.client, userId, "b"), { ordinal: 3, renamed: 2, failed: 0 });
+  assertEquals(layout().rows.b, ["scene-3-v1.mp4", "scene-3-v1.jpg"]);
+
+  // With scene-2 free, saving again finishes c's rename
+  assertEquals(await saveTimeline(["a", "c", "b"]), { renamed: 2, failed: 0 });
+  assertEquals(layout(), {
+    files: {
+      "scene-1-v1.mp4": "a video",
+      "scene-1-v1.jpg": "a poster",
+      "scene-2-v1.mp4": "c video",
+      "scene-2-v1.jpg": "c poster",
+      "scene-3-v1.mp4": "b video",
+      "scene-3-v1.jpg": "b poster",
+    },
+    rows: {
+      a: ["scene-1-v1.mp4", "scene-1-v1.jpg"],
+      b: ["scene-3-v1.mp4", "scene-3-v1.jpg"],
+      c: ["scene-2-v1.mp4", "scene-2-v1.jpg"],
+    },
+  });
+});
+
+Deno.test("restoring a scene the user doesn't have does nothing", async () => {
+  const { fake } = project([
+    { id: "a", ordinal: 1, deleted: true, video: "scene-1-v1.mp4", poster: "scene-1-v1.jpg" },
+  ]);
+
+  assertEquals(await restoreScene(fake.client, "user-2", "a"), null);
+  assertEquals(fake.tables.scenes[0].deleted_at, "2025-08-29T10:00:00Z");
+});
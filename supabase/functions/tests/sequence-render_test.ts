@@ -0,0 +1,176 @@
+// sequence-render against the mock renderer, with an in-memory stand-in for the tables and
+// storage. The renderer's callbacks go to a local server that hands them to
+// handleSequenceCallback the way the edge function does.
+//
+//   deno test --allow-net --allow-env supabase/functions/tests/
+
+import { assert, assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import {
+  expireStaleRenders,
+  handleSequenceCallback,
+  sequenceVideoKey,
+  startSequenceRender,
+  type SequenceClip,
+} from "../_shared/sequenceRender.ts";
+import { fakeSupabase, type Row } from "./fake-supabase.ts";
+import { PLACEHOLDER_MP4 } from "./mock-luma-server.ts";
+import { startMockSequenceRenderer, type MockSequenceRendererOptions } from "./mock-sequence-renderer.ts";
+
+const userId = "user-1";
+const projectId = "project-1";
+const folder = "harbour";
+const secret = "test-secret";
+
+const clips: SequenceClip[] = [1, 2].map((ordinal) => ({
+  scene: { id: `scene-${ordinal}`, ordinal, active_version: 1 },
+  videoKey: `users/${userId}/Scenes/${folder}/scene-${ordinal}-v1.mp4`,
+  durationSeconds: 5,
+}));
+
+const isActive = (row: Row) => row.status === "queued" || row.status === "rendering";
+
+async function withRenderer(
+  test: (context: {
+    fake: ReturnType<typeof fakeSupabase>;
+    renderer: ReturnType<typeof startMockSequenceRenderer>;
+    start: (crossfadeSeconds?: number) => ReturnType<typeof startSequenceRender>;
+    render: (id: string) => Row;
+  }) => Promise<void>,
+  options: MockSequenceRendererOptions = {}
+) {
+  const fake = fakeSupabase({
+    tables: { sequence_renders: [] },
+    defaults: { sequence_renders: { status: "queued" } },
+    files: Object.fromEntries(clips.map((clip) => [clip.videoKey, PLACEHOLDER_MP4])),
+    // idx_sequence_renders_active_project
+    unique: { sequence_renders: (row, existing) => row.project_id === existing.project_id && isActive(row) && isActive(existing) },
+  });
+
+  const renderer = startMockSequenceRenderer(options);
+  const edge = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+    const result = await handleSequenceCallback(fake.client, secret, req);
+    return new Response(JSON.stringify(result), { status: result.ok ? 200 : result.status });
+  });
+
+  const start = (crossfadeSeconds = 0) => startSequenceRender(fake.client, {
+    url: renderer.url,
+    callbackSecret: secret,
+    callbackBaseUrl: `http://localhost:${edge.addr.port}`,
+    fps: 24,
+    signedUrlTtl: 3600,
+  }, { userId, projectId, folder, crossfadeSeconds, clips, output: { width: 1920, height: 1080 } });
+  const render = (id: string) => fake.tables.sequence_renders.find((row) => row.id === id)!;
+
+  try {
+    await test({ fake, renderer, start, render });
+  } finally {
+    await renderer.close();
+    await edge.shutdown();
+  }
+}
+
+Deno.test("a render goes to the renderer and is stored from its signed callback", () => withRenderer(async ({ fake, renderer, start, render }) => {
+  const started = await start(0.5);
+  assert(started.ok);
+  assertEquals(started.render.status, "rendering");
+
+  const job = renderer.jobs.get(started.render.id)!;
+  assertEquals(job.clips.map((clip) => clip.duration_seconds), [5, 5]);
+  assertEquals(job.crossfade_seconds, 0.5);
+  assertEquals(job.output, { fps: 24, width: 1920, height: 1080 });
+
+  assertEquals(await renderer.complete(started.render.id), 200);
+
+  const stored = render(started.render.id);
+  assertEquals(stored.status, "ready");
+  assertEquals(stored.duration_seconds, 9.5);
+  assertEquals(stored.video_url, sequenceVideoKey(started.render));
+  assertEquals(fake.files.get(stored.video_url as string), PLACEHOLDER_MP4);
+}));
+
+Deno.test("callbacks without a matching signature are refused", () => withRenderer(async ({ renderer, start, render }) => {
+  const first = await start();
+  assert(first.ok);
+  const job = renderer.jobs.get(first.render.id)!;
+
+  // The right render with a forged signature, and the right signature for another render
+  const forged = job.callback_url.replace(/sig=[0-9a-f]+/, `sig=${"0".repeat(64)}`);
+  const otherRender = job.callback_url.replace(`render=${first.render.id}`, "render=someone-elses-render");
+
+  for (const url of [forged, otherRender, job.callback_url.replace(/&sig=.*/, "")]) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ status: "failed", error: "forged" }),
+    });
+    await response.body?.cancel();
+    assertEquals(response.status, 401);
+  }
+  assertEquals(render(first.render.id).status, "rendering");
+}));
+
+Deno.test("a project renders one preview at a time", () => withRenderer(async ({ renderer, start, fake }) => {
+  const first = await start();
+  assert(first.ok);
+
+  const second = await start();
+  assert(!second.ok);
+  assertEquals([second.status, second.code], [409, "SEQUENCE_RENDER_IN_PROGRESS"]);
+  assertEquals(renderer.jobs.size, 1);
+  assertEquals(fake.tables.sequence_renders.length, 1);
+
+  // A failed render frees the project like a finished one
+  assertEquals(await renderer.fail(first.render.id, "ffmpeg exited with 1"), 200);
+  assertEquals(fake.tables.sequence_renders[0].error, "ffmpeg exited with 1");
+
+  const third = await start();
+  assert(third.ok);
+}));
+
+Deno.test("renders with no callback expire after the timeout", () => withRenderer(async ({ renderer, start, render, fake }) => {
+  const stale = await start();
+  assert(stale.ok);
+  render(stale.render.id).created_at = new Date(Date.now() - 31 * 60 * 1000).toISOString();
+
+  // It blocks new renders until it is expired
+  assertEquals((await start()).ok, false);
+
+  await expireStaleRenders(fake.client, projectId, 30);
+  assertEquals(render(stale.render.id).status, "error");
+  assertEquals(render(stale.render.id).error, "The sequence renderer did not finish in time");
+
+  const fresh = await start();
+  assert(fresh.ok);
+  await expireStaleRenders(fake.client, projectId, 30);
+  assertEquals(render(fresh.render.id).status, "rendering");
+
+  // The expired render's late callback is acknowledged but changes nothing
+  assertEquals(await renderer.complete(stale.render.id), 200);
+  assertEquals(render(stale.render.id).status, "error");
+  assert(!render(stale.render.id).video_url);
+}));
+
+Deno.test("a finished render replaces the project's previous preview", () => withRenderer(async ({ renderer, start, render, fake }) => {
+  const first = await start();
+  assert(first.ok);
+  await renderer.complete(first.render.id);
+  const firstKey = render(first.render.id).video_url as string;
+  assert(fake.files.has(firstKey));
+
+  const second = await start();
+  assert(second.ok);
+  await renderer.complete(second.render.id);
+
+  assertEquals(render(second.render.id).video_url, sequenceVideoKey(second.render));
+  assertEquals(render(first.render.id).video_url, null);
+  assert(!fake.files.has(firstKey));
+  assertEquals([...fake.files.keys()].filter((key) => key.includes("/sequence/")), [sequenceVideoKey(second.render)]);
+}));
+
+Deno.test("a renderer that refuses the job fails the render", () => withRenderer(async ({ start, fake }) => {
+  const started = await start();
+  assert(!started.ok);
+  assertEquals([started.status, started.code], [502, "UPSTREAM_ERROR"]);
+  assertEquals(fake.tables.sequence_renders[0].status, "error");
+  assertEquals(fake.tables.sequence_renders[0].error, "Sequence renderer responded 503");
+}, { submitFailureStatus: 503 }));
@@ -0,0 +1,287 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { DEFAULT_USER_MONTHLY_BUDGET_USD, monthStart } from "../_shared/usageLedger.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, PUT, OPTIONS",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+interface UsageTotals {
+  spentUsd: number;
+  seconds: number;
+  generations: number;
+}
+
+interface LedgerRow {
+  project_id: string | null;
+  shot_type_id: string | null;
+  shot_type_name: string | null;
+  duration_seconds: number;
+  estimated_cost_usd: number;
+}
+
+function generateCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+async function logError(params: {
+  route: string;
+  method: string;
+  status: number;
+  code: string;
+  message: string;
+  correlationId: string;
+  userId?: string;
+  safeContext?: Record<string, unknown>;
+}) {
+  try {
+    await supabase.from("error_events").insert({
+      route: params.route,
+      method: params.method,
+      status: params.status,
+      code: params.code,
+      message: params.message,
+      correlation_id: params.correlationId,
+      user_id: params.userId,
+      safe_context: params.safeContext,
+    });
+  } catch (logErr) {
+    console.error("Failed to log error:", logErr);
+  }
+  console.error(`[${params.correlationId}] ${params.method} ${params.route} - ${params.status} ${params.code}: ${params.message}`, params.safeContext);
+}
+
+function errorResponse(code: string, message: string, status: number, correlationId: string, headers: Record<string, string>) {
+  return new Response(
+    JSON.stringify({
+      error: {
+        code,
+        message,
+        correlationId
+      },
+      ok: false
+    }),
+    { status, headers }
+  );
+}
+
+function emptyTotals(): UsageTotals {
+  return { spentUsd: 0, seconds: 0, generations: 0 };
+}
+
+function addRow(totals: UsageTotals, row: LedgerRow) {
+  totals.spentUsd += Number(row.estimated_cost_usd);
+  totals.seconds += Number(row.duration_seconds);
+  totals.generations++;
+}
+
+function roundTotals<T extends UsageTotals>(totals: T): T {
+  return { ...totals, spentUsd: Math.round(totals.spentUsd * 100) / 100 };
+}
+
+// "YYYY-MM" to the UTC month range it covers; the current month when absent
+function parseMonth(month: string | null): { start: Date; end: Date } | null {
+  let start: Date;
+  if (!month) {
+    start = monthStart();
+  } else {
+    const match = month.match(/^(\d{4})-(\d{2})$/);
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) return null;
+    start = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1));
+  }
+  const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  return { start, end };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const correlationId = generateCorrelationId();
+  const responseHeaders = { ...corsHeaders, "Content-Type": "application/json", "x-correlation-id": correlationId };
+
+  try {
+    // Authenticate user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return errorResponse('UNAUTHORIZED', 'Missing or invalid authorization header', 401, correlationId, responseHeaders);
+    }
+
+    const token = authHeader.split(" ")[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return errorResponse('AUTH_ERROR', 'Authentication failed', 401, correlationId, responseHeaders);
+    }
+
+    if (req.method === 'GET') {
+      const url = new URL(req.url);
+      const range = parseMonth(url.searchParams.get('month'));
+      if (!range) {
+        return errorResponse('VALIDATION_ERROR', 'month must be formatted YYYY-MM', 400, correlationId, responseHeaders);
+      }
+
+      const [ledgerResult, projectsResult, profileResult] = await Promise.all([
+        supabase
+          .from('usage_ledger')
+          .select('project_id, shot_type_id, shot_type_name, duration_seconds, estimated_cost_usd')
+          .eq('user_id', user.id)
+          .gte('created_at', range.start.toISOString())
+          .lt('created_at', range.end.toISOString()),
+        supabase
+          .from('projects')
+          .select('id, name, monthly_budget_usd')
+          .eq('owner_id', user.id)
+          .order('name', { ascending: true }),
+        supabase
+          .from('profiles')
+          .select('monthly_budget_usd')
+          .eq('id', user.id)
+          .maybeSingle(),
+      ]);
+
+      if (ledgerResult.error || projectsResult.error) {
+        await logError({
+          route: '/usage',
+          method: 'GET',
+          status: 500,
+          code: 'DB_ERROR',
+          message: (ledgerResult.error || projectsResult.error)!.message,
+          correlationId,
+          userId: user.id,
+        });
+        return errorResponse('DB_ERROR', 'Failed to load usage', 500, correlationId, responseHeaders);
+      }
+
+      const total = emptyTotals();
+      const byProject = new Map<string | null, UsageTotals>();
+      const byShotType = new Map<string, UsageTotals & { shotTypeId: string | null; name: string }>();
+
+      for (const row of (ledgerResult.data || []) as LedgerRow[]) {
+        addRow(total, row);
+
+        if (!byProject.has(row.project_id)) byProject.set(row.project_id, emptyTotals());
+        addRow(byProject.get(row.project_id)!, row);
+
+        // Deleted shot types keep their spend under the name they had at render time
+        const shotTypeKey = row.shot_type_id || `name:${row.shot_type_name || ''}`;
+        if (!byShotType.has(shotTypeKey)) {
+          byShotType.set(shotTypeKey, {
+            ...emptyTotals(),
+            shotTypeId: row.shot_type_id,
+            name: row.shot_type_name || 'Unknown shot type'
+          });
+        }
+        addRow(byShotType.get(shotTypeKey)!, row);
+      }
+
+      const projects = (projectsResult.data || []).map((project) => roundTotals({
+        projectId: project.id as string | null,
+        name: project.name,
+        budgetUsd: project.monthly_budget_usd === null ? null : Number(project.monthly_budget_usd),
+        ...(byProject.get(project.id) || emptyTotals())
+      }));
+
+      const deletedProjects = byProject.get(null);
+      if (deletedProjects) {
+        projects.push(roundTotals({ projectId: null, name: 'Deleted projects', budgetUsd: null, ...deletedProjects }));
+      }
+
+      const userBudget = profileResult.data?.monthly_budget_usd ?? DEFAULT_USER_MONTHLY_BUDGET_USD;
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: {
+            month: range.start.toISOString().slice(0, 7),
+            total: roundTotals(total),
+            userBudgetUsd: userBudget === null ? null : Number(userBudget),
+            projects: projects.sort((a, b) => b.spentUsd - a.spentUsd),
+            shotTypes: [...byShotType.values()].map(roundTotals).sort((a, b) => b.spentUsd - a.spentUsd)
+          },
+          ok: true
+        }),
+        { headers: responseHeaders }
+      );
+    }
+
+    if (req.method === 'PUT') {
+      // Owners set their own project budgets; user budgets are set by admins on profiles
+      let body: { project_id?: unknown; monthly_budget_usd?: unknown };
+      try {
+        body = await req.json();
+      } catch {
+        return errorResponse('INVALID_JSON', 'Invalid JSON in request body', 400, correlationId, responseHeaders);
+      }
+
+      if (!body.project_id || typeof body.project_id !== 'string') {
+        return errorResponse('VALIDATION_ERROR', 'project_id is required and must be a string', 400, correlationId, responseHeaders);
+      }
+
+      const budget = body.monthly_budget_usd;
+      if (budget !== null && (typeof budget !== 'number' || !Number.isFinite(budget) || budget < 0)) {
+        return errorResponse('VALIDATION_ERROR', 'monthly_budget_usd must be a non-negative number or null', 400, correlationId, responseHeaders);
+      }
+
+      const { data: project, error: updateError } = await supabase
+        .from('projects')
+        .update({ monthly_budget_usd: budget, updated_at: new Date().toISOString() })
+        .eq('id', body.project_id)
+        .eq('owner_id', user.id)
+        .select('id, name, monthly_budget_usd')
+        .maybeSingle();
+
+      if (updateError) {
+        await logError({
+          route: '/usage',
+          method: 'PUT',
+          status: 500,
+          code: 'UPDATE_ERROR',
+          message: updateError.message,
+          correlationId,
+          userId: user.id,
+        });
+        return errorResponse('UPDATE_ERROR', 'Failed to update project budget', 500, correlationId, responseHeaders);
+      }
+
+      if (!project) {
+        return errorResponse('PROJECT_NOT_FOUND', 'Project not found', 404, correlationId, responseHeaders);
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: {
+            projectId: project.id,
+            name: project.name,
+            budgetUsd: project.monthly_budget_usd === null ? null : Number(project.monthly_budget_usd)
+          },
+          ok: true
+        }),
+        { headers: responseHeaders }
+      );
+    }
+
+    return errorResponse('METHOD_NOT_ALLOWED', `Method ${req.method} not allowed`, 405, correlationId, responseHeaders);
+
+  } catch (error) {
+    await logError({
+      route: '/usage',
+      method: req.method,
+      status: 500,
+      code: 'INTERNAL_ERROR',
+      message: error.message,
+      correlationId,
+    });
+
+    return errorResponse('INTERNAL_ERROR', 'Internal server error', 500, correlationId, responseHeaders);
+  }
+});
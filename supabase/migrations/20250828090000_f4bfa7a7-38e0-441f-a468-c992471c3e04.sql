@@ -0,0 +1,20 @@
+-- Record which video provider and model produced each scene and version
+ALTER TABLE public.scenes
+ADD COLUMN IF NOT EXISTS provider text NOT NULL DEFAULT 'luma',
+ADD COLUMN IF NOT EXISTS provider_model text;
+
+ALTER TABLE public.scene_versions
+ADD COLUMN IF NOT EXISTS provider text,
+ADD COLUMN IF NOT EXISTS provider_model text;
+
+-- Existing scenes were all generated through Luma ray-flash-2
+UPDATE public.scenes SET provider_model = 'ray-flash-2' WHERE provider_model IS NULL AND luma_job_id IS NOT NULL;
+
+UPDATE public.scene_versions
+SET provider = 'luma', provider_model = COALESCE(render_meta->>'model', 'ray-flash-2')
+WHERE provider IS NULL;
+
+-- Allow a shot type to pick its backend; NULL means the deployment default
+ALTER TABLE public.shot_types
+ADD COLUMN IF NOT EXISTS provider text,
+ADD COLUMN IF NOT EXISTS provider_model text;
@@ -0,0 +1,28 @@
+-- Sweep scenes stuck in pending/queued/processing every 10 minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Speeds up the reconciler's scan of non-terminal scenes
+CREATE INDEX IF NOT EXISTS idx_scenes_luma_status_updated_at
+ON public.scenes (luma_status, updated_at)
+WHERE deleted_at IS NULL;
+
+-- The bearer token lives in Vault:
+--   select vault.create_secret('<RECONCILER_SECRET>', 'reconciler_secret');
+SELECT cron.unschedule('scene-reconciler')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'scene-reconciler');
+
+SELECT cron.schedule(
+  'scene-reconciler',
+  '*/10 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://fmizfozbyrohydcutkgg.supabase.co/functions/v1/scene-reconciler',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'reconciler_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,19 @@
+-- Generation settings (aspect ratio, duration, resolution, model, loop, camera concepts).
+-- Shot types hold defaults; scenes hold the fully resolved set so regenerations reproduce them.
+ALTER TABLE public.shot_types
+ADD COLUMN IF NOT EXISTS generation_params jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.scenes
+ADD COLUMN IF NOT EXISTS generation_params jsonb;
+
+-- Existing scenes were submitted with the previously hard-coded settings
+UPDATE public.scenes
+SET generation_params = jsonb_build_object(
+  'model', COALESCE(provider_model, 'ray-flash-2'),
+  'resolution', '1080p',
+  'aspect_ratio', '16:9',
+  'duration', '5s',
+  'loop', false,
+  'concepts', '[]'::jsonb
+)
+WHERE generation_params IS NULL AND luma_job_id IS NOT NULL;
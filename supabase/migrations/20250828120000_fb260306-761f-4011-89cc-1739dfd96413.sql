@@ -0,0 +1,13 @@
+-- The rendered version exports and scene cards use; NULL means the latest rendered version
+ALTER TABLE public.scenes
+ADD COLUMN IF NOT EXISTS active_version integer;
+
+UPDATE public.scenes s
+SET active_version = v.latest
+FROM (
+  SELECT scene_id, MAX(version) AS latest
+  FROM public.scene_versions
+  WHERE video_url IS NOT NULL
+  GROUP BY scene_id
+) v
+WHERE v.scene_id = s.id AND s.active_version IS NULL;
@@ -0,0 +1,7 @@
+-- Scenes extended from another scene's final frame point back at it
+ALTER TABLE public.scenes
+ADD COLUMN IF NOT EXISTS parent_scene_id uuid REFERENCES public.scenes(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scenes_parent_scene_id
+ON public.scenes (parent_scene_id)
+WHERE parent_scene_id IS NOT NULL;
@@ -0,0 +1,34 @@
+-- Storyboard batches: many (start, end, shot type) scenes submitted in one request
+CREATE TABLE IF NOT EXISTS public.scene_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id uuid REFERENCES public.projects(id) ON DELETE SET NULL,
+  folder text NOT NULL,
+  total integer NOT NULL,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+ALTER TABLE public.scene_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own scene batches"
+ON public.scene_batches
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_scene_batches_updated_at
+  BEFORE UPDATE ON public.scene_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Batch scenes wait as luma_status 'pending' without a job id until a concurrency slot frees up
+ALTER TABLE public.scenes
+ADD COLUMN IF NOT EXISTS batch_id uuid REFERENCES public.scene_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scenes_batch_id
+ON public.scenes (batch_id)
+WHERE batch_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scenes_user_luma_status
+ON public.scenes (user_id, luma_status)
+WHERE deleted_at IS NULL;
@@ -0,0 +1,124 @@
+-- Generation job queue: every scene render is queued here and started by the worker
+-- (_shared/generationQueue.ts) while the user and the deployment have free in-flight slots
+CREATE TABLE IF NOT EXISTS public.generation_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  scene_id uuid NOT NULL REFERENCES public.scenes(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version integer NOT NULL DEFAULT 1,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'submitting', 'running', 'completed', 'failed')),
+  -- Submission inputs that aren't stored on the scene (regenerate prompt override, extend keyframe)
+  prompt text,
+  start_generation_id text,
+  provider_job_id text,
+  last_error text,
+  enqueued_at timestamp with time zone NOT NULL DEFAULT now(),
+  started_at timestamp with time zone,
+  finished_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+-- At most one unfinished job per scene
+CREATE UNIQUE INDEX IF NOT EXISTS idx_generation_jobs_active_scene
+ON public.generation_jobs (scene_id)
+WHERE status IN ('queued', 'submitting', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_status_enqueued
+ON public.generation_jobs (status, enqueued_at);
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_user_status
+ON public.generation_jobs (user_id, status);
+
+ALTER TABLE public.generation_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own generation jobs"
+ON public.generation_jobs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_generation_jobs_updated_at
+  BEFORE UPDATE ON public.generation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The video section follows queue positions over realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.generation_jobs;
+
+-- Claims the oldest queued jobs that fit under the per-user and global in-flight limits,
+-- moving them to 'submitting'. Claimers are serialized so concurrent workers can't overshoot.
+CREATE OR REPLACE FUNCTION public.claim_generation_jobs(p_user_max integer, p_global_max integer, p_limit integer DEFAULT 10)
+RETURNS SETOF public.generation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_global_free integer;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('claim_generation_jobs'));
+
+  SELECT p_global_max - count(*) INTO v_global_free
+  FROM public.generation_jobs
+  WHERE status IN ('submitting', 'running');
+
+  IF v_global_free <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH in_flight AS (
+    SELECT user_id, count(*) AS n
+    FROM public.generation_jobs
+    WHERE status IN ('submitting', 'running')
+    GROUP BY user_id
+  ), ranked AS (
+    SELECT j.id, j.enqueued_at,
+      COALESCE(f.n, 0) + row_number() OVER (PARTITION BY j.user_id ORDER BY j.enqueued_at) AS slot
+    FROM public.generation_jobs j
+    LEFT JOIN in_flight f ON f.user_id = j.user_id
+    WHERE j.status = 'queued'
+  ), picked AS (
+    SELECT id FROM ranked
+    WHERE slot <= p_user_max
+    ORDER BY enqueued_at
+    LIMIT LEAST(v_global_free, p_limit)
+  )
+  UPDATE public.generation_jobs j
+  SET status = 'submitting', started_at = now()
+  FROM picked
+  WHERE j.id = picked.id
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_generation_jobs(integer, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- Batch scenes that were waiting under the previous dispatcher join the queue
+INSERT INTO public.generation_jobs (scene_id, user_id, version, enqueued_at)
+SELECT id, user_id, version, created_at
+FROM public.scenes
+WHERE luma_status = 'pending'
+  AND luma_job_id IS NULL
+  AND deleted_at IS NULL;
+
+DROP INDEX IF EXISTS public.idx_scenes_user_luma_status;
+
+-- Starts queued jobs every minute in case no create or completion kicked the worker
+SELECT cron.unschedule('generation-worker')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'generation-worker');
+
+SELECT cron.schedule(
+  'generation-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://fmizfozbyrohydcutkgg.supabase.co/functions/v1/generation-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'reconciler_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
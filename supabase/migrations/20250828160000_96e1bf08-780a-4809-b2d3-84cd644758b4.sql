@@ -0,0 +1,11 @@
+-- 'cancelled' is a terminal scene status set by luma-cancel-scene.
+-- The original check predates the 'processing' status the generation functions write.
+ALTER TABLE public.scenes DROP CONSTRAINT IF EXISTS scenes_status_check;
+ALTER TABLE public.scenes
+ADD CONSTRAINT scenes_status_check
+CHECK (status IN ('queued', 'rendering', 'processing', 'ready', 'error', 'cancelled'));
+
+ALTER TABLE public.generation_jobs DROP CONSTRAINT IF EXISTS generation_jobs_status_check;
+ALTER TABLE public.generation_jobs
+ADD CONSTRAINT generation_jobs_status_check
+CHECK (status IN ('queued', 'submitting', 'running', 'completed', 'failed', 'cancelled'));
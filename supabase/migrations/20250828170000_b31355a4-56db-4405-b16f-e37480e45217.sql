@@ -0,0 +1,57 @@
+-- Retry policy for transient provider failures (429/5xx/network): each failed upstream call
+-- is logged on the scene, and queued jobs wait for next_attempt_at before being claimed again
+ALTER TABLE public.scenes
+ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS attempt_log jsonb NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS next_retry_at timestamp with time zone;
+
+ALTER TABLE public.generation_jobs
+ADD COLUMN IF NOT EXISTS next_attempt_at timestamp with time zone;
+
+CREATE OR REPLACE FUNCTION public.claim_generation_jobs(p_user_max integer, p_global_max integer, p_limit integer DEFAULT 10)
+RETURNS SETOF public.generation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_global_free integer;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('claim_generation_jobs'));
+
+  SELECT p_global_max - count(*) INTO v_global_free
+  FROM public.generation_jobs
+  WHERE status IN ('submitting', 'running');
+
+  IF v_global_free <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH in_flight AS (
+    SELECT user_id, count(*) AS n
+    FROM public.generation_jobs
+    WHERE status IN ('submitting', 'running')
+    GROUP BY user_id
+  ), ranked AS (
+    SELECT j.id, j.enqueued_at,
+      COALESCE(f.n, 0) + row_number() OVER (PARTITION BY j.user_id ORDER BY j.enqueued_at) AS slot
+    FROM public.generation_jobs j
+    LEFT JOIN in_flight f ON f.user_id = j.user_id
+    WHERE j.status = 'queued'
+      AND (j.next_attempt_at IS NULL OR j.next_attempt_at <= now())
+  ), picked AS (
+    SELECT id FROM ranked
+    WHERE slot <= p_user_max
+    ORDER BY enqueued_at
+    LIMIT LEAST(v_global_free, p_limit)
+  )
+  UPDATE public.generation_jobs j
+  SET status = 'submitting', started_at = now()
+  FROM picked
+  WHERE j.id = picked.id
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_generation_jobs(integer, integer, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,42 @@
+-- Usage ledger: one row per generation submitted to a provider, with its estimated cost
+-- (_shared/usageLedger.ts). Shot type names are copied so spend survives deletes and renames.
+CREATE TABLE IF NOT EXISTS public.usage_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id uuid REFERENCES public.projects(id) ON DELETE SET NULL,
+  scene_id uuid REFERENCES public.scenes(id) ON DELETE SET NULL,
+  scene_version integer,
+  shot_type_id uuid REFERENCES public.shot_types(id) ON DELETE SET NULL,
+  shot_type_name text,
+  provider text NOT NULL,
+  model text,
+  resolution text,
+  duration_seconds numeric(8,2) NOT NULL DEFAULT 0,
+  estimated_cost_usd numeric(10,4) NOT NULL DEFAULT 0,
+  provider_job_id text,
+  correlation_id text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_ledger_user_created
+ON public.usage_ledger (user_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_usage_ledger_project_created
+ON public.usage_ledger (project_id, created_at);
+
+ALTER TABLE public.usage_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own usage"
+ON public.usage_ledger
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Monthly spend limits in USD; NULL means no limit (the user budget falls back to
+-- DEFAULT_USER_MONTHLY_BUDGET_USD when set)
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS monthly_budget_usd numeric(10,2)
+  CHECK (monthly_budget_usd IS NULL OR monthly_budget_usd >= 0);
+
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS monthly_budget_usd numeric(10,2)
+  CHECK (monthly_budget_usd IS NULL OR monthly_budget_usd >= 0);
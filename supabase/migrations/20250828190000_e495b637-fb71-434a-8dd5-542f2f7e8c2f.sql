@@ -0,0 +1,4 @@
+-- User-entered prompt template variables ({{subject}}, {{mood}}) for each scene;
+-- regenerations render the shot type template with the same values
+ALTER TABLE public.scenes
+ADD COLUMN IF NOT EXISTS prompt_vars jsonb NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,6 @@
+-- Per-scene prompt override and the prompt actually sent to the provider for the current render
+ALTER TABLE public.scenes
+ADD COLUMN IF NOT EXISTS prompt text,
+ADD COLUMN IF NOT EXISTS prompt_override text,
+ADD COLUMN IF NOT EXISTS prompt_override_mode text NOT NULL DEFAULT 'append'
+  CHECK (prompt_override_mode IN ('append', 'replace'));
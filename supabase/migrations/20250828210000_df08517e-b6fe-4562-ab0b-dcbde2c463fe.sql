@@ -0,0 +1,76 @@
+-- Teams share shot type libraries: named snapshots of shot types, stored in the same format as
+-- the shot-types JSON export, that members import into their own shot_types
+CREATE TABLE IF NOT EXISTS public.teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.team_members (
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  created_at timestamp with time zone DEFAULT now(),
+  PRIMARY KEY (team_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_members_user ON public.team_members (user_id);
+
+CREATE TABLE IF NOT EXISTS public.shot_type_libraries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  shot_types jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  UNIQUE (team_id, name)
+);
+
+CREATE OR REPLACE FUNCTION public.is_team_member(p_team_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.team_members
+    WHERE team_id = p_team_id
+      AND user_id = p_user_id
+  );
+$$;
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shot_type_libraries ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through the shot-type-libraries function
+CREATE POLICY "Members can view their teams"
+ON public.teams
+FOR SELECT
+USING (public.is_team_member(id, auth.uid()));
+
+CREATE POLICY "Members can view their team's members"
+ON public.team_members
+FOR SELECT
+USING (public.is_team_member(team_id, auth.uid()));
+
+CREATE POLICY "Members can view their team's libraries"
+ON public.shot_type_libraries
+FOR SELECT
+USING (public.is_team_member(team_id, auth.uid()));
+
+CREATE TRIGGER update_teams_updated_at
+  BEFORE UPDATE ON public.teams
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_shot_type_libraries_updated_at
+  BEFORE UPDATE ON public.shot_type_libraries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,98 @@
+-- scenes.shot_type and scene_generations.shot_type date from the fixed 1-6 shot list. Since shot
+-- types became user-defined, luma-create-scene has been writing shot_types ids into them.
+-- Replace both with a real foreign key, plus a snapshot of the name and prompt template used at
+-- generation time so scene history stays readable after a shot type is edited or deleted.
+
+ALTER TABLE public.scenes
+  DROP CONSTRAINT IF EXISTS scenes_shot_type_check,
+  ALTER COLUMN shot_type DROP NOT NULL,
+  ALTER COLUMN shot_type TYPE text USING shot_type::text,
+  ADD COLUMN IF NOT EXISTS shot_type_id uuid REFERENCES public.shot_types(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS shot_type_name text,
+  ADD COLUMN IF NOT EXISTS shot_type_prompt text;
+
+ALTER TABLE public.scene_generations
+  ALTER COLUMN shot_type DROP NOT NULL,
+  ALTER COLUMN shot_type TYPE text USING shot_type::text,
+  ADD COLUMN IF NOT EXISTS shot_type_id uuid REFERENCES public.shot_types(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS shot_type_name text;
+
+-- Values that are already one of the owner's shot type ids
+UPDATE public.scenes s
+SET shot_type_id = st.id
+FROM public.shot_types st
+WHERE s.shot_type ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  AND st.id = s.shot_type::uuid
+  AND st.owner_id = s.user_id;
+
+-- Legacy numbers (the original fixed shot list): the owner's shot type with the original name,
+-- else the one on that hotkey
+UPDATE public.scenes s
+SET shot_type_id = st.id
+FROM (VALUES
+  ('1', 'Wide Shot'),
+  ('2', 'Medium Shot'),
+  ('3', 'Close-up'),
+  ('4', 'Extreme Close-up'),
+  ('5', 'Over Shoulder'),
+  ('6', 'Point of View')
+) AS l(number, name)
+JOIN public.shot_types st ON st.name = l.name
+WHERE s.shot_type_id IS NULL
+  AND s.shot_type = l.number
+  AND st.owner_id = s.user_id;
+
+UPDATE public.scenes s
+SET shot_type_id = st.id
+FROM public.shot_types st
+WHERE s.shot_type_id IS NULL
+  AND s.shot_type ~ '^[1-6]$'
+  AND st.hotkey = s.shot_type
+  AND st.owner_id = s.user_id;
+
+-- Snapshot what each scene was rendered with; unmatched legacy numbers keep the original name
+UPDATE public.scenes s
+SET shot_type_name = st.name,
+    shot_type_prompt = st.prompt_template
+FROM public.shot_types st
+WHERE st.id = s.shot_type_id;
+
+UPDATE public.scenes s
+SET shot_type_name = l.name
+FROM (VALUES
+  ('1', 'Wide Shot'),
+  ('2', 'Medium Shot'),
+  ('3', 'Close-up'),
+  ('4', 'Extreme Close-up'),
+  ('5', 'Over Shoulder'),
+  ('6', 'Point of View')
+) AS l(number, name)
+WHERE s.shot_type_id IS NULL
+  AND s.shot_type = l.number;
+
+-- Generations follow their scene where they used the same value, else the legacy name
+UPDATE public.scene_generations g
+SET shot_type_id = s.shot_type_id,
+    shot_type_name = s.shot_type_name
+FROM public.scenes s
+WHERE s.id = g.scene_id
+  AND s.shot_type = g.shot_type;
+
+UPDATE public.scene_generations g
+SET shot_type_name = l.name
+FROM (VALUES
+  ('1', 'Wide Shot'),
+  ('2', 'Medium Shot'),
+  ('3', 'Close-up'),
+  ('4', 'Extreme Close-up'),
+  ('5', 'Over Shoulder'),
+  ('6', 'Point of View')
+) AS l(number, name)
+WHERE g.shot_type_name IS NULL
+  AND g.shot_type = l.number;
+
+ALTER TABLE public.scenes DROP COLUMN shot_type;
+ALTER TABLE public.scene_generations DROP COLUMN shot_type;
+
+CREATE INDEX IF NOT EXISTS idx_scenes_shot_type_id
+  ON public.scenes (shot_type_id);
@@ -0,0 +1,30 @@
+-- Sets the order of a user's shot types in one statement, so a drag-reorder in the Shot Types
+-- Manager can't leave them half-renumbered. p_ids must list every one of the owner's shot types
+-- exactly once; sort_order becomes each id's 1-based position.
+CREATE OR REPLACE FUNCTION public.reorder_shot_types(p_owner_id uuid, p_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (SELECT count(DISTINCT id) FROM unnest(p_ids) AS t(id)) <> cardinality(p_ids)
+    OR (SELECT count(*) FROM public.shot_types WHERE owner_id = p_owner_id) <> cardinality(p_ids)
+    OR EXISTS (
+      SELECT 1 FROM unnest(p_ids) AS t(id)
+      WHERE NOT EXISTS (SELECT 1 FROM public.shot_types st WHERE st.id = t.id AND st.owner_id = p_owner_id)
+    ) THEN
+    RAISE EXCEPTION 'p_ids must list each of the owner''s shot types exactly once'
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.shot_types st
+  SET sort_order = t.position
+  FROM unnest(p_ids) WITH ORDINALITY AS t(id, position)
+  WHERE st.id = t.id
+    AND st.owner_id = p_owner_id;
+END;
+$$;
+
+-- Only the shot-types function (service role) may call it; it trusts p_owner_id
+REVOKE EXECUTE ON FUNCTION public.reorder_shot_types(uuid, uuid[]) FROM PUBLIC, anon, authenticated;
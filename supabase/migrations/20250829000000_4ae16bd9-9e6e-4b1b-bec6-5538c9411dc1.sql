@@ -0,0 +1,20 @@
+-- Record which shot type each rendered version used, so a shot type's gallery can show what it
+-- produces even after the scene is regenerated with another one
+ALTER TABLE public.scene_versions
+  ADD COLUMN IF NOT EXISTS shot_type_id uuid REFERENCES public.shot_types(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS shot_type_name text;
+
+-- Existing versions are attributed to their scene's current shot type
+UPDATE public.scene_versions v
+SET shot_type_id = s.shot_type_id,
+    shot_type_name = s.shot_type_name
+FROM public.scenes s
+WHERE s.id = v.scene_id
+  AND v.shot_type_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scene_versions_shot_type_created
+  ON public.scene_versions (shot_type_id, created_at DESC);
+
+-- The version a user pinned as the representative example of a shot type
+ALTER TABLE public.shot_types
+  ADD COLUMN IF NOT EXISTS preview_version_id uuid REFERENCES public.scene_versions(id) ON DELETE SET NULL;
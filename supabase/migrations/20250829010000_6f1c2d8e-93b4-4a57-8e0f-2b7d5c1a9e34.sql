@@ -0,0 +1,60 @@
+-- Scenes can be left out of a project's timeline (export, sequence preview) without deleting them
+ALTER TABLE public.scenes
+  ADD COLUMN IF NOT EXISTS excluded_from_timeline boolean NOT NULL DEFAULT false;
+
+-- Renumbers a project's scenes in one statement, so a timeline edit can't leave ordinals
+-- half-updated or duplicated. p_ids must list every live (not deleted) scene of the project
+-- exactly once, in timeline order; p_excluded is the subset left out of the timeline.
+-- Ordinals become 1..n with included scenes first, then excluded ones, each in p_ids order,
+-- which also closes gaps left by deleted scenes. Returns the new ordinal of every scene.
+CREATE OR REPLACE FUNCTION public.reorder_scenes(p_user_id uuid, p_project_id uuid, p_ids uuid[], p_excluded uuid[])
+RETURNS TABLE (scene_id uuid, ordinal int)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Lock the project's scenes so a concurrent edit waits for this one
+  PERFORM 1 FROM public.scenes s
+  WHERE s.project_id = p_project_id AND s.user_id = p_user_id AND s.deleted_at IS NULL
+  FOR UPDATE;
+
+  IF (SELECT count(DISTINCT id) FROM unnest(p_ids) AS t(id)) <> cardinality(p_ids)
+    OR (
+      SELECT count(*) FROM public.scenes s
+      WHERE s.project_id = p_project_id AND s.user_id = p_user_id AND s.deleted_at IS NULL
+    ) <> cardinality(p_ids)
+    OR EXISTS (
+      SELECT 1 FROM unnest(p_ids) AS t(id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.scenes s
+        WHERE s.id = t.id AND s.project_id = p_project_id AND s.user_id = p_user_id AND s.deleted_at IS NULL
+      )
+    ) THEN
+    RAISE EXCEPTION 'p_ids must list each of the project''s scenes exactly once'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(p_excluded) AS t(id) WHERE t.id <> ALL (p_ids)) THEN
+    RAISE EXCEPTION 'p_excluded may only list scenes in p_ids'
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.scenes s
+  SET ordinal = n.new_ordinal,
+      excluded_from_timeline = n.excluded,
+      updated_at = now()
+  FROM (
+    SELECT t.id,
+           t.id = ANY (p_excluded) AS excluded,
+           (row_number() OVER (ORDER BY t.id = ANY (p_excluded), t.position))::int AS new_ordinal
+    FROM unnest(p_ids) WITH ORDINALITY AS t(id, position)
+  ) n
+  WHERE s.id = n.id
+  RETURNING s.id, s.ordinal;
+END;
+$$;
+
+-- Only the scene-timeline function (service role) may call it; it trusts p_user_id
+REVOKE EXECUTE ON FUNCTION public.reorder_scenes(uuid, uuid, uuid[], uuid[]) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,44 @@
+-- Sequence previews: a project's timeline (active versions in ordinal order) concatenated into
+-- one MP4 by the external sequence renderer. Statuses follow scenes: queued until the renderer
+-- accepts the job, rendering until its callback, then ready (video_url set) or error.
+CREATE TABLE IF NOT EXISTS public.sequence_renders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  folder text NOT NULL,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'rendering', 'ready', 'error')),
+  crossfade_seconds numeric NOT NULL DEFAULT 0
+    CHECK (crossfade_seconds >= 0 AND crossfade_seconds <= 2),
+  -- The scenes and versions that went in, in order: [{ "scene_id", "ordinal", "version" }]
+  clips jsonb NOT NULL DEFAULT '[]'::jsonb,
+  duration_seconds numeric,
+  video_url text,
+  error text,
+  started_at timestamp with time zone,
+  finished_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sequence_renders_project_created
+ON public.sequence_renders (project_id, created_at DESC);
+
+-- At most one unfinished render per project
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sequence_renders_active_project
+ON public.sequence_renders (project_id)
+WHERE status IN ('queued', 'rendering');
+
+ALTER TABLE public.sequence_renders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sequence renders"
+ON public.sequence_renders
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_sequence_renders_updated_at
+  BEFORE UPDATE ON public.sequence_renders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.sequence_renders;
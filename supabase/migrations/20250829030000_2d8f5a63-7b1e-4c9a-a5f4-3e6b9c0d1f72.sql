@@ -0,0 +1,6 @@
+-- Lightweight stand-ins for each rendered video, stored next to it: a poster frame
+-- (scene-{ordinal}-v{n}.jpg) and a few seconds of animated preview (scene-{ordinal}-v{n}-preview.webp).
+-- Storage keys like video_url; null when the render has none, and cards fall back to the start frame.
+ALTER TABLE public.scene_versions
+  ADD COLUMN IF NOT EXISTS poster_url text,
+  ADD COLUMN IF NOT EXISTS preview_url text;
@@ -0,0 +1,102 @@
+-- Deleted scenes kept their ordinals through reorder_scenes, so a live scene could be numbered
+-- like a deleted one and the two fight over the same file names. reorder_scenes now numbers the
+-- project's deleted scenes too, after the live ones (n+1..), in their previous order.
+CREATE OR REPLACE FUNCTION public.reorder_scenes(p_user_id uuid, p_project_id uuid, p_ids uuid[], p_excluded uuid[])
+RETURNS TABLE (scene_id uuid, ordinal int)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Lock the project's scenes, deleted ones included, so a concurrent edit or restore waits
+  PERFORM 1 FROM public.scenes s
+  WHERE s.project_id = p_project_id AND s.user_id = p_user_id
+  FOR UPDATE;
+
+  IF (SELECT count(DISTINCT id) FROM unnest(p_ids) AS t(id)) <> cardinality(p_ids)
+    OR (
+      SELECT count(*) FROM public.scenes s
+      WHERE s.project_id = p_project_id AND s.user_id = p_user_id AND s.deleted_at IS NULL
+    ) <> cardinality(p_ids)
+    OR EXISTS (
+      SELECT 1 FROM unnest(p_ids) AS t(id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.scenes s
+        WHERE s.id = t.id AND s.project_id = p_project_id AND s.user_id = p_user_id AND s.deleted_at IS NULL
+      )
+    ) THEN
+    RAISE EXCEPTION 'p_ids must list each of the project''s scenes exactly once'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(p_excluded) AS t(id) WHERE t.id <> ALL (p_ids)) THEN
+    RAISE EXCEPTION 'p_excluded may only list scenes in p_ids'
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.scenes s
+  SET ordinal = n.new_ordinal,
+      excluded_from_timeline = n.excluded,
+      updated_at = now()
+  FROM (
+    SELECT t.id,
+           t.id = ANY (p_excluded) AS excluded,
+           (row_number() OVER (ORDER BY t.id = ANY (p_excluded), t.position))::int AS new_ordinal
+    FROM unnest(p_ids) WITH ORDINALITY AS t(id, position)
+    UNION ALL
+    SELECT d.id,
+           d.excluded_from_timeline,
+           cardinality(p_ids) + (row_number() OVER (ORDER BY d.ordinal NULLS LAST, d.created_at, d.id))::int
+    FROM public.scenes d
+    WHERE d.project_id = p_project_id AND d.user_id = p_user_id AND d.deleted_at IS NOT NULL
+  ) n
+  WHERE s.id = n.id
+  RETURNING s.id, s.ordinal;
+END;
+$$;
+
+-- Undoes a soft delete. The scene keeps its ordinal unless another scene of the project holds it,
+-- in which case it takes the next free one (the end of the timeline). Scenes from before projects
+-- are restored as they were. Returns nothing when the user has no such scene; scene-timeline
+-- renames the scene's files to the returned ordinal.
+CREATE OR REPLACE FUNCTION public.restore_scene(p_user_id uuid, p_scene_id uuid)
+RETURNS TABLE (scene_id uuid, ordinal int, folder text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project_id uuid;
+BEGIN
+  SELECT s.project_id INTO v_project_id
+  FROM public.scenes s
+  WHERE s.id = p_scene_id AND s.user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Same lock as reorder_scenes, so the two can't hand out one ordinal twice
+  PERFORM 1 FROM public.scenes s
+  WHERE (s.project_id = v_project_id AND s.user_id = p_user_id) OR s.id = p_scene_id
+  FOR UPDATE;
+
+  RETURN QUERY
+  UPDATE public.scenes s
+  SET deleted_at = NULL,
+      ordinal = CASE
+        WHEN v_project_id IS NOT NULL AND (s.ordinal IS NULL OR EXISTS (
+          SELECT 1 FROM public.scenes o
+          WHERE o.project_id = v_project_id AND o.id <> s.id AND o.ordinal = s.ordinal
+        )) THEN public.next_scene_ordinal(v_project_id)
+        ELSE s.ordinal
+      END,
+      updated_at = now()
+  WHERE s.id = p_scene_id
+  RETURNING s.id, s.ordinal, s.folder;
+END;
+$$;
+
+-- Only the scene-timeline function (service role) may call it; it trusts p_user_id
+REVOKE EXECUTE ON FUNCTION public.restore_scene(uuid, uuid) FROM PUBLIC, anon, authenticated;
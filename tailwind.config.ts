@@ -56,7 +56,8 @@ export default {
 					queued: 'hsl(var(--status-queued))',
 					rendering: 'hsl(var(--status-rendering))',
 					ready: 'hsl(var(--status-ready))',
-					error: 'hsl(var(--status-error))'
+					error: 'hsl(var(--status-error))',
+					cancelled: 'hsl(var(--status-cancelled))'
 				},
 				sidebar: {
 					DEFAULT: 'hsl(var(--sidebar-background))',
@@ -0,0 +1,42 @@
+// Thin wrappers around the ffmpeg binary and the file transfers around it
+
+const ffmpegPath = Deno.env.get("FFMPEG_PATH") || "ffmpeg";
+
+export async function runFfmpeg(args: string[]): Promise<void> {
+  const { success, code, stderr } = await new Deno.Command(ffmpegPath, {
+    args: ["-hide_banner", "-loglevel", "error", "-y", ...args],
+    stdin: "null",
+    stdout: "null",
+    stderr: "piped",
+  }).output();
+
+  if (!success) {
+    const message = new TextDecoder().decode(stderr).trim().split("\n").slice(-3).join(" ");
+    throw new Error(`ffmpeg exited with ${code}${message ? `: ${message}` : ""}`);
+  }
+}
+
+export async function downloadTo(url: string, path: string): Promise<void> {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    await response.body?.cancel();
+    throw new Error(`Failed to download ${new URL(url).pathname}: ${response.status} ${response.statusText}`);
+  }
+
+  const file = await Deno.open(path, { write: true, create: true, truncate: true });
+  await response.body.pipeTo(file.writable);
+}
+
+// Signed upload URLs take the raw file in a PUT
+export async function uploadFile(uploadUrl: string, path: string, contentType: string): Promise<void> {
+  const response = await fetch(uploadUrl, {
+    method: "PUT",
+    headers: { "Content-Type": contentType, "x-upsert": "true" },
+    body: await Deno.readFile(path),
+  });
+  await response.body?.cancel();
+
+  if (!response.ok) {
+    throw new Error(`Upload of ${contentType} failed: ${response.status} ${response.statusText}`);
+  }
+}
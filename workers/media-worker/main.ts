@@ -0,0 +1,108 @@
+// Media worker: the video processing Supabase edge functions can't do themselves, run with ffmpeg.
+//
+//   POST /sequence     sequence renderer for sequence-render (contract in the README)
+//   POST /thumbnails   poster and animated preview of a scene video for scene completion
+//
+// Run it (ffmpeg on PATH):
+//   deno run --allow-net --allow-env --allow-read --allow-write --allow-run=ffmpeg workers/media-worker/main.ts
+// or build the Dockerfile next to this file. Sequence renders run one at a time, in the order
+// they arrive. Thumbnails are short and scene completion waits for them, so they run right away.
+
+import { renderSequence, validateSequenceJob, type SequenceJob } from "./sequence.ts";
+import { createThumbnails, validateThumbnailJob, type ThumbnailJob } from "./thumbnails.ts";
+
+export interface MediaWorkerOptions {
+  // Bearer token callers must send (SEQUENCE_RENDER_TOKEN and SCENE_THUMBNAIL_TOKEN on the Supabase side)
+  token?: string;
+  // Where finished sequence renders wait for sequence-render to fetch them
+  outputDir: string;
+  // Base URL the edge functions reach this worker at; defaults to the origin of each request
+  publicUrl?: string;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+export function createMediaWorkerHandler(options: MediaWorkerOptions) {
+  let queue: Promise<void> = Promise.resolve();
+
+  function enqueue(name: string, job: () => Promise<void>) {
+    queue = queue.then(job).catch((error) => console.error(`${name} failed:`, error));
+  }
+
+  async function handle(req: Request): Promise<Response> {
+    const url = new URL(req.url);
+
+    if (req.method === "GET" && url.pathname === "/health") {
+      return json({ ok: true });
+    }
+
+    // Finished renders, fetched by sequence-render while it handles the callback
+    const videoMatch = url.pathname.match(/^\/sequence\/([\w-]+)\.mp4$/);
+    if (videoMatch && req.method === "GET") {
+      try {
+        const file = await Deno.open(`${options.outputDir}/${videoMatch[1]}.mp4`, { read: true });
+        return new Response(file.readable, { headers: { "Content-Type": "video/mp4" } });
+      } catch {
+        return json({ error: "Not found" }, 404);
+      }
+    }
+
+    if (req.method !== "POST" || (url.pathname !== "/sequence" && url.pathname !== "/thumbnails")) {
+      return json({ error: "Not found" }, 404);
+    }
+    if (options.token && req.headers.get("authorization") !== `Bearer ${options.token}`) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return json({ error: "Invalid JSON" }, 400);
+    }
+
+    // Answered once both files are uploaded, as sceneThumbnails expects
+    if (url.pathname === "/thumbnails") {
+      const thumbnailProblem = validateThumbnailJob(body as Partial<ThumbnailJob>);
+      if (thumbnailProblem) return json({ error: thumbnailProblem }, 400);
+
+      try {
+        await createThumbnails(body as unknown as ThumbnailJob);
+      } catch (error) {
+        console.error("Thumbnails failed:", error);
+        return json({ error: error instanceof Error ? error.message : "Thumbnails failed" }, 502);
+      }
+      return json({ ok: true });
+    }
+
+    const problem = validateSequenceJob(body as Partial<SequenceJob>);
+    if (problem) return json({ error: problem }, 400);
+
+    const job = { ...body, crossfade_seconds: body.crossfade_seconds ?? 0 } as SequenceJob;
+    const videoUrl = `${options.publicUrl || url.origin}/sequence/${job.render_id}.mp4`;
+    enqueue(`Sequence render ${job.render_id}`, () => renderSequence(job, options.outputDir, videoUrl));
+    return json({ accepted: true }, 202);
+  }
+
+  // Resolves once every job accepted so far has finished
+  const idle = () => queue;
+
+  return { handle, idle };
+}
+
+if (import.meta.main) {
+  const outputDir = Deno.env.get("MEDIA_WORKER_OUTPUT_DIR") || await Deno.makeTempDir({ prefix: "media-worker-" });
+  const { handle } = createMediaWorkerHandler({
+    token: Deno.env.get("MEDIA_WORKER_TOKEN"),
+    outputDir,
+    publicUrl: Deno.env.get("MEDIA_WORKER_PUBLIC_URL"),
+  });
+
+  const port = Number(Deno.env.get("PORT") || 8000);
+  Deno.serve({ port, onListen: () => console.log(`Media worker listening on :${port}`) }, handle);
+}
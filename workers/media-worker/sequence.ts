@@ -0,0 +1,127 @@
+import { downloadTo, runFfmpeg } from "./ffmpeg.ts";
+
+// The sequence renderer behind sequence-render: joins a project's clips into one MP4 with hard
+// cuts or crossfades, serves it for download, and reports back to the job's callback_url.
+
+export interface SequenceJob {
+  render_id: string;
+  clips: { url: string; duration_seconds: number }[];
+  crossfade_seconds: number;
+  output: { fps: number; width: number; height: number };
+  callback_url: string;
+}
+
+// Returns the first problem with a submitted job, or null when it can be rendered
+export function validateSequenceJob(job: Partial<SequenceJob>): string | null {
+  if (typeof job.render_id !== "string" || !/^[\w-]+$/.test(job.render_id)) return "render_id is required";
+  if (typeof job.callback_url !== "string" || !job.callback_url) return "callback_url is required";
+  if (!Array.isArray(job.clips) || job.clips.length === 0) return "clips must list at least one clip";
+  if (!job.clips.every((clip) => typeof clip?.url === "string" && clip.duration_seconds > 0)) {
+    return "every clip needs a url and a positive duration_seconds";
+  }
+
+  const crossfade = job.crossfade_seconds ?? 0;
+  if (typeof crossfade !== "number" || crossfade < 0) return "crossfade_seconds must not be negative";
+  if (job.clips.length > 1 && job.clips.some((clip) => clip.duration_seconds <= crossfade)) {
+    return "crossfade_seconds must be shorter than every clip";
+  }
+
+  const { fps, width, height } = job.output ?? {};
+  if (!(fps! > 0) || !(width! > 0) || !(height! > 0)) return "output needs a positive fps, width and height";
+  return null;
+}
+
+export function sequenceDuration(job: Pick<SequenceJob, "clips" | "crossfade_seconds">): number {
+  const total = job.clips.reduce((sum, clip) => sum + clip.duration_seconds, 0);
+  return total - (job.clips.length - 1) * job.crossfade_seconds;
+}
+
+// ffmpeg arguments that render the clips at inputs[i] into output. Every clip is fitted into the
+// frame (letterboxed where its aspect ratio differs) and held on its last frame or cut to exactly
+// its stated duration, so crossfade offsets line up. Clips have no audio track.
+export function sequenceArgs(job: Pick<SequenceJob, "clips" | "crossfade_seconds" | "output">, inputs: string[], output: string): string[] {
+  const { fps, width, height } = job.output;
+  const crossfade = job.crossfade_seconds;
+
+  const filters = job.clips.map((clip, i) => [
+    `[${i}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease`,
+    `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`,
+    "setsar=1",
+    "format=yuv420p",
+    `fps=${fps}`,
+    `tpad=stop_mode=clone:stop_duration=${clip.duration_seconds}`,
+    `trim=duration=${clip.duration_seconds}`,
+    `setpts=PTS-STARTPTS[v${i}]`,
+  ].join(","));
+
+  let last = "v0";
+  if (job.clips.length > 1 && crossfade > 0) {
+    let offset = 0;
+    for (let i = 1; i < job.clips.length; i++) {
+      offset += job.clips[i - 1].duration_seconds - crossfade;
+      filters.push(`[${last}][v${i}]xfade=transition=fade:duration=${crossfade}:offset=${Number(offset.toFixed(3))}[x${i}]`);
+      last = `x${i}`;
+    }
+  } else if (job.clips.length > 1) {
+    filters.push(`${job.clips.map((_, i) => `[v${i}]`).join("")}concat=n=${job.clips.length}:v=1:a=0[joined]`);
+    last = "joined";
+  }
+
+  return [
+    ...inputs.flatMap((input) => ["-i", input]),
+    "-filter_complex", filters.join(";"),
+    "-map", `[${last}]`,
+    "-an",
+    "-c:v", "libx264",
+    "-preset", "veryfast",
+    "-crf", "20",
+    "-pix_fmt", "yuv420p",
+    "-movflags", "+faststart",
+    output,
+  ];
+}
+
+async function postCallback(callbackUrl: string, body: Record<string, unknown>) {
+  const response = await fetch(callbackUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  await response.body?.cancel();
+  if (!response.ok) {
+    console.error(`Callback to sequence-render answered ${response.status}`);
+  }
+}
+
+// Renders the job into outputDir/{render_id}.mp4 and posts the callback with videoUrl, which must
+// serve that file. sequence-render copies the video into storage before it answers, so the file
+// is removed once the callback returns.
+export async function renderSequence(job: SequenceJob, outputDir: string, videoUrl: string): Promise<void> {
+  const workDir = await Deno.makeTempDir({ prefix: `sequence-${job.render_id}-` });
+  const output = `${outputDir}/${job.render_id}.mp4`;
+
+  try {
+    const inputs = job.clips.map((_, i) => `${workDir}/clip-${i}.mp4`);
+    await Promise.all(job.clips.map((clip, i) => downloadTo(clip.url, inputs[i])));
+    await runFfmpeg(sequenceArgs(job, inputs, output));
+  } catch (error) {
+    console.error(`Sequence render ${job.render_id} failed:`, error);
+    await Deno.remove(workDir, { recursive: true });
+    await postCallback(job.callback_url, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Sequence render failed",
+    });
+    return;
+  }
+
+  await Deno.remove(workDir, { recursive: true });
+  try {
+    await postCallback(job.callback_url, {
+      status: "completed",
+      video_url: videoUrl,
+      duration_seconds: sequenceDuration(job),
+    });
+  } finally {
+    await Deno.remove(output).catch(() => {});
+  }
+}
@@ -0,0 +1,154 @@
+// The media worker's sequence renderer. The full render needs ffmpeg on PATH and is skipped
+// without it; everything else runs anywhere.
+//
+//   deno test --allow-net --allow-env --allow-read --allow-write --allow-run workers/media-worker/tests/
+
+import { assert, assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { createMediaWorkerHandler } from "../main.ts";
+import { runFfmpeg } from "../ffmpeg.ts";
+import { sequenceArgs, sequenceDuration, validateSequenceJob, type SequenceJob } from "../sequence.ts";
+
+const hasFfmpeg = await new Deno.Command("ffmpeg", { args: ["-version"], stdout: "null", stderr: "null" })
+  .output()
+  .then(({ success }) => success, () => false);
+
+const output = { fps: 24, width: 1280, height: 720 };
+const threeClips = [5, 5, 4].map((duration_seconds, i) => ({ url: `https://storage.test/clip-${i}.mp4`, duration_seconds }));
+
+function filterGraph(args: string[]) {
+  return args[args.indexOf("-filter_complex") + 1].split(";");
+}
+
+Deno.test("hard cuts concatenate the fitted clips", () => {
+  const args = sequenceArgs({ clips: threeClips, crossfade_seconds: 0, output }, ["a.mp4", "b.mp4", "c.mp4"], "out.mp4");
+  const graph = filterGraph(args);
+
+  assertEquals(args.slice(0, 6), ["-i", "a.mp4", "-i", "b.mp4", "-i", "c.mp4"]);
+  assertEquals(graph[0], "[0:v]scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2,setsar=1,format=yuv420p,fps=24,tpad=stop_mode=clone:stop_duration=5,trim=duration=5,setpts=PTS-STARTPTS[v0]");
+  assertEquals(graph[3], "[v0][v1][v2]concat=n=3:v=1:a=0[joined]");
+  assertEquals(args.slice(args.indexOf("-map"), args.indexOf("-map") + 2), ["-map", "[joined]"]);
+  assertEquals(args[args.length - 1], "out.mp4");
+  assertEquals(sequenceDuration({ clips: threeClips, crossfade_seconds: 0 }), 14);
+});
+
+Deno.test("crossfades overlap each clip with the next", () => {
+  const job = { clips: threeClips, crossfade_seconds: 0.5, output };
+  const graph = filterGraph(sequenceArgs(job, ["a.mp4", "b.mp4", "c.mp4"], "out.mp4"));
+
+  assertEquals(graph.slice(3), [
+    "[v0][v1]xfade=transition=fade:duration=0.5:offset=4.5[x1]",
+    "[x1][v2]xfade=transition=fade:duration=0.5:offset=9[x2]",
+  ]);
+  assertEquals(sequenceDuration(job), 13);
+});
+
+Deno.test("a single clip is rendered on its own", () => {
+  const args = sequenceArgs({ clips: threeClips.slice(0, 1), crossfade_seconds: 1, output }, ["a.mp4"], "out.mp4");
+  assertEquals(filterGraph(args).length, 1);
+  assertEquals(args[args.indexOf("-map") + 1], "[v0]");
+});
+
+Deno.test("jobs that can't be rendered are refused", () => {
+  const job: SequenceJob = { render_id: "r-1", clips: threeClips, crossfade_seconds: 0.5, output, callback_url: "https://edge.test/cb" };
+
+  assertEquals(validateSequenceJob(job), null);
+  assertEquals(validateSequenceJob({ ...job, render_id: "../etc" }), "render_id is required");
+  assertEquals(validateSequenceJob({ ...job, clips: [] }), "clips must list at least one clip");
+  assertEquals(validateSequenceJob({ ...job, crossfade_seconds: 4 }), "crossfade_seconds must be shorter than every clip");
+  assertEquals(validateSequenceJob({ ...job, output: { ...output, fps: 0 } }), "output needs a positive fps, width and height");
+});
+
+// Serves clip files, takes the worker's callback the way sequence-render does (downloading the
+// video before answering), and runs the worker itself
+async function withWorker(
+  clips: Record<string, Uint8Array>,
+  test: (context: {
+    submit: (job: Omit<SequenceJob, "callback_url">, token?: string) => Promise<Response>;
+    clipUrl: (name: string) => string;
+    callbacks: { body: Record<string, unknown>; video?: Uint8Array }[];
+    idle: () => Promise<void>;
+    outputDir: string;
+  }) => Promise<void>
+) {
+  const outputDir = await Deno.makeTempDir();
+  const callbacks: { body: Record<string, unknown>; video?: Uint8Array }[] = [];
+
+  const storage = Deno.serve({ port: 0, onListen: () => {} }, (req) => {
+    const bytes = clips[new URL(req.url).pathname.slice(1)];
+    return bytes ? new Response(bytes) : new Response("Not found", { status: 404 });
+  });
+  const edge = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+    const body = await req.json();
+    const callback: { body: Record<string, unknown>; video?: Uint8Array } = { body };
+    if (typeof body.video_url === "string") {
+      callback.video = new Uint8Array(await (await fetch(body.video_url)).arrayBuffer());
+    }
+    callbacks.push(callback);
+    return new Response("{}");
+  });
+  const { handle, idle } = createMediaWorkerHandler({ token: "worker-token", outputDir });
+  const worker = Deno.serve({ port: 0, onListen: () => {} }, handle);
+
+  const submit = (job: Omit<SequenceJob, "callback_url">, token = "worker-token") => fetch(`http://localhost:${worker.addr.port}/sequence`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ ...job, callback_url: `http://localhost:${edge.addr.port}/sequence-render?render=${job.render_id}` }),
+  });
+
+  try {
+    await test({ submit, clipUrl: (name) => `http://localhost:${storage.addr.port}/${name}`, callbacks, idle, outputDir });
+  } finally {
+    await Promise.all([storage.shutdown(), edge.shutdown(), worker.shutdown()]);
+    await Deno.remove(outputDir, { recursive: true });
+  }
+}
+
+Deno.test("submissions need the worker's token", () => withWorker({}, async ({ submit, clipUrl }) => {
+  const response = await submit({ render_id: "r-1", clips: [{ url: clipUrl("a.mp4"), duration_seconds: 1 }], crossfade_seconds: 0, output }, "wrong");
+  await response.body?.cancel();
+  assertEquals(response.status, 401);
+}));
+
+Deno.test("a render whose clips can't be downloaded reports failure", () => withWorker({}, async ({ submit, clipUrl, callbacks, idle }) => {
+  const response = await submit({ render_id: "r-1", clips: [{ url: clipUrl("missing.mp4"), duration_seconds: 1 }], crossfade_seconds: 0, output });
+  await response.body?.cancel();
+  assertEquals(response.status, 202);
+
+  await idle();
+  assertEquals(callbacks.length, 1);
+  assertEquals(callbacks[0].body.status, "failed");
+  assertEquals(callbacks[0].body.error, "Failed to download /missing.mp4: 404 Not Found");
+}));
+
+Deno.test({
+  name: "clips are rendered into one video that is served until the callback returns",
+  ignore: !hasFfmpeg,
+  fn: async () => {
+    const sourceDir = await Deno.makeTempDir();
+    const clips: Record<string, Uint8Array> = {};
+    for (const [name, size] of [["wide.mp4", "320x180"], ["tall.mp4", "180x320"]]) {
+      await runFfmpeg(["-f", "lavfi", "-i", `testsrc=size=${size}:rate=24:duration=1`, "-pix_fmt", "yuv420p", `${sourceDir}/${name}`]);
+      clips[name] = await Deno.readFile(`${sourceDir}/${name}`);
+    }
+    await Deno.remove(sourceDir, { recursive: true });
+
+    await withWorker(clips, async ({ submit, clipUrl, callbacks, idle, outputDir }) => {
+      const response = await submit({
+        render_id: "r-1",
+        clips: [{ url: clipUrl("wide.mp4"), duration_seconds: 1 }, { url: clipUrl("tall.mp4"), duration_seconds: 1 }],
+        crossfade_seconds: 0.25,
+        output: { fps: 24, width: 320, height: 180 },
+      });
+      await response.body?.cancel();
+      await idle();
+
+      assertEquals(callbacks.map(({ body }) => [body.status, body.duration_seconds]), [["completed", 1.75]]);
+      const video = callbacks[0].video!;
+      assertEquals(new TextDecoder().decode(video.slice(4, 8)), "ftyp");
+      assert(video.length > 1000);
+
+      // Removed once sequence-render has its copy
+      assertEquals([...Deno.readDirSync(outputDir)], []);
+    });
+  },
+});
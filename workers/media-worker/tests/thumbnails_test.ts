@@ -0,0 +1,117 @@
+// The media worker's thumbnails. Making real files needs ffmpeg on PATH and is skipped without
+// it; everything else runs anywhere.
+//
+//   deno test --allow-net --allow-env --allow-read --allow-write --allow-run workers/media-worker/tests/
+
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { createMediaWorkerHandler } from "../main.ts";
+import { runFfmpeg } from "../ffmpeg.ts";
+import { posterArgs, previewArgs, validateThumbnailJob, type ThumbnailJob } from "../thumbnails.ts";
+
+const hasFfmpeg = await new Deno.Command("ffmpeg", { args: ["-version"], stdout: "null", stderr: "null" })
+  .output()
+  .then(({ success }) => success, () => false);
+
+Deno.test("the poster is the first frame and the preview a looping WebP of the opening seconds", () => {
+  assertEquals(posterArgs("in.mp4", "poster.jpg"), ["-i", "in.mp4", "-frames:v", "1", "-q:v", "3", "poster.jpg"]);
+
+  const args = previewArgs("in.mp4", "preview.webp", { seconds: 3, width: 320 });
+  assertEquals(args.slice(0, 4), ["-t", "3", "-i", "in.mp4"]);
+  assertEquals(args[args.indexOf("-vf") + 1], "fps=12,scale=320:-2:flags=lanczos");
+  assertEquals(args.slice(args.indexOf("-c:v"), args.indexOf("-c:v") + 2), ["-c:v", "libwebp"]);
+  assertEquals(args[args.length - 1], "preview.webp");
+});
+
+Deno.test("jobs that can't be processed are refused", () => {
+  const job: ThumbnailJob = {
+    video_url: "https://storage.test/scene.mp4",
+    poster: { upload_url: "https://storage.test/upload/poster.jpg" },
+    preview: { upload_url: "https://storage.test/upload/preview.webp", seconds: 3, width: 320 },
+  };
+
+  assertEquals(validateThumbnailJob(job), null);
+  assertEquals(validateThumbnailJob({ ...job, poster: null }), null);
+  assertEquals(validateThumbnailJob({ ...job, video_url: "" }), "video_url is required");
+  assertEquals(validateThumbnailJob({ ...job, poster: null, preview: null }), "poster or preview is required");
+  assertEquals(validateThumbnailJob({ ...job, preview: { ...job.preview!, width: 0 } }), "preview needs a positive seconds and width");
+});
+
+// Serves the scene video and takes uploads the way Supabase's signed upload URLs do, and runs
+// the worker itself
+async function withWorker(
+  video: Uint8Array | null,
+  test: (context: {
+    submit: (job: Omit<ThumbnailJob, "video_url">) => Promise<Response>;
+    uploads: Map<string, { contentType: string | null; bytes: Uint8Array }>;
+  }) => Promise<void>
+) {
+  const uploads = new Map<string, { contentType: string | null; bytes: Uint8Array }>();
+
+  const storage = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+    const path = new URL(req.url).pathname;
+    if (req.method === "PUT") {
+      uploads.set(path, { contentType: req.headers.get("content-type"), bytes: new Uint8Array(await req.arrayBuffer()) });
+      return new Response("{}");
+    }
+    return video && path === "/scene.mp4" ? new Response(video) : new Response("Not found", { status: 404 });
+  });
+  const outputDir = await Deno.makeTempDir();
+  const { handle } = createMediaWorkerHandler({ token: "worker-token", outputDir });
+  const worker = Deno.serve({ port: 0, onListen: () => {} }, handle);
+
+  const storageUrl = `http://localhost:${storage.addr.port}`;
+  const submit = (job: Omit<ThumbnailJob, "video_url">) => fetch(`http://localhost:${worker.addr.port}/thumbnails`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: "Bearer worker-token" },
+    body: JSON.stringify({
+      video_url: `${storageUrl}/scene.mp4`,
+      poster: job.poster && { upload_url: `${storageUrl}${job.poster.upload_url}` },
+      preview: job.preview && { ...job.preview, upload_url: `${storageUrl}${job.preview.upload_url}` },
+    }),
+  });
+
+  try {
+    await test({ submit, uploads });
+  } finally {
+    await Promise.all([storage.shutdown(), worker.shutdown()]);
+    await Deno.remove(outputDir, { recursive: true });
+  }
+}
+
+Deno.test("a video that can't be downloaded fails the request without uploads", () => withWorker(null, async ({ submit, uploads }) => {
+  const response = await submit({ poster: { upload_url: "/upload/poster.jpg" }, preview: null });
+
+  assertEquals(response.status, 502);
+  assertEquals(await response.json(), { error: "Failed to download /scene.mp4: 404 Not Found" });
+  assertEquals(uploads.size, 0);
+}));
+
+Deno.test({
+  name: "the poster and preview are uploaded before the request is answered",
+  ignore: !hasFfmpeg,
+  fn: async () => {
+    const sourceDir = await Deno.makeTempDir();
+    await runFfmpeg(["-f", "lavfi", "-i", "testsrc=size=320x180:rate=24:duration=2", "-pix_fmt", "yuv420p", `${sourceDir}/scene.mp4`]);
+    const video = await Deno.readFile(`${sourceDir}/scene.mp4`);
+    await Deno.remove(sourceDir, { recursive: true });
+
+    await withWorker(video, async ({ submit, uploads }) => {
+      const response = await submit({
+        poster: { upload_url: "/upload/poster.jpg" },
+        preview: { upload_url: "/upload/preview.webp", seconds: 1, width: 160 },
+      });
+
+      assertEquals(response.status, 200);
+      assertEquals(await response.json(), { ok: true });
+
+      const poster = uploads.get("/upload/poster.jpg")!;
+      assertEquals(poster.contentType, "image/jpeg");
+      assertEquals([...poster.bytes.slice(0, 2)], [0xff, 0xd8]);
+
+      const preview = uploads.get("/upload/preview.webp")!;
+      assertEquals(preview.contentType, "image/webp");
+      const decoder = new TextDecoder();
+      assertEquals([decoder.decode(preview.bytes.slice(0, 4)), decoder.decode(preview.bytes.slice(8, 12))], ["RIFF", "WEBP"]);
+    });
+  },
+});
@@ -0,0 +1,62 @@
+import { downloadTo, runFfmpeg, uploadFile } from "./ffmpeg.ts";
+
+// The thumbnail worker behind sceneThumbnails: a poster JPEG and an animated WebP preview of a
+// finished scene video, uploaded through the signed upload URLs scene completion hands over.
+
+export interface ThumbnailJob {
+  video_url: string;
+  poster: { upload_url: string } | null;
+  preview: { upload_url: string; seconds: number; width: number } | null;
+}
+
+// Returns the first problem with a submitted job, or null when it can be processed
+export function validateThumbnailJob(job: Partial<ThumbnailJob>): string | null {
+  if (typeof job.video_url !== "string" || !job.video_url) return "video_url is required";
+  if (!job.poster && !job.preview) return "poster or preview is required";
+  if (job.poster && typeof job.poster.upload_url !== "string") return "poster.upload_url is required";
+  if (job.preview) {
+    if (typeof job.preview.upload_url !== "string") return "preview.upload_url is required";
+    if (!(job.preview.seconds > 0) || !(job.preview.width > 0)) return "preview needs a positive seconds and width";
+  }
+  return null;
+}
+
+// The first frame, at the video's own size
+export function posterArgs(input: string, output: string): string[] {
+  return ["-i", input, "-frames:v", "1", "-q:v", "3", output];
+}
+
+// The opening seconds at 12 fps, scaled to width (height kept even), looping forever
+export function previewArgs(input: string, output: string, preview: { seconds: number; width: number }): string[] {
+  return [
+    "-t", String(preview.seconds),
+    "-i", input,
+    "-vf", `fps=12,scale=${Math.round(preview.width)}:-2:flags=lanczos`,
+    "-an",
+    "-c:v", "libwebp",
+    "-quality", "70",
+    "-loop", "0",
+    output,
+  ];
+}
+
+// Uploads the requested files, throwing if any of them couldn't be made or stored
+export async function createThumbnails(job: ThumbnailJob): Promise<void> {
+  const workDir = await Deno.makeTempDir({ prefix: "thumbnails-" });
+
+  try {
+    const video = `${workDir}/video.mp4`;
+    await downloadTo(job.video_url, video);
+
+    if (job.poster) {
+      await runFfmpeg(posterArgs(video, `${workDir}/poster.jpg`));
+      await uploadFile(job.poster.upload_url, `${workDir}/poster.jpg`, "image/jpeg");
+    }
+    if (job.preview) {
+      await runFfmpeg(previewArgs(video, `${workDir}/preview.webp`, job.preview));
+      await uploadFile(job.preview.upload_url, `${workDir}/preview.webp`, "image/webp");
+    }
+  } finally {
+    await Deno.remove(workDir, { recursive: true });
+  }
+}